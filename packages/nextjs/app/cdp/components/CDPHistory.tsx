@@ -0,0 +1,133 @@
+"use client";
+
+import React from "react";
+import useCdpHistory, { CdpHistoryAction } from "@/hooks/useCdpHistory";
+import { formatUnits } from "viem";
+import { useAccount, useChainId } from "wagmi";
+import { getCdpChain } from "~~/app/constants/contracts";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
+
+const actionLabels: Record<CdpHistoryAction, string> = {
+  UserDeposit: "CDPHistoryDeposit",
+  UserWithdraw: "CDPHistoryWithdraw",
+  CoinMinted: "CDPHistoryMint",
+  CoinPayback: "CDPHistoryRepay",
+};
+
+/**
+ * Formats a raw amount with up to 6 decimals.
+ * @param {bigint} amount - The raw amount.
+ * @param {number} decimals - The token decimals.
+ * @returns {number} - The amount in token units.
+ */
+const formatAmount = (amount: bigint, decimals: number) => parseFloat(Number(formatUnits(amount, decimals)).toFixed(6));
+
+// Timeline of the user's deposits, withdrawals, mints and repayments
+const CDPHistory: React.FC = () => {
+  const { t } = useTranslation();
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const xocDecimals = getCdpChain(chainId)?.xocDecimals ?? 18;
+
+  const { entries, isLoading, error, hasMore, loadMore } = useCdpHistory(address);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-md">
+      <h2 className="text-xl text-primary font-semibold mb-4">{t("CDPHistoryTitle")}</h2>
+      <p className="text-gray-500 mb-4">{t("CDPHistoryDescription")}</p>
+      <div className="rounded-md overflow-x-auto">
+        {entries.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-center">
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("CDPHistoryColumnDate")}
+                </th>
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("CDPHistoryColumnAction")}
+                </th>
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("CDPHistoryColumnAmount")}
+                </th>
+                <th
+                  scope="col"
+                  className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell"
+                >
+                  {t("CDPHistoryColumnCollateral")}
+                </th>
+                <th
+                  scope="col"
+                  className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell"
+                >
+                  {t("CDPHistoryColumnDebt")}
+                </th>
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("CDPHistoryColumnTransaction")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-center">
+              {entries.map(entry => {
+                const isReserveAction = entry.action === "UserDeposit" || entry.action === "UserWithdraw";
+                return (
+                  <tr key={`${entry.transactionHash}-${entry.action}`}>
+                    <td className="px-2 py-4">
+                      <p className="text-sm text-gray-900">
+                        {new Date(Number(entry.timestamp) * 1000).toLocaleString()}
+                      </p>
+                    </td>
+                    <td className="px-2 py-4">
+                      <p className="text-sm font-medium text-gray-900">
+                        {t(actionLabels[entry.action])} · {entry.house.symbol}
+                      </p>
+                    </td>
+                    <td className="px-2 py-4">
+                      <p className="text-sm text-gray-900">
+                        {isReserveAction
+                          ? `${formatAmount(entry.amount, entry.house.assetDecimals)} ${entry.house.symbol}`
+                          : `${formatAmount(entry.amount, xocDecimals)} $XOC`}
+                      </p>
+                    </td>
+                    <td className="px-2 py-4 hidden sm:table-cell">
+                      <p className="text-sm text-gray-900">
+                        {formatAmount(entry.collateral, entry.house.assetDecimals)} {entry.house.symbol}
+                      </p>
+                    </td>
+                    <td className="px-2 py-4 hidden sm:table-cell">
+                      <p className="text-sm text-gray-900">{formatAmount(entry.minted, xocDecimals)} $XOC</p>
+                    </td>
+                    <td className="px-2 py-4">
+                      <a
+                        href={getBlockExplorerTxLink(chainId, entry.transactionHash)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="link text-sm"
+                      >
+                        {entry.transactionHash.slice(0, 6)}...{entry.transactionHash.slice(-4)}
+                      </a>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          !isLoading && <p className="text-primary text-2xl">{t("CDPHistoryEmpty")}</p>
+        )}
+        {error && <p className="text-error text-xs">{t("CDPHistoryError")}</p>}
+        {(isLoading || hasMore) && (
+          <button
+            className="text-sm text-accent m-1 dark:text-white btn bg-base-100 hover:bg-primary hover:text-white"
+            onClick={loadMore}
+            disabled={isLoading}
+          >
+            {isLoading ? t("CDPHistoryLoading") : t("CDPHistoryLoadMore")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CDPHistory;
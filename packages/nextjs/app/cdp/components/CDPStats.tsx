@@ -5,9 +5,11 @@ import { XOCABI } from "../../../app/components/abis/xocabis";
 import BaseLogo from "@/public/Base-Logo.jpg";
 import BinanceLogo from "@/public/BinanceLogo.png";
 import PolygonLogo from "@/public/PolygonLogo.png";
-import { Address, formatEther } from "viem";
+import { Abi } from "abitype";
+import { formatEther } from "viem";
 import { useChainId, useReadContract, useReadContracts } from "wagmi";
 import { ArrowTopRightOnSquareIcon } from "@heroicons/react/20/solid";
+import { getCdpChain, xocContract } from "~~/app/constants/contracts";
 import { useTranslation } from "~~/app/context/LanguageContext";
 
 const CDPStats: React.FC = () => {
@@ -20,6 +22,11 @@ const CDPStats: React.FC = () => {
   };
   const chainName = chainNames[chainId] || "Unknown Chain";
 
+  // Get the houses for the current chain
+  const cdpChain = getCdpChain(chainId);
+  const houses = cdpChain?.houses ?? [];
+  const assetNames = houses.map(house => house.symbol);
+
   const [latestMinted, setLatestMinted] = useState<any>(null);
   const [latestMintedNumber, setLatestMintedNumber] = useState<string | null>(null);
   const {
@@ -27,7 +34,7 @@ const CDPStats: React.FC = () => {
     isLoading: latestMintedLoading,
     error: latestMintedError,
   } = useReadContract({
-    address: "0xa411c9Aa00E020e4f88Bc19996d29c5B7ADB4ACf",
+    address: cdpChain?.xocContract ?? xocContract,
     abi: XOCABI,
     functionName: "totalSupply",
   });
@@ -46,65 +53,12 @@ const CDPStats: React.FC = () => {
     }
   }, [latestMinted]);
 
-  // Define the contract addresses for each chain
-  let houseOfReserveContracts: { address: Address; abi: any; functionName: string }[] = [];
-  let assetNames: string[] = [];
-
-  if (chainId === 56) {
-    houseOfReserveContracts = [
-      {
-        address: "0xd411BE9A105Ea7701FabBe58C2834b7033EBC203",
-        abi: houseOfReserveABI,
-        functionName: "totalDeposits",
-      },
-      {
-        address: "0x070ccE6887E70b75015F948b12601D1E759D2024",
-        abi: houseOfReserveABI,
-        functionName: "totalDeposits",
-      },
-    ];
-    assetNames = ["WETH", "WBNB"];
-  } else if (chainId === 137) {
-    houseOfReserveContracts = [
-      {
-        address: "0x2718644E0C38A6a1F82136FC31dcA00DFCdF92a3",
-        abi: houseOfReserveABI,
-        functionName: "totalDeposits",
-      },
-      {
-        address: "0x76CAc0bC384a49485627D2235fE132e3038b45BB",
-        abi: houseOfReserveABI,
-        functionName: "totalDeposits",
-      },
-      {
-        address: "0xF56293025437Db5C0024a37dfcEc792125d56A48",
-        abi: houseOfReserveABI,
-        functionName: "totalDeposits",
-      },
-    ];
-    assetNames = ["WETH", "MATICX", "WMATIC"];
-  } else if (chainId === 8453) {
-    houseOfReserveContracts = [
-      {
-        address: "0xfF69E183A863151B4152055974aa648b3165014D",
-        abi: houseOfReserveABI,
-        functionName: "totalDeposits",
-      },
-      {
-        address: "0x5c4a154690AE52844F151bcF3aA44885db3c8A58",
-        abi: houseOfReserveABI,
-        functionName: "totalDeposits",
-      },
-    ];
-    assetNames = ["WETH", "cbETH"];
-  }
-
   // Call to fetch data from the House of Reserve contracts
   const { data: houseOfReserveData, isError: houseOfReserveError } = useReadContracts({
-    contracts: houseOfReserveContracts.map(contract => ({
-      address: contract.address,
-      abi: contract.abi,
-      functionName: contract.functionName,
+    contracts: houses.map(house => ({
+      address: house.houseOfReserveContract,
+      abi: houseOfReserveABI as Abi,
+      functionName: "totalDeposits",
     })),
   });
 
@@ -117,9 +71,9 @@ const CDPStats: React.FC = () => {
     }
   }, [houseOfReserveData, houseOfReserveError]);
 
-  const formattedHouseOfReserveData: any[] = houseOfReserveData
-    ? houseOfReserveData.map(({ result }) => Number(result) / 10 ** 18)
-    : Array(houseOfReserveContracts.length).fill(0);
+  const formattedHouseOfReserveData: number[] = houses.map((house, index) =>
+    houseOfReserveData ? Number(houseOfReserveData[index]?.result ?? 0) / 10 ** house.assetDecimals : 0,
+  );
 
   let logoSrc = BaseLogo;
   if (chainId === 137) {
@@ -129,13 +83,14 @@ const CDPStats: React.FC = () => {
   }
 
   const handleProofClick = () => {
+    const tokenAddress = cdpChain?.xocContract ?? xocContract;
     let explorerUrl = "";
     if (chainId === 137) {
-      explorerUrl = "https://polygonscan.com/token/0xa411c9Aa00E020e4f88Bc19996d29c5B7ADB4ACf";
+      explorerUrl = `https://polygonscan.com/token/${tokenAddress}`;
     } else if (chainId === 56) {
-      explorerUrl = "https://bscscan.com/token/0xa411c9Aa00E020e4f88Bc19996d29c5B7ADB4ACf";
+      explorerUrl = `https://bscscan.com/token/${tokenAddress}`;
     } else if (chainId === 8453) {
-      explorerUrl = "https://basescan.org/token/0xa411c9Aa00E020e4f88Bc19996d29c5B7ADB4ACf";
+      explorerUrl = `https://basescan.org/token/${tokenAddress}`;
     }
     window.open(explorerUrl, "_blank");
   };
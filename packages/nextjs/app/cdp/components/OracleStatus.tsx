@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useMemo } from "react";
+import useContractEventHistory, { EventSource } from "@/hooks/useContractEventHistory";
+import { Abi } from "abitype";
+import { formatUnits } from "viem";
+import { useChainId } from "wagmi";
+import { houseOfCoinABI } from "~~/app/components/abis/houseofcoin";
+import { getCdpChain } from "~~/app/constants/contracts";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useCdpOracle } from "~~/context/OracleStatusContext";
+import { CDP_PRICE_DECIMALS } from "~~/utils/cdpMath";
+
+/**
+ * Formats a duration in seconds as minutes and seconds.
+ * @param {bigint} seconds - The duration in seconds.
+ * @returns {string} - The duration, e.g. "5m 12s".
+ */
+const formatDuration = (seconds: bigint) => {
+  const minutes = seconds / 60n;
+  return minutes > 0n ? `${minutes}m ${seconds % 60n}s` : `${seconds}s`;
+};
+
+// Panel showing the House of Coin oracle source, prices and freshness
+const OracleStatus: React.FC = () => {
+  const { t } = useTranslation();
+  const {
+    activeSource,
+    chainlinkFeeds,
+    redstoneFeeds,
+    prices,
+    priceAge,
+    maxBlockDelay,
+    maxDataDelay,
+    isStale,
+    isPriceValid,
+  } = useCdpOracle();
+
+  // The latest ActiveOracleChanged event tells since when the source is active
+  const chainId = useChainId();
+  const cdpChain = getCdpChain(chainId);
+  const sources = useMemo(
+    (): EventSource[] =>
+      cdpChain
+        ? [{ address: cdpChain.houseOfCoinContract, abi: houseOfCoinABI as Abi, eventName: "ActiveOracleChanged" }]
+        : [],
+    [cdpChain],
+  );
+  const { data: oracleChanges } = useContractEventHistory({ sources, chainId, enabled: sources.length > 0 });
+  const lastOracleChange = oracleChanges[0];
+
+  if (!activeSource) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-md">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-xl text-primary font-semibold">{t("OracleTitle")}</h2>
+        <span
+          className={`text-xs px-2 py-1 border rounded ${
+            isPriceValid ? "text-success border-success" : "text-error border-error"
+          }`}
+        >
+          {isPriceValid ? t("OracleValid") : t("OracleInvalid")}
+        </span>
+      </div>
+
+      {!isPriceValid && (
+        <div role="alert" className="alert alert-warning mb-4 text-sm">
+          <span>{isStale ? t("OracleStaleWarning") : t("OracleNoValueWarning")}</span>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 text-sm text-gray-900">
+        <div className="flex justify-between">
+          <span className="text-gray-500">{t("OracleActiveSource")}</span>
+          <span className="font-bold">{activeSource}</span>
+        </div>
+        {lastOracleChange && (
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t("OracleActiveSince")}</span>
+            <span>{new Date(Number(lastOracleChange.timestamp) * 1000).toLocaleString()}</span>
+          </div>
+        )}
+        {activeSource === "Chainlink" && chainlinkFeeds.length > 0 && (
+          <div className="flex justify-between gap-2">
+            <span className="text-gray-500">{t("OracleFeeds")}</span>
+            <span className="break-all text-right">{chainlinkFeeds.join(", ")}</span>
+          </div>
+        )}
+        {activeSource === "Redstone" && redstoneFeeds.length > 0 && (
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t("OracleFeeds")}</span>
+            <span>{redstoneFeeds.join(" / ")}</span>
+          </div>
+        )}
+        {prices.map(({ house, price }) => (
+          <div key={house.houseOfReserveContract} className="flex justify-between">
+            <span className="text-gray-500">{house.symbol}</span>
+            <span className={price === undefined ? "text-error" : ""}>
+              {price !== undefined
+                ? `${parseFloat(Number(formatUnits(price, CDP_PRICE_DECIMALS)).toFixed(2))} $XOC`
+                : t("OracleNoValue")}
+            </span>
+          </div>
+        ))}
+        {priceAge !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t("OraclePriceAge")}</span>
+            <span className={isStale ? "text-error font-bold" : ""}>{formatDuration(priceAge)}</span>
+          </div>
+        )}
+        {priceAge !== undefined && activeSource !== "Chainlink" && (
+          <p className="text-xs text-gray-500">{t("OraclePriceAgeLastRead")}</p>
+        )}
+        {maxDataDelay !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t("OracleMaxDataDelay")}</span>
+            <span>{formatDuration(maxDataDelay)}</span>
+          </div>
+        )}
+        {maxBlockDelay !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t("OracleMaxBlockDelay")}</span>
+            <span>{formatDuration(maxBlockDelay)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OracleStatus;
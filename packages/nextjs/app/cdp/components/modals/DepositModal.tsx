@@ -1,15 +1,21 @@
 // DepositModal.tsx
 import React, { useCallback, useEffect, useState } from "react";
 import Image from "next/image";
+import NativeStepList from "./NativeStepList";
+import SimulationOverview from "./SimulationOverview";
 import BalanceOf from "@/app/lending/components/BalanceOf";
 import useAccountAddress from "@/hooks/useAccount";
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { Address } from "viem";
+import { Address, formatEther } from "viem";
 import { useChainId, useReadContract, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 import { ERC20ABI } from "~~/app/components/abis/erc20";
+import { useTranslation } from "~~/app/context/LanguageContext";
 import { useBalanceOf } from "~~/hooks/useBalanceOf";
+import useCdpSimulation from "~~/hooks/useCdpSimulation";
 import { useDeposit } from "~~/hooks/useDeposit";
+import useNativeCdp from "~~/hooks/useNativeCdp";
+import { getParsedError } from "~~/utils/scaffold-eth";
 
 interface DepositModalProps {
   isOpen: boolean;
@@ -28,6 +34,7 @@ const DepositModal: React.FC<DepositModalProps> = ({
   assetContract,
 }) => {
   const chainId = useChainId();
+  const { t } = useTranslation();
 
   const [amount, setAmount] = useState("");
   const { address: walletAddress } = useAccountAddress();
@@ -41,6 +48,8 @@ const DepositModal: React.FC<DepositModalProps> = ({
   const [assetAllowanceState, setAssetAllowanceState] = useState<string>("0");
   // State to track if approval is needed
   const [requiresApproval, setRequiresApproval] = useState(false);
+  // State to track if the native coin is wrapped before depositing
+  const [useNative, setUseNative] = useState(false);
 
   const {
     writeContract: approveERC20,
@@ -85,6 +94,26 @@ const DepositModal: React.FC<DepositModalProps> = ({
     error,
     depositHash,
   } = useDeposit(houseOfReserveContract as Address);
+  const { current, projected, xocDecimals } = useCdpSimulation(houseOfReserveContract as Address, "deposit", amount);
+  const {
+    isNativeSupported,
+    nativeSymbol,
+    nativeBalance,
+    spendableNativeBalance,
+    steps: nativeSteps,
+    isRunning: isNativeRunning,
+    error: nativeError,
+    hash: nativeHash,
+    depositNative,
+    resetSteps,
+  } = useNativeCdp(houseOfReserveContract as Address, assetContract as Address | null);
+
+  // Balance the amount is paid from, native or ERC20
+  const walletBalance = useNative
+    ? nativeBalance !== undefined
+      ? formatEther(nativeBalance)
+      : undefined
+    : assetBalance;
 
   const getBlockExplorerUrl = (chainId: number): string => {
     switch (chainId) {
@@ -98,16 +127,16 @@ const DepositModal: React.FC<DepositModalProps> = ({
         return ""; // Fallback for unsupported networks
     }
   };
-  const blockExplorerUrl = `${getBlockExplorerUrl(chainId)}${depositHash}`;
+  const blockExplorerUrl = `${getBlockExplorerUrl(chainId)}${depositHash ?? nativeHash}`;
 
   useEffect(() => {
     const assetAmount = parseFloat(amount) || 0;
-    if (assetBalance && assetAmount > parseFloat(assetBalance)) {
+    if (walletBalance && assetAmount > parseFloat(walletBalance)) {
       setBalanceError("You don't have enough tokens in your wallet");
     } else {
       setBalanceError(null); // Clear error if valid
     }
-  }, [amount, assetBalance]);
+  }, [amount, walletBalance]);
 
   useEffect(() => {
     // Function to check if approval is required
@@ -125,12 +154,18 @@ const DepositModal: React.FC<DepositModalProps> = ({
   useEffect(() => {
     if (isDepositError) {
       setIsError(true);
-      setErrorMessage(error?.message || "An unknown error occurred.");
+      setErrorMessage(getParsedError(error, t));
     }
     if (depositHash) {
       setData(depositHash);
     }
-  }, [isDepositError, depositHash, error]);
+  }, [isDepositError, depositHash, error, t]);
+
+  useEffect(() => {
+    if (nativeHash) {
+      setData(nativeHash);
+    }
+  }, [nativeHash]);
 
   useEffect(() => {
     const assetAmount = parseFloat(amount) || 0;
@@ -139,7 +174,7 @@ const DepositModal: React.FC<DepositModalProps> = ({
       setBalanceError(null); // Clear balance-related errors if amount is invalid
       setErrorMessage("Amount must be a positive number.");
       setIsValid(false);
-    } else if (assetBalance && assetAmount > parseFloat(assetBalance)) {
+    } else if (walletBalance && assetAmount > parseFloat(walletBalance)) {
       setBalanceError("You don't have enough tokens in your wallet");
       setErrorMessage(""); // Clear the positive number error if balance error exists
       setIsValid(false);
@@ -148,7 +183,7 @@ const DepositModal: React.FC<DepositModalProps> = ({
       setErrorMessage(""); // Clear other error messages
       setIsValid(true);
     }
-  }, [amount, assetBalance]);
+  }, [amount, walletBalance]);
 
   const handleApproval = async () => {
     const assetAmount = parseFloat(amount) || 0;
@@ -191,6 +226,10 @@ const DepositModal: React.FC<DepositModalProps> = ({
     setAmount("");
   };
 
+  const onNativeDepositClick = () => {
+    depositNative(amount);
+  };
+
   const handleCopyError = () => {
     if (error?.message) {
       navigator.clipboard
@@ -209,7 +248,12 @@ const DepositModal: React.FC<DepositModalProps> = ({
   };
 
   const handleMaxClick = () => {
-    setAmount(assetBalance || "");
+    // The native coin also pays the gas of the wrap and deposit, so part of it is kept back
+    if (useNative) {
+      setAmount(spendableNativeBalance !== undefined ? formatEther(spendableNativeBalance) : "");
+    } else {
+      setAmount(walletBalance || "");
+    }
   };
 
   const handleClose = () => {
@@ -218,6 +262,8 @@ const DepositModal: React.FC<DepositModalProps> = ({
     setErrorMessage("");
     setData(null);
     setIsError(false);
+    setUseNative(false);
+    resetSteps();
     onClose();
   };
 
@@ -266,8 +312,20 @@ const DepositModal: React.FC<DepositModalProps> = ({
                   value={amount}
                   onChange={handleChange}
                 />
-                <span className="font-bold ml-2">{assetName}</span>
+                <span className="font-bold ml-2">{useNative ? nativeSymbol : assetName}</span>
               </div>
+              {isNativeSupported && (
+                <label className="flex items-center gap-2 text-xs sm:text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={useNative}
+                    onChange={event => setUseNative(event.target.checked)}
+                    disabled={isNativeRunning}
+                  />
+                  Deposit with {nativeSymbol}, wrapped into {assetName} first
+                </label>
+              )}
               <span
                 className="font-bold hover:underline cursor-pointer text-sm sm:text-base mt-2"
                 onClick={handleMaxClick}
@@ -298,6 +356,15 @@ const DepositModal: React.FC<DepositModalProps> = ({
                   <span className="font-bold">{assetName}</span>
                 </div>
               </div>
+              {useNative && (
+                <div className="flex justify-between items-center text-xs sm:text-sm">
+                  <p className="text-xs text-gray-500">{nativeSymbol} Balance:</p>
+                  <div className="flex items-center gap-1">
+                    <span>{walletBalance ? parseFloat(walletBalance).toFixed(6) : "0"}</span>
+                    <span className="font-bold">{nativeSymbol}</span>
+                  </div>
+                </div>
+              )}
               <div className="flex justify-between items-center text-xs sm:text-sm">
                 <p className="text-xs text-gray-500">Allowance:</p>
                 <div className="flex items-center gap-1">
@@ -307,8 +374,29 @@ const DepositModal: React.FC<DepositModalProps> = ({
               </div>
             </div>
 
+            <SimulationOverview current={current} projected={projected} xocDecimals={xocDecimals} />
+
+            {useNative && (
+              <NativeStepList
+                steps={nativeSteps}
+                assetName={assetName}
+                nativeSymbol={nativeSymbol}
+                error={nativeError}
+              />
+            )}
+
             <div className="flex flex-col sm:flex-row justify-between gap-4">
-              {requiresApproval ? (
+              {useNative ? (
+                <button
+                  className={`flex-grow sm:basis-2/3 ${
+                    isValid && !balanceError && !isNativeRunning ? "primary-btn" : "disabled-btn"
+                  }`}
+                  onClick={onNativeDepositClick}
+                  disabled={isNativeRunning || !isValid || balanceError !== null}
+                >
+                  {isNativeRunning ? "Processing..." : "Wrap & Deposit"}
+                </button>
+              ) : requiresApproval ? (
                 isApprovalLoading ? (
                   <div className="flex-grow sm:basis-2/3 bg-warning text-base-100 text-center rounded-lg py-2 cursor-not-allowed">
                     Waiting for approval...
@@ -362,6 +450,7 @@ const DepositModal: React.FC<DepositModalProps> = ({
                 Oops! Something went wrong.{" "}
                 {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
               </p>
+              {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
               <span onClick={handleCopyError} className="cursor-pointer underline font-bold text-lg">
                 Copy the error.
               </span>
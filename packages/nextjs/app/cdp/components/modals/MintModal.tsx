@@ -1,10 +1,15 @@
 import React, { useEffect, useState } from "react";
 import Image from "next/image";
+import SimulationOverview from "./SimulationOverview";
+import useCdpSimulation from "@/hooks/useCdpSimulation";
 import useMint from "@/hooks/useMint";
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { Address } from "viem";
 import { useChainId } from "wagmi";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useCdpOracle } from "~~/context/OracleStatusContext";
+import { getParsedError } from "~~/utils/scaffold-eth";
 
 interface MintModalProps {
   isOpen: boolean;
@@ -26,6 +31,7 @@ const MintModal: React.FC<MintModalProps> = ({
   assetsAccountantContract,
 }) => {
   const chainId = useChainId();
+  const { t } = useTranslation();
   const [amount, setAmount] = useState("");
   const [isValid, setIsValid] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
@@ -34,6 +40,11 @@ const MintModal: React.FC<MintModalProps> = ({
   const [showSuccessIcon, setShowSuccessIcon] = useState(false);
 
   const { handleMint, isError: mintError, error, mintingHash } = useMint();
+  const { current, projected, xocDecimals } = useCdpSimulation(houseOfReserveContract, "mint", amount);
+  const { isHousePriceValid } = useCdpOracle();
+  const isPriceValid = isHousePriceValid(houseOfReserveContract);
+  // Minting below the margin call threshold or without a valid oracle price is blocked before the user signs
+  const isBlocked = !!projected?.isBelowMarginCall || !isPriceValid;
 
   useEffect(() => {
     validateAmount(amount);
@@ -42,12 +53,12 @@ const MintModal: React.FC<MintModalProps> = ({
   useEffect(() => {
     if (mintError) {
       setIsError(true);
-      setErrorMessage(error?.message || "An unknown error occurred.");
+      setErrorMessage(getParsedError(error, t));
     }
     if (mintingHash) {
       setData(mintingHash);
     }
-  }, [mintError, mintingHash, error]);
+  }, [mintError, mintingHash, error, t]);
 
   const validateAmount = (value: string) => {
     const numValue = parseFloat(value);
@@ -156,6 +167,9 @@ const MintModal: React.FC<MintModalProps> = ({
                 <span className="font-bold ml-2">$XOC</span>
               </div>
               {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
+              {!isPriceValid && (
+                <p className="text-error text-xs">Minting is paused until the oracle reports a valid price.</p>
+              )}
             </div>
 
             <div className="container-gray-borders flex flex-col gap-2">
@@ -178,11 +192,13 @@ const MintModal: React.FC<MintModalProps> = ({
               </div>
             </div>
 
+            <SimulationOverview current={current} projected={projected} xocDecimals={xocDecimals} />
+
             <div className="flex flex-col sm:flex-row justify-between gap-4">
               <button
-                className={`flex-grow sm:basis-2/3 ${isValid ? "primary-btn" : "disabled-btn"}`}
+                className={`flex-grow sm:basis-2/3 ${isValid && !isBlocked ? "primary-btn" : "disabled-btn"}`}
                 onClick={handleMintClick}
-                disabled={!isValid}
+                disabled={!isValid || isBlocked}
               >
                 Mint
               </button>
@@ -207,6 +223,7 @@ const MintModal: React.FC<MintModalProps> = ({
                 Oops! Something went wrong.{" "}
                 {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
               </p>
+              {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
               <span onClick={handleCopyError} className="cursor-pointer underline font-bold text-lg">
                 Copy the error.
               </span>
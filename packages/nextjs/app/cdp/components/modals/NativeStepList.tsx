@@ -0,0 +1,53 @@
+import React from "react";
+import { CheckCircleIcon, ExclamationCircleIcon } from "@heroicons/react/20/solid";
+import { NativeStep, NativeStepKind } from "~~/hooks/useNativeCdp";
+
+interface NativeStepListProps {
+  steps: NativeStep[];
+  assetName: string;
+  nativeSymbol: string;
+  error: string | null;
+}
+
+const getStepLabel = (kind: NativeStepKind, assetName: string, nativeSymbol: string): string => {
+  switch (kind) {
+    case "wrap":
+      return `Wrap ${nativeSymbol} into ${assetName}`;
+    case "approve":
+      return `Approve ${assetName}`;
+    case "deposit":
+      return `Deposit ${assetName} to House Of Reserve`;
+    case "withdraw":
+      return `Withdraw ${assetName} from House Of Reserve`;
+    case "unwrap":
+      return `Unwrap ${assetName} into ${nativeSymbol}`;
+  }
+};
+
+/**
+ * Lists the transactions of a native deposit or withdraw flow with the status of each one.
+ */
+const NativeStepList: React.FC<NativeStepListProps> = ({ steps, assetName, nativeSymbol, error }) => {
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="container-gray-borders flex flex-col gap-2">
+      <label className="font-bold text-sm sm:text-base">Steps</label>
+      <ol className="flex flex-col gap-2">
+        {steps.map((step, index) => (
+          <li key={step.kind} className="flex justify-between items-center text-xs sm:text-sm">
+            <span>
+              {index + 1}. {getStepLabel(step.kind, assetName, nativeSymbol)}
+            </span>
+            {step.status === "pending" && <span className="loading loading-spinner loading-xs"></span>}
+            {step.status === "done" && <CheckCircleIcon className="h-5 w-5 text-success" />}
+            {step.status === "error" && <ExclamationCircleIcon className="h-5 w-5 text-error" />}
+          </li>
+        ))}
+      </ol>
+      {error && <p className="text-error text-xs break-all">{error}</p>}
+    </div>
+  );
+};
+
+export default NativeStepList;
@@ -1,20 +1,32 @@
 import React, { useEffect, useState } from "react";
 import Image from "next/image";
+import SimulationOverview from "./SimulationOverview";
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { Address } from "viem";
 import { useChainId } from "wagmi";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import useCdpSimulation from "~~/hooks/useCdpSimulation";
 import useRepayCPD from "~~/hooks/useRepayCDP";
+import { getParsedError } from "~~/utils/scaffold-eth";
 
 interface RepayModalProps {
   isOpen: boolean;
   onClose: () => void;
   backedTokenID: string;
   houseOfCoinContract: Address;
+  houseOfReserveContract: Address;
 }
 
-const RepayModal: React.FC<RepayModalProps> = ({ isOpen, onClose, backedTokenID, houseOfCoinContract }) => {
+const RepayModal: React.FC<RepayModalProps> = ({
+  isOpen,
+  onClose,
+  backedTokenID,
+  houseOfCoinContract,
+  houseOfReserveContract,
+}) => {
   const chainId = useChainId();
+  const { t } = useTranslation();
   const [amount, setAmount] = useState("");
   const [isValid, setIsValid] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
@@ -23,6 +35,7 @@ const RepayModal: React.FC<RepayModalProps> = ({ isOpen, onClose, backedTokenID,
   const [showSuccessIcon, setShowSuccessIcon] = useState(false);
 
   const { handleRepay, isError: repayError, error, repayHash } = useRepayCPD();
+  const { current, projected, xocDecimals } = useCdpSimulation(houseOfReserveContract, "repay", amount);
 
   useEffect(() => {
     validateAmount(amount);
@@ -31,12 +44,12 @@ const RepayModal: React.FC<RepayModalProps> = ({ isOpen, onClose, backedTokenID,
   useEffect(() => {
     if (repayError) {
       setIsError(true);
-      setErrorMessage(error?.message || "An unknown error occurred.");
+      setErrorMessage(getParsedError(error, t));
     }
     if (repayHash) {
       setData(repayHash);
     }
-  }, [repayError, repayHash, error]);
+  }, [repayError, repayHash, error, t]);
 
   const validateAmount = (value: string) => {
     const numValue = parseFloat(value);
@@ -159,6 +172,8 @@ const RepayModal: React.FC<RepayModalProps> = ({ isOpen, onClose, backedTokenID,
               </div>
             </div>
 
+            <SimulationOverview current={current} projected={projected} xocDecimals={xocDecimals} />
+
             <div className="flex flex-col sm:flex-row justify-between gap-4">
               <button
                 className={`flex-grow sm:basis-2/3 ${isValid ? "primary-btn" : "disabled-btn"}`}
@@ -188,6 +203,7 @@ const RepayModal: React.FC<RepayModalProps> = ({ isOpen, onClose, backedTokenID,
                 Oops! Something went wrong.{" "}
                 {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
               </p>
+              {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
               <span onClick={handleCopyError} className="cursor-pointer underline font-bold text-lg">
                 Copy the error.
               </span>
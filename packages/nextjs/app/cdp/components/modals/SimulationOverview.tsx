@@ -0,0 +1,56 @@
+import React from "react";
+import { formatUnits } from "viem";
+import { CDP_FACTOR_DECIMALS, CDP_PRICE_DECIMALS, CdpProjection } from "~~/utils/cdpMath";
+
+interface SimulationOverviewProps {
+  current: CdpProjection | null;
+  projected: CdpProjection | null;
+  xocDecimals: number;
+}
+
+const formatHealthRatio = (position: CdpProjection) =>
+  position.healthRatio !== null ? Number(formatUnits(position.healthRatio, CDP_FACTOR_DECIMALS)).toFixed(2) : "-";
+
+const formatMintingPower = (position: CdpProjection, xocDecimals: number) =>
+  Number(formatUnits(position.remainingMintingPower, xocDecimals)).toFixed(2);
+
+const formatLiquidationPrice = (position: CdpProjection) =>
+  position.liquidationPrice !== null
+    ? Number(formatUnits(position.liquidationPrice, CDP_PRICE_DECIMALS)).toFixed(2)
+    : "-";
+
+/**
+ * Shows the user's position before and after the action being typed in a CDP modal.
+ */
+const SimulationOverview: React.FC<SimulationOverviewProps> = ({ current, projected, xocDecimals }) => {
+  if (!current || !projected) return null;
+
+  return (
+    <div className="container-gray-borders flex flex-col gap-2">
+      <label className="font-bold text-sm sm:text-base">Position After Transaction</label>
+      <div className="flex justify-between items-center text-xs sm:text-sm">
+        <span>Health Ratio</span>
+        <span className={`font-bold ${projected.isBelowMarginCall ? "text-error" : ""}`}>
+          {formatHealthRatio(current)} → {formatHealthRatio(projected)}
+        </span>
+      </div>
+      <div className="flex justify-between items-center text-xs sm:text-sm">
+        <span>Minting Power</span>
+        <span>
+          {formatMintingPower(current, xocDecimals)} → {formatMintingPower(projected, xocDecimals)} $XOC
+        </span>
+      </div>
+      <div className="flex justify-between items-center text-xs sm:text-sm">
+        <span>Liquidation Price</span>
+        <span>
+          {formatLiquidationPrice(current)} → {formatLiquidationPrice(projected)} $XOC
+        </span>
+      </div>
+      {projected.isBelowMarginCall && (
+        <p className="text-error text-xs">This transaction would put your position below the margin call threshold.</p>
+      )}
+    </div>
+  );
+};
+
+export default SimulationOverview;
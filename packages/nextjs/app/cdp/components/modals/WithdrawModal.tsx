@@ -1,23 +1,37 @@
 // WithdrawModal.tsx
 import React, { useEffect, useState } from "react";
 import Image from "next/image";
+import NativeStepList from "./NativeStepList";
+import SimulationOverview from "./SimulationOverview";
 import useAccountAddress from "@/hooks/useAccount";
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { Address, formatEther } from "viem";
 import { useChainId, useReadContract, useWaitForTransactionReceipt } from "wagmi";
 import { houseOfReserveABI } from "~~/app/components/abis/houseofreserve";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import useCdpSimulation from "~~/hooks/useCdpSimulation";
+import useNativeCdp from "~~/hooks/useNativeCdp";
 import { useWithdraw } from "~~/hooks/useWithdrawCDP";
+import { getParsedError } from "~~/utils/scaffold-eth";
 
 interface WithdrawModalProps {
   isOpen: boolean;
   onClose: () => void;
   assetName: string;
   houseOfReserveContract: string;
+  assetContract: string | null;
 }
 
-const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetName, houseOfReserveContract }) => {
+const WithdrawModal: React.FC<WithdrawModalProps> = ({
+  isOpen,
+  onClose,
+  assetName,
+  houseOfReserveContract,
+  assetContract,
+}) => {
   const chainId = useChainId();
+  const { t } = useTranslation();
   const [amount, setAmount] = useState("");
   const { address: walletAddress } = useAccountAddress();
   const [isValid, setIsValid] = useState(false);
@@ -27,6 +41,8 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
   const [showSuccessIcon, setShowSuccessIcon] = useState(false);
   const [balanceError, setBalanceError] = useState<string | null>(null);
   const [maxWithdrawalAmount, setMaxWithdrawalAmount] = useState<string | null>(null);
+  // State to track if the withdrawn asset is unwrapped into the native coin
+  const [unwrapNative, setUnwrapNative] = useState(false);
 
   // Fetch the maximum withdrawal amount using the useReadContract hook
   const { data: checkMaxWithdrawal } = useReadContract({
@@ -61,6 +77,19 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
     error,
     withdrawHash,
   } = useWithdraw(houseOfReserveContract as Address);
+  const { current, projected, xocDecimals } = useCdpSimulation(houseOfReserveContract as Address, "withdraw", amount);
+  // Withdrawing below the margin call threshold is blocked before the user signs
+  const isBlocked = !!projected?.isBelowMarginCall;
+  const {
+    isNativeSupported,
+    nativeSymbol,
+    steps: nativeSteps,
+    isRunning: isNativeRunning,
+    error: nativeError,
+    hash: nativeHash,
+    withdrawNative,
+    resetSteps,
+  } = useNativeCdp(houseOfReserveContract as Address, assetContract as Address | null);
 
   const getBlockExplorerUrl = (chainId: number): string => {
     switch (chainId) {
@@ -74,7 +103,7 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
         return ""; // Fallback for unsupported networks
     }
   };
-  const blockExplorerUrl = `${getBlockExplorerUrl(chainId)}${withdrawHash}`;
+  const blockExplorerUrl = `${getBlockExplorerUrl(chainId)}${withdrawHash ?? nativeHash}`;
 
   const { isLoading: isWithdrawLoading, isSuccess: isWithdrawSuccess } = useWaitForTransactionReceipt({
     hash: withdrawHash,
@@ -101,12 +130,18 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
   useEffect(() => {
     if (isWithdrawError) {
       setIsError(true);
-      setErrorMessage(error?.message || "An unknown error occurred.");
+      setErrorMessage(getParsedError(error, t));
     }
     if (withdrawHash) {
       setData(withdrawHash);
     }
-  }, [isWithdrawError, withdrawHash, error]);
+  }, [isWithdrawError, withdrawHash, error, t]);
+
+  useEffect(() => {
+    if (nativeHash) {
+      setData(nativeHash);
+    }
+  }, [nativeHash]);
 
   const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setAmount(event.target.value);
@@ -121,6 +156,10 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
     setAmount("");
   };
 
+  const onNativeWithdrawClick = () => {
+    withdrawNative(amount, true);
+  };
+
   const handleCopyError = () => {
     if (error?.message) {
       navigator.clipboard
@@ -144,6 +183,8 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
     setErrorMessage("");
     setData(null);
     setIsError(false);
+    setUnwrapNative(false);
+    resetSteps();
     onClose();
   };
 
@@ -191,6 +232,18 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
               <span className="font-bold hover:underline cursor-pointer" onClick={handleMaxClick}>
                 MAX
               </span>
+              {isNativeSupported && (
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={unwrapNative}
+                    onChange={event => setUnwrapNative(event.target.checked)}
+                    disabled={isNativeRunning}
+                  />
+                  Unwrap into {nativeSymbol} after withdrawing
+                </label>
+              )}
               {balanceError && <p className="text-xs text-red-600 ml-2">{balanceError}</p>}
               {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
             </div>
@@ -213,24 +266,49 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
               </div>
             </div>
 
+            <SimulationOverview current={current} projected={projected} xocDecimals={xocDecimals} />
+
+            {unwrapNative && (
+              <NativeStepList
+                steps={nativeSteps}
+                assetName={assetName}
+                nativeSymbol={nativeSymbol}
+                error={nativeError}
+              />
+            )}
+
             <div className="flex justify-between gap-4">
-              {isWithdrawLoading ? (
+              {unwrapNative ? (
+                <button
+                  className={`flex-grow-2 basis-2/3 ${
+                    isValid && !balanceError && !isBlocked && !isNativeRunning ? "primary-btn" : "disabled-btn"
+                  }`}
+                  onClick={onNativeWithdrawClick}
+                  disabled={isNativeRunning || !isValid || balanceError !== null || isBlocked}
+                >
+                  {isNativeRunning ? "Processing..." : "Withdraw & Unwrap"}
+                </button>
+              ) : isWithdrawLoading ? (
                 <div className="flex-grow-2 basis-2/3 bg-warning text-base-100 text-center rounded-lg py-2 cursor-not-allowed">
                   Waiting for withdrawal...
                 </div>
               ) : isWithdrawSuccess ? (
                 <button
-                  className={`flex-grow-2 basis-2/3 ${isValid && !balanceError ? "primary-btn" : "disabled-btn"}`}
+                  className={`flex-grow-2 basis-2/3 ${
+                    isValid && !balanceError && !isBlocked ? "primary-btn" : "disabled-btn"
+                  }`}
                   onClick={onWithdrawClick}
-                  disabled={isWithdrawPending || !isValid || balanceError !== null}
+                  disabled={isWithdrawPending || !isValid || balanceError !== null || isBlocked}
                 >
                   {isWithdrawPending ? "Processing..." : "Withdraw"}
                 </button>
               ) : (
                 <button
-                  className={`flex-grow-2 basis-2/3 ${isValid && !balanceError ? "primary-btn" : "disabled-btn"}`}
+                  className={`flex-grow-2 basis-2/3 ${
+                    isValid && !balanceError && !isBlocked ? "primary-btn" : "disabled-btn"
+                  }`}
                   onClick={onWithdrawClick}
-                  disabled={isWithdrawPending || !isValid || balanceError !== null}
+                  disabled={isWithdrawPending || !isValid || balanceError !== null || isBlocked}
                 >
                   {isWithdrawPending ? "Processing..." : "Withdraw"}
                 </button>
@@ -256,6 +334,7 @@ const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, assetNam
                 Oops! Something went wrong.{" "}
                 {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
               </p>
+              {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
               <span onClick={handleCopyError} className="cursor-pointer underline font-bold text-lg">
                 Copy the error.
               </span>
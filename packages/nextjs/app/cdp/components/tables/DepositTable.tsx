@@ -3,77 +3,18 @@ import DepositModal from "../modals/DepositModal";
 import WithdrawModal from "../modals/WithdrawModal";
 import BalanceOf from "@/app/lending/components/BalanceOf";
 import useAccountAddress from "@/hooks/useAccount";
-import { Address } from "viem";
+import useRegisteredHouses from "@/hooks/useRegisteredHouses";
+import { Address, formatUnits } from "viem";
 import { useChainId } from "wagmi";
 import { InformationCircleIcon } from "@heroicons/react/20/solid";
 import { useTranslation } from "~~/app/context/LanguageContext";
 
-// Define the assets for each chain
-const assets: {
-  [key: number]: {
-    name: string;
-    maxLTV: string;
-    liquidationThreshold: string;
-    houseOfReserveContract: Address;
-    assetContract: Address;
-  }[];
-} = {
-  56: [
-    {
-      name: "WETH",
-      maxLTV: "85%",
-      liquidationThreshold: "85%",
-      houseOfReserveContract: "0xd411BE9A105Ea7701FabBe58C2834b7033EBC203",
-      assetContract: "0x2170ed0880ac9a755fd29b2688956bd959f933f8",
-    },
-    {
-      name: "WBNB",
-      maxLTV: "70%",
-      liquidationThreshold: "85%",
-      houseOfReserveContract: "0x070ccE6887E70b75015F948b12601D1E759D2024",
-      assetContract: "0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c",
-    },
-  ],
-  137: [
-    {
-      name: "WETH",
-      maxLTV: "85%",
-      liquidationThreshold: "85%",
-      houseOfReserveContract: "0x2718644E0C38A6a1F82136FC31dcA00DFCdF92a3",
-      assetContract: "0x7ceb23fd6bc0add59e62ac25578270cff1b9f619",
-    },
-    {
-      name: "MATICX",
-      maxLTV: "60%",
-      liquidationThreshold: "85%",
-      houseOfReserveContract: "0x76CAc0bC384a49485627D2235fE132e3038b45BB",
-      assetContract: "0xfa68fb4628dff1028cfec22b4162fccd0d45efb6",
-    },
-    {
-      name: "WMATIC",
-      maxLTV: "70%",
-      liquidationThreshold: "85%",
-      houseOfReserveContract: "0xF56293025437Db5C0024a37dfcEc792125d56A48",
-      assetContract: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
-    },
-  ],
-  8453: [
-    {
-      name: "WETH",
-      maxLTV: "80%",
-      liquidationThreshold: "85%",
-      houseOfReserveContract: "0xfF69E183A863151B4152055974aa648b3165014D",
-      assetContract: "0x4200000000000000000000000000000000000006",
-    },
-    {
-      name: "cbETH",
-      maxLTV: "80%",
-      liquidationThreshold: "85%",
-      houseOfReserveContract: "0x5c4a154690AE52844F151bcF3aA44885db3c8A58",
-      assetContract: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22",
-    },
-  ],
-};
+/**
+ * Formats a 1e18-based factor from the House of Reserve as a percentage.
+ * @param {bigint} factor - The factor to format.
+ * @returns {string} - The factor as a percentage string.
+ */
+const formatFactor = (factor: bigint) => `${parseFloat(Number(formatUnits(factor, 16)).toFixed(2))}%`;
 
 const DepositTable: React.FC = () => {
   // Get the translation object
@@ -87,8 +28,8 @@ const DepositTable: React.FC = () => {
   const [selectedContract, setSelectedContract] = useState<string | null>(null);
   const [selectedAssetContract, setSelectedAssetContract] = useState<string>(""); // Provide a default value for selectedAssetContract
 
-  // Get the assets for the current chain
-  const chainAssets = assets[chainId] || [];
+  // Get the houses registered on the current chain
+  const { houses: chainHouses, isLoading: isLoadingHouses } = useRegisteredHouses(chainId);
 
   const { address: walletAddress } = useAccountAddress();
   const [, setBalances] = useState<Record<string, string>>({});
@@ -170,43 +111,52 @@ const DepositTable: React.FC = () => {
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200 text-center">
-          {chainAssets.map(asset => (
-            <tr key={asset.name}>
+          {chainHouses.map(house => (
+            <tr key={house.houseOfReserveContract}>
               <td className="px-1 py-4">
-                <p className="text-sm font-medium text-gray-900">{asset.name}</p>
+                <p className="text-sm font-medium text-gray-900">{house.symbol}</p>
               </td>
               {/* Hide this column on small screens */}
               <td className="dark:text-primary px-1 py-4 hidden sm:table-cell">
                 <BalanceOf
-                  tokenAddress={asset.assetContract as Address}
+                  tokenAddress={house.reserveAsset}
                   walletAddress={walletAddress as Address}
                   onBalanceChange={handleBalanceChange}
                 />
               </td>
               <td className="px-1 py-4 hidden sm:table-cell">
-                <p className="text-sm text-gray-900">{asset.maxLTV}</p>
+                <p className="text-sm text-gray-900">{formatFactor(house.maxLTVFactor)}</p>
               </td>
               <td className="px-1 py-4 hidden sm:table-cell">
                 <div className="text-sm text-gray-900">
-                  <p className="text-sm text-gray-900">{asset.liquidationThreshold}</p>
+                  <p className="text-sm text-gray-900">{formatFactor(house.liquidationFactor)}</p>
                 </div>
               </td>
               <td className="flex px-1 py-4">
                 <button
                   className="text-sm text-accent m-1 dark:text-white btn bg-base-100 hover:bg-primary hover:text-white"
-                  onClick={() => handleOpenModal(asset.name, asset.houseOfReserveContract, asset.assetContract)}
+                  onClick={() => handleOpenModal(house.symbol, house.houseOfReserveContract, house.reserveAsset)}
                 >
                   {t("AssetsDepositButton")}
                 </button>
                 <button
                   className="text-sm text-accent m-1 dark:text-white btn bg-base-100 ml-2 hover:bg-primary hover:text-white"
-                  onClick={() => handleOpenWithdrawModal(asset.name, asset.houseOfReserveContract, asset.assetContract)}
+                  onClick={() =>
+                    handleOpenWithdrawModal(house.symbol, house.houseOfReserveContract, house.reserveAsset)
+                  }
                 >
                   {t("AssetsWithdrawButton")}
                 </button>
               </td>
             </tr>
           ))}
+          {isLoadingHouses && chainHouses.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-1 py-4">
+                <p className="text-sm text-gray-500">{t("AssetsLoading")}</p>
+              </td>
+            </tr>
+          )}
         </tbody>
       </table>
 
@@ -229,6 +179,7 @@ const DepositTable: React.FC = () => {
           onClose={handleCloseWithdrawModal}
           assetName={selectedAsset}
           houseOfReserveContract={selectedContract}
+          assetContract={selectedAssetContract}
         />
       )}
     </div>
@@ -0,0 +1,136 @@
+import React from "react";
+import useCdpLiquidations from "@/hooks/useCdpLiquidations";
+import { formatUnits } from "viem";
+import { useChainId } from "wagmi";
+import { getCdpChain } from "~~/app/constants/contracts";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { Address } from "~~/components/scaffold-eth";
+import RiskBandTag from "~~/components/tags/RiskBandTag";
+import { CDP_FACTOR_DECIMALS } from "~~/utils/cdpMath";
+
+/**
+ * Formats a 1e18-based factor as a ratio or, when asked, as a percentage.
+ * @param {bigint} factor - The factor to format.
+ * @param {boolean} asPercent - Whether to format the factor as a percentage.
+ * @returns {string} - The formatted factor.
+ */
+const formatFactor = (factor: bigint, asPercent = false) =>
+  asPercent
+    ? `${parseFloat(Number(formatUnits(factor, CDP_FACTOR_DECIMALS - 2)).toFixed(2))}%`
+    : Number(formatUnits(factor, CDP_FACTOR_DECIMALS)).toFixed(3);
+
+const LiquidationsTable: React.FC = () => {
+  const { t } = useTranslation();
+  const chainId = useChainId();
+  const xocDecimals = getCdpChain(chainId)?.xocDecimals ?? 18;
+
+  const { candidates, liqParams, isLoading, error, healthError, hasMore, loadMore } = useCdpLiquidations();
+
+  return (
+    <div className="flex flex-col gap-4">
+      {liqParams && (
+        <div className="flex flex-wrap gap-4 text-sm text-gray-900">
+          <p>
+            {t("LiquidationsMarginCall")}:{" "}
+            <span className="font-bold">{formatFactor(liqParams.marginCallThreshold)}</span>
+          </p>
+          <p>
+            {t("LiquidationsThreshold")}:{" "}
+            <span className="font-bold">{formatFactor(liqParams.liquidationThreshold)}</span>
+          </p>
+          <p>
+            {t("LiquidationsPenaltyDiscount")}:{" "}
+            <span className="font-bold">{formatFactor(liqParams.liquidationPricePenaltyDiscount, true)}</span>
+          </p>
+          <p>
+            {t("LiquidationsCollateralPenalty")}:{" "}
+            <span className="font-bold">{formatFactor(liqParams.collateralPenalty, true)}</span>
+          </p>
+        </div>
+      )}
+      <div className="rounded-md overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr className="text-center">
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                #
+              </th>
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t("LiquidationsColumnBorrower")}
+              </th>
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t("AssetsColumn1")}
+              </th>
+              <th
+                scope="col"
+                className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell"
+              >
+                {t("CDPHistoryColumnCollateral")}
+              </th>
+              <th
+                scope="col"
+                className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell"
+              >
+                {t("CDPHistoryColumnDebt")}
+              </th>
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t("LiquidationsColumnHealth")}
+              </th>
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t("LiquidationsColumnDiscount")}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200 text-center">
+            {candidates.map((candidate, index) => (
+              <tr key={`${candidate.user}-${candidate.house.houseOfReserveContract}`}>
+                <td className="px-2 py-4 text-sm text-gray-900">{index + 1}</td>
+                <td className="px-2 py-4">
+                  <Address address={candidate.user} size="sm" />
+                </td>
+                <td className="px-2 py-4 text-sm font-medium text-gray-900">{candidate.house.symbol}</td>
+                <td className="px-2 py-4 text-sm text-gray-900 hidden sm:table-cell">
+                  {parseFloat(Number(formatUnits(candidate.collateral, candidate.house.assetDecimals)).toFixed(6))}
+                </td>
+                <td className="px-2 py-4 text-sm text-gray-900 hidden sm:table-cell">
+                  {parseFloat(Number(formatUnits(candidate.minted, xocDecimals)).toFixed(2))} $XOC
+                </td>
+                <td className="px-2 py-4">
+                  <div className="text-sm text-gray-900">{formatFactor(candidate.healthRatio)}</div>
+                  <RiskBandTag band={candidate.riskBand} />
+                </td>
+                <td className="px-2 py-4 text-sm text-gray-900">
+                  {/* Only liquidatable positions pay the discount to a liquidator */}
+                  {candidate.riskBand === "liquidation" && liqParams
+                    ? formatFactor(liqParams.liquidationPricePenaltyDiscount, true)
+                    : "-"}
+                </td>
+              </tr>
+            ))}
+            {!isLoading && candidates.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-2 py-4">
+                  <p className="text-sm text-gray-500">{t("LiquidationsEmpty")}</p>
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {hasMore && !isLoading && <p className="text-xs text-gray-500">{t("LiquidationsPartial")}</p>}
+      {error && <p className="text-error text-xs">{t("CDPHistoryError")}</p>}
+      {healthError && <p className="text-error text-xs">{t("LiquidationsHealthError")}</p>}
+      {(isLoading || hasMore) && (
+        <button
+          className="w-fit text-sm text-accent m-1 dark:text-white btn bg-base-100 hover:bg-primary hover:text-white"
+          onClick={loadMore}
+          disabled={isLoading}
+        >
+          {isLoading ? t("CDPHistoryLoading") : t("LiquidationsLoadMore")}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LiquidationsTable;
@@ -1,217 +1,41 @@
-import React, { useEffect } from "react";
+import React from "react";
 import MintModal from "../modals/MintModal";
 import RepayModal from "../modals/RepayModal";
-import { Address } from "viem";
-import { useChainId, useReadContract, useReadContracts } from "wagmi";
+import useCdpPositions from "@/hooks/useCdpPositions";
+import { Address, formatUnits } from "viem";
+import { useChainId } from "wagmi";
 import { useAccount } from "wagmi";
 import { InformationCircleIcon } from "@heroicons/react/20/solid";
-import { houseOfCoinABI } from "~~/app/components/abis/houseofcoin";
-import { assetsAccountantABI } from "~~/app/components/abis/xocabis";
+import { getCdpChain } from "~~/app/constants/contracts";
 import { useTranslation } from "~~/app/context/LanguageContext";
+import RiskBandTag from "~~/components/tags/RiskBandTag";
+import { useCdpOracle } from "~~/context/OracleStatusContext";
+import { CDP_FACTOR_DECIMALS, CDP_PRICE_DECIMALS, computePriceDistance } from "~~/utils/cdpMath";
+
+/**
+ * Formats a threshold price and its distance from the current oracle price.
+ * @param {bigint} price - The current collateral price.
+ * @param {bigint | null} thresholdPrice - The margin call or liquidation price.
+ * @returns {Object | null} - The formatted price and distance, or null if there is no threshold price.
+ */
+const formatThresholdPrice = (price: bigint, thresholdPrice: bigint | null) =>
+  thresholdPrice === null
+    ? null
+    : {
+        price: Number(formatUnits(thresholdPrice, CDP_PRICE_DECIMALS)).toFixed(2),
+        distance: `${computePriceDistance(price, thresholdPrice).toFixed(1)}%`,
+      };
 
 const YourDeposits = () => {
   const { t } = useTranslation();
   const { address } = useAccount();
   const chainId = useChainId();
 
-  // Initialize args for useReadContract
-  type ContractAddresses = {
-    [key: number]: Address;
-  };
-
-  // Define the contract addresses for different chainIds
-  const assetsAccountantContractAddresses: ContractAddresses = {
-    56: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
-    137: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
-    8453: "0xB93EcD005B6053c6F8428645aAA879e7028408C7",
-    // Add other chainIds and their respective contract addresses as needed
-  };
-
-  let balanceOfBatchArgs: readonly any[] = [];
-  const assetsAccountantContractAddress = assetsAccountantContractAddresses[chainId];
-  if (chainId === 56) {
-    balanceOfBatchArgs = [
-      [address, address],
-      [
-        "109392682290811008908886113795024894114858297692101491428581960053892280371532",
-        "85925987621059561469642133971917522532759533358859710307334868485990845307587",
-      ],
-    ];
-  } else if (chainId === 137) {
-    balanceOfBatchArgs = [
-      [address, address, address],
-      [
-        "50555364508944084596386852498342299217943258061077772526321412649917896821656",
-        "66805875592187098191911925759759719192189877131573133170154621641178588059651",
-        "61525895172180918160808167300975909222815099626523523164453657306362585741149",
-      ],
-    ];
-  } else if (chainId === 8453) {
-    balanceOfBatchArgs = [
-      [address, address],
-      [
-        "103699178623717208254151570900052288551889562116172163191481545905964204685853",
-        "48535059369184038424797331578893275455355989669714862332699705636188497614796",
-      ],
-    ];
-  }
-
-  const { data: batchDeposits } = useReadContract({
-    address: assetsAccountantContractAddress,
-    abi: assetsAccountantABI,
-    functionName: "balanceOfBatch",
-    args: balanceOfBatchArgs,
-  });
-
-  let balanceOfBatchMintArgs: readonly any[] = [];
-
-  if (chainId === 56) {
-    balanceOfBatchMintArgs = [
-      [address, address],
-      [
-        "20522261273989995093535621539527639348056070782168896977856206653483982583625",
-        "36240893346862244708187722980583805772746997097966348518842957091580463611081",
-      ],
-    ];
-  } else if (chainId === 137) {
-    balanceOfBatchMintArgs = [
-      [address, address, address],
-      [
-        "80640369098075461197954251758880905983781036616487658892797544182481328362385",
-        "27778163481220956171503989467144576287986246817586635666554224569167019219186",
-        "17135799413344306437655147654156582701703759838473908703722998121562726910745",
-      ],
-    ];
-  } else if (chainId === 8453) {
-    balanceOfBatchMintArgs = [
-      [address, address],
-      [
-        "8845051240560412557863425425586194836306989955683227883233854819693793989434",
-        "113840104691995121390901058070296301361752511786326304414032534053768202616249",
-      ],
-    ];
-  }
-
-  const { data: batchMints } = useReadContract({
-    address: assetsAccountantContractAddress,
-    abi: assetsAccountantABI,
-    functionName: "balanceOfBatch",
-    args: balanceOfBatchMintArgs,
-  });
-
-  let houseOfCoinContract: { address: Address; abi: any } | undefined;
-
-  if (chainId === 56) {
-    houseOfCoinContract = {
-      address: "0x9d29E6b3D75F5e676f91b69284e015C9CEa20533",
-      abi: houseOfCoinABI,
-    };
-  } else if (chainId === 137) {
-    houseOfCoinContract = {
-      address: "0x9d29E6b3D75F5e676f91b69284e015C9CEa20533",
-      abi: houseOfCoinABI,
-    };
-  } else if (chainId === 8453) {
-    houseOfCoinContract = {
-      address: "0x02c531Cd9791dD3A31428B2987A82361D72F9b13",
-      abi: houseOfCoinABI,
-    };
-  }
-
-  const { data: batchCheckRemainingMintingPower, isError } = useReadContracts({
-    contracts: [
-      {
-        ...houseOfCoinContract,
-        functionName: "checkRemainingMintingPower",
-        args: [address, "0xd411BE9A105Ea7701FabBe58C2834b7033EBC203"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "checkRemainingMintingPower",
-        args: [address, "0x070ccE6887E70b75015F948b12601D1E759D2024"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "checkRemainingMintingPower",
-        args: [address, "0x2718644E0C38A6a1F82136FC31dcA00DFCdF92a3"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "checkRemainingMintingPower",
-        args: [address, "0x76CAc0bC384a49485627D2235fE132e3038b45BB"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "checkRemainingMintingPower",
-        args: [address, "0xF56293025437Db5C0024a37dfcEc792125d56A48"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "checkRemainingMintingPower",
-        args: [address, "0xfF69E183A863151B4152055974aa648b3165014D"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "checkRemainingMintingPower",
-        args: [address, "0x5c4a154690AE52844F151bcF3aA44885db3c8A58"],
-      },
-    ],
-  });
-
-  useEffect(() => {
-    if (batchCheckRemainingMintingPower) {
-      console.log("Batch CheckRemainingMintingPower:", batchCheckRemainingMintingPower);
-    }
-    if (isError) {
-      console.error("Error fetching checkRemainingMintingPower:", isError);
-    }
-  }, [batchCheckRemainingMintingPower, isError]);
-
-  const { data: batchComputeUserHealthRatio } = useReadContracts({
-    contracts: [
-      {
-        ...houseOfCoinContract,
-        functionName: "computeUserHealthRatio",
-        args: [address, "0xd411BE9A105Ea7701FabBe58C2834b7033EBC203"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "computeUserHealthRatio",
-        args: [address, "0x070ccE6887E70b75015F948b12601D1E759D2024"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "computeUserHealthRatio",
-        args: [address, "0x2718644E0C38A6a1F82136FC31dcA00DFCdF92a3"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "computeUserHealthRatio",
-        args: [address, "0x76CAc0bC384a49485627D2235fE132e3038b45BB"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "computeUserHealthRatio",
-        args: [address, "0xF56293025437Db5C0024a37dfcEc792125d56A48"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "computeUserHealthRatio",
-        args: [address, "0xfF69E183A863151B4152055974aa648b3165014D"],
-      },
-      {
-        ...houseOfCoinContract,
-        functionName: "computeUserHealthRatio",
-        args: [address, "0x5c4a154690AE52844F151bcF3aA44885db3c8A58"],
-      },
-    ],
-  });
-
-  useEffect(() => {
-    if (batchComputeUserHealthRatio) {
-      console.log("BatchComputeUserHealthRatio:", batchComputeUserHealthRatio);
-    }
-  }, [batchComputeUserHealthRatio]);
+  // Get the CDP contracts and the user's positions on the current chain
+  const cdpChain = getCdpChain(chainId);
+  const { positions } = useCdpPositions(address);
+  // Minting reverts without a valid oracle price
+  const { isHousePriceValid } = useCdpOracle();
 
   const [isMintModalOpen, setIsMintModalOpen] = React.useState(false);
   const [isRepayModalOpen, setIsRepayModalOpen] = React.useState(false);
@@ -273,132 +97,25 @@ const YourDeposits = () => {
     setSelectedAsset(null);
   };
 
-  const formattedBalances: any[] = batchDeposits
-    ? (batchDeposits as (number | string)[]).map((balance: number | string) => Number(balance) / 10 ** 18)
-    : [0, 0, 0, 0, 0, 0, 0];
-  const formattedMints: any[] = batchMints
-    ? (batchMints as any[]).map((mint: any) => Number(mint) / 10 ** 18)
-    : [0, 0, 0, 0, 0];
-  const formattedMintingPower: any[] = batchCheckRemainingMintingPower
-    ? batchCheckRemainingMintingPower.map(({ result }) => (Number(result) / 10 ** 18).toFixed(2))
-    : [0, 0, 0, 0, 0, 0, 0];
-
-  const formattedUserHealthRatio: any[] = batchComputeUserHealthRatio
-    ? batchComputeUserHealthRatio.map(({ result }) => (Number(result) / 10 ** 18).toFixed(2))
-    : [0, 0, 0, 0, 0];
-
-  console.log("batchBalances:", batchDeposits);
-  console.log("Formatted batchBalances", formattedBalances);
-  console.log("batchMints:", batchMints);
-
-  const deposits: {
-    [key: number]: {
-      symbol: string;
-      amount: number | string;
-      minted: number;
-      mintingPower: number;
-      houseofReserveContract: string;
-      assetContract: string;
-      houseOfCoinContract: string;
-      assetsAccountantContract: string;
-      userHealthRatio: number;
-      backedTokenID: string;
-    }[];
-  } = {
-    56: [
-      {
-        symbol: "WETH",
-        amount: parseFloat(formattedBalances[0].toFixed(6)),
-        minted: parseFloat(formattedMints[0].toFixed(6)),
-        mintingPower: parseFloat(formattedMintingPower[0]),
-        houseofReserveContract: "0xd411BE9A105Ea7701FabBe58C2834b7033EBC203",
-        assetContract: "0x2170ed0880ac9a755fd29b2688956bd959f933f8",
-        houseOfCoinContract: "0x518Ad4acAdb3FdE4Ab990a79A0583FA8c4E35FcA",
-        assetsAccountantContract: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
-        userHealthRatio: parseFloat(formattedUserHealthRatio[0]),
-        backedTokenID: "20522261273989995093535621539527639348056070782168896977856206653483982583625",
-      },
-      {
-        symbol: "WBNB",
-        amount: parseFloat(formattedBalances[1].toFixed(6)),
-        minted: parseFloat(formattedMints[1].toFixed(6)),
-        mintingPower: parseFloat(formattedMintingPower[1]),
-        houseofReserveContract: "0x070ccE6887E70b75015F948b12601D1E759D2024",
-        assetContract: "0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c",
-        houseOfCoinContract: "0x518Ad4acAdb3FdE4Ab990a79A0583FA8c4E35FcA",
-        assetsAccountantContract: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
-        userHealthRatio: parseFloat(formattedUserHealthRatio[1]),
-        backedTokenID: "36240893346862244708187722980583805772746997097966348518842957091580463611081",
-      },
-    ],
-    137: [
-      {
-        symbol: "WETH",
-        amount: parseFloat(formattedBalances[0].toFixed(6)),
-        minted: parseFloat(formattedMints[0].toFixed(6)),
-        mintingPower: parseFloat(formattedMintingPower[2]),
-        houseofReserveContract: "0x2718644E0C38A6a1F82136FC31dcA00DFCdF92a3",
-        assetContract: "0x7ceb23fd6bc0add59e62ac25578270cff1b9f619",
-        houseOfCoinContract: "0x9d29E6b3D75F5e676f91b69284e015C9CEa20533",
-        assetsAccountantContract: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
-        userHealthRatio: parseFloat(formattedUserHealthRatio[2]),
-        backedTokenID: "80640369098075461197954251758880905983781036616487658892797544182481328362385",
-      },
-      {
-        symbol: "MATICX",
-        amount: parseFloat(formattedBalances[1]),
-        minted: parseFloat(formattedMints[1]),
-        mintingPower: parseFloat(formattedMintingPower[3]),
-        houseofReserveContract: "0x76CAc0bC384a49485627D2235fE132e3038b45BB",
-        assetContract: "0xfa68fb4628dff1028cfec22b4162fccd0d45efb6",
-        houseOfCoinContract: "0x9d29E6b3D75F5e676f91b69284e015C9CEa20533",
-        assetsAccountantContract: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
-        userHealthRatio: parseFloat(formattedUserHealthRatio[3]),
-        backedTokenID: "17135799413344306437655147654156582701703759838473908703722998121562726910745",
-      },
-      {
-        symbol: "WMATIC",
-        amount: parseFloat(formattedBalances[2]),
-        minted: parseFloat(formattedMints[2]),
-        mintingPower: parseFloat(formattedMintingPower[4]),
-        houseofReserveContract: "0xF56293025437Db5C0024a37dfcEc792125d56A48",
-        assetContract: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
-        houseOfCoinContract: "0x9d29E6b3D75F5e676f91b69284e015C9CEa20533",
-        assetsAccountantContract: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
-        userHealthRatio: parseFloat(formattedUserHealthRatio[4]),
-        backedTokenID: "27778163481220956171503989467144576287986246817586635666554224569167019219186",
-      },
-    ],
-    8453: [
-      {
-        symbol: "WETH",
-        amount: parseFloat(formattedBalances[0].toFixed(6)),
-        minted: parseFloat(formattedMints[0].toFixed(6)),
-        mintingPower: parseFloat(formattedMintingPower[5]),
-        houseofReserveContract: "0xfF69E183A863151B4152055974aa648b3165014D",
-        assetContract: "0x4200000000000000000000000000000000000006",
-        houseOfCoinContract: "0x02c531Cd9791dD3A31428B2987A82361D72F9b13",
-        assetsAccountantContract: "0xB93EcD005B6053c6F8428645aAA879e7028408C7",
-        userHealthRatio: parseFloat(formattedUserHealthRatio[5]),
-        backedTokenID: "8845051240560412557863425425586194836306989955683227883233854819693793989434",
-      },
-      {
-        symbol: "cbETH",
-        amount: parseFloat(formattedBalances[1].toFixed(6)),
-        minted: parseFloat(formattedMints[1].toFixed(6)),
-        mintingPower: parseFloat(formattedMintingPower[6]),
-        houseofReserveContract: "0x5c4a154690AE52844F151bcF3aA44885db3c8A58",
-        assetContract: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22",
-        houseOfCoinContract: "0x02c531Cd9791dD3A31428B2987A82361D72F9b13",
-        assetsAccountantContract: "0xB93EcD005B6053c6F8428645aAA879e7028408C7",
-        userHealthRatio: parseFloat(formattedUserHealthRatio[6]),
-        backedTokenID: "113840104691995121390901058070296301361752511786326304414032534053768202616249",
-      },
-    ],
-  };
-
-  const chainDeposits = deposits[chainId] || [];
-  const allDepositsZero = formattedBalances.every(balance => balance === 0);
+  const chainDeposits = positions.map(position => ({
+    symbol: position.house.symbol,
+    amount: parseFloat(Number(formatUnits(position.collateral, position.house.assetDecimals)).toFixed(6)),
+    minted: parseFloat(Number(formatUnits(position.minted, cdpChain?.xocDecimals ?? 18)).toFixed(6)),
+    mintingPower: parseFloat(
+      Number(formatUnits(position.remainingMintingPower, cdpChain?.xocDecimals ?? 18)).toFixed(2),
+    ),
+    houseofReserveContract: position.house.houseOfReserveContract,
+    assetContract: position.house.assetContract,
+    houseOfCoinContract: cdpChain?.houseOfCoinContract as Address,
+    assetsAccountantContract: cdpChain?.assetsAccountantContract as Address,
+    userHealthRatio:
+      position.healthRatio !== null ? Number(formatUnits(position.healthRatio, CDP_FACTOR_DECIMALS)).toFixed(2) : "-",
+    marginCallPrice: formatThresholdPrice(position.price, position.marginCallPrice),
+    liquidationPrice: formatThresholdPrice(position.price, position.liquidationPrice),
+    riskBand: position.riskBand,
+    backedTokenID: position.house.backedTokenID.toString(),
+  }));
+  const allDepositsZero = positions.every(position => position.collateral === 0n);
   return (
     <div className="rounded-md overflow-x-auto">
       {/* Section for displaying the user's deposits */}
@@ -447,6 +164,24 @@ const YourDeposits = () => {
                     <InformationCircleIcon className="h-5 w-5 inline" />
                   </div>
                 </th>
+                <th
+                  scope="col"
+                  className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell"
+                >
+                  {t("YourDepositsMarginCallPrice")}
+                  <div className="tooltip tooltip-primary" data-tip={t("YourDepositsMarginCallPriceTooltip")}>
+                    <InformationCircleIcon className="h-5 w-5 inline" />
+                  </div>
+                </th>
+                <th
+                  scope="col"
+                  className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell"
+                >
+                  {t("YourDepositsLiquidationPrice")}
+                  <div className="tooltip tooltip-primary" data-tip={t("YourDepositsLiquidationPriceTooltip")}>
+                    <InformationCircleIcon className="h-5 w-5 inline" />
+                  </div>
+                </th>
                 <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
                 </th>
@@ -470,10 +205,27 @@ const YourDeposits = () => {
                   </td>
                   <td className="px-2 py-4 hidden sm:table-cell">
                     <div className="text-sm text-gray-900">{deposit.userHealthRatio}</div>
+                    {deposit.riskBand && <RiskBandTag band={deposit.riskBand} />}
+                  </td>
+                  <td className="px-2 py-4 hidden sm:table-cell">
+                    <p className="text-sm text-gray-900">{deposit.marginCallPrice?.price ?? "-"}</p>
+                    {deposit.marginCallPrice && (
+                      <p className="text-xs text-gray-500">{deposit.marginCallPrice.distance}</p>
+                    )}
+                  </td>
+                  <td className="px-2 py-4 hidden sm:table-cell">
+                    <p className="text-sm text-gray-900">{deposit.liquidationPrice?.price ?? "-"}</p>
+                    {deposit.liquidationPrice && (
+                      <p className="text-xs text-gray-500">{deposit.liquidationPrice.distance}</p>
+                    )}
                   </td>
                   <td className="py-4 whitespace-nowrap text-sm font-medium">
                     <button
                       className="px-6 text-sm text-accent dark:text-white btn bg-base-100 hover:bg-primary hover:text-white"
+                      disabled={!isHousePriceValid(deposit.houseofReserveContract as Address)}
+                      title={
+                        !isHousePriceValid(deposit.houseofReserveContract as Address) ? t("OracleInvalid") : undefined
+                      }
                       onClick={() =>
                         openMintModal(
                           deposit.symbol,
@@ -525,6 +277,7 @@ const YourDeposits = () => {
               onClose={closeRepayModal}
               backedTokenID={backedTokenID?.toString() ?? "0"}
               houseOfCoinContract={selectedAsset.houseOfCoinContract}
+              houseOfReserveContract={selectedAsset.houseOfReserveContract}
             />
           )}
         </>
@@ -0,0 +1,23 @@
+"use client";
+
+import React from "react";
+import { NextPage } from "next";
+import LiquidationsTable from "~~/app/cdp/components/tables/LiquidationsTable";
+import { useTranslation } from "~~/app/context/LanguageContext";
+
+// Watcher page that ranks the CDP borrowers by liquidation risk
+const Liquidations: NextPage = () => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex flex-col">
+      <div className="w-4/5 m-auto mt-4 bg-white p-6 rounded-2xl shadow-md">
+        <h2 className="text-xl text-primary font-semibold mb-4">{t("LiquidationsTitle")}</h2>
+        <p className="text-gray-500 mb-4">{t("LiquidationsDescription")}</p>
+        <LiquidationsTable />
+      </div>
+    </div>
+  );
+};
+
+export default Liquidations;
@@ -3,21 +3,28 @@
 import React from "react";
 import CDPInfo from "./components/CDPInfo";
 import { NextPage } from "next";
+import CDPHistory from "~~/app/cdp/components/CDPHistory";
 import CDPStats from "~~/app/cdp/components/CDPStats";
 import Deposits from "~~/app/cdp/components/Deposits";
+import OracleStatus from "~~/app/cdp/components/OracleStatus";
+import { OracleStatusProvider } from "~~/context/OracleStatusContext";
 
 // Dashboard component that shows the user's lending and borrowing data
 const CDP: NextPage = () => {
   return (
-    <div className="flex flex-col">
-      <CDPStats />
-      <div className="grid gap-4 w-4/5 m-auto mt-4">
-        <Deposits />
+    <OracleStatusProvider>
+      <div className="flex flex-col">
+        <CDPStats />
+        <div className="grid gap-4 w-4/5 m-auto mt-4">
+          <Deposits />
+          <OracleStatus />
+          <CDPHistory />
+        </div>
+        <div>
+          <CDPInfo />
+        </div>
       </div>
-      <div>
-        <CDPInfo />
-      </div>
-    </div>
+    </OracleStatusProvider>
   );
 };
 
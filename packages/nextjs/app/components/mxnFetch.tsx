@@ -1,13 +1,17 @@
 import React, { useEffect, useState } from "react";
 import { houseOfReserveABI } from "../components/abis/xocabis";
 import { formatEther } from "viem";
-import { useContractRead } from "wagmi";
+import { useChainId, useContractRead } from "wagmi";
+import { getCdpChain } from "~~/app/constants/contracts";
 
 const MXNFetch: React.FC = () => {
+  const chainId = useChainId();
+  // House of Reserve (WETH) on the current chain
+  const wethHouse = getCdpChain(chainId)?.houses.find(house => house.symbol === "WETH");
   const [latestPrice, setLatestPrice] = useState<any>(null);
   const [latestPriceNumber, setLatestPriceNumber] = useState<number | bigint | any>(null);
   const { data: latestPriceData } = useContractRead({
-    address: "0xd411BE9A105Ea7701FabBe58C2834b7033EBC203", // House of Reserve (WETH)
+    address: wethHouse?.houseOfReserveContract,
     abi: houseOfReserveABI,
     functionName: "getLatestPrice",
   });
@@ -1,7 +1,134 @@
-export const houseOfReserveContract = "<houseOfReserve contract address>";
-export const houseOfCoinContract = "<houseOfCoin contract address>";
+import { Address } from "viem";
+
 export const xocContract = "0xa411c9Aa00E020e4f88Bc19996d29c5B7ADB4ACf";
 export const usdcContract = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
-export const assetName = "<asset name>";
-export const assetSymbol = "<asset symbol>";
 export const spenderAddress = "0xD6DaB267b7C23EdB2ed5605d9f3f37420e88e291";
+
+/**
+ * Chains where the XOC CDP contracts are deployed.
+ */
+export type CdpChainId = 56 | 137 | 8453;
+
+/**
+ * A HouseOfReserve and the collateral asset it holds.
+ */
+export interface CdpHouse {
+  symbol: string;
+  assetContract: Address; // ERC20 deposited as collateral
+  assetDecimals: number;
+  houseOfReserveContract: Address;
+  reserveTokenID: bigint; // AssetsAccountant ID tracking the user's deposits
+  backedTokenID: bigint; // AssetsAccountant ID tracking the user's minted $XOC
+}
+
+/**
+ * CDP contracts shared by every house on a chain.
+ */
+export interface CdpChainConfig {
+  xocContract: Address;
+  xocDecimals: number;
+  houseOfCoinContract: Address;
+  assetsAccountantContract: Address;
+  houses: readonly CdpHouse[];
+}
+
+/**
+ * CDP contract registry mapped by chain ID. Adding a collateral or a chain only requires an entry here.
+ */
+export const CDP_REGISTRY: Record<CdpChainId, CdpChainConfig> = {
+  56: {
+    xocContract,
+    xocDecimals: 18,
+    houseOfCoinContract: "0x518Ad4acAdb3FdE4Ab990a79A0583FA8c4E35FcA",
+    assetsAccountantContract: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
+    houses: [
+      {
+        symbol: "WETH",
+        assetContract: "0x2170ed0880ac9a755fd29b2688956bd959f933f8",
+        assetDecimals: 18,
+        houseOfReserveContract: "0xd411BE9A105Ea7701FabBe58C2834b7033EBC203",
+        reserveTokenID: 109392682290811008908886113795024894114858297692101491428581960053892280371532n,
+        backedTokenID: 20522261273989995093535621539527639348056070782168896977856206653483982583625n,
+      },
+      {
+        symbol: "WBNB",
+        assetContract: "0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c",
+        assetDecimals: 18,
+        houseOfReserveContract: "0x070ccE6887E70b75015F948b12601D1E759D2024",
+        reserveTokenID: 85925987621059561469642133971917522532759533358859710307334868485990845307587n,
+        backedTokenID: 36240893346862244708187722980583805772746997097966348518842957091580463611081n,
+      },
+    ],
+  },
+  137: {
+    xocContract,
+    xocDecimals: 18,
+    houseOfCoinContract: "0x9d29E6b3D75F5e676f91b69284e015C9CEa20533",
+    assetsAccountantContract: "0x076b6C91cC7e72286cd01D967A44787d1f3A6432",
+    houses: [
+      {
+        symbol: "WETH",
+        assetContract: "0x7ceb23fd6bc0add59e62ac25578270cff1b9f619",
+        assetDecimals: 18,
+        houseOfReserveContract: "0x2718644E0C38A6a1F82136FC31dcA00DFCdF92a3",
+        reserveTokenID: 50555364508944084596386852498342299217943258061077772526321412649917896821656n,
+        backedTokenID: 80640369098075461197954251758880905983781036616487658892797544182481328362385n,
+      },
+      {
+        symbol: "MATICX",
+        assetContract: "0xfa68fb4628dff1028cfec22b4162fccd0d45efb6",
+        assetDecimals: 18,
+        houseOfReserveContract: "0x76CAc0bC384a49485627D2235fE132e3038b45BB",
+        reserveTokenID: 66805875592187098191911925759759719192189877131573133170154621641178588059651n,
+        backedTokenID: 17135799413344306437655147654156582701703759838473908703722998121562726910745n,
+      },
+      {
+        symbol: "WMATIC",
+        assetContract: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
+        assetDecimals: 18,
+        houseOfReserveContract: "0xF56293025437Db5C0024a37dfcEc792125d56A48",
+        reserveTokenID: 61525895172180918160808167300975909222815099626523523164453657306362585741149n,
+        backedTokenID: 27778163481220956171503989467144576287986246817586635666554224569167019219186n,
+      },
+    ],
+  },
+  8453: {
+    xocContract,
+    xocDecimals: 18,
+    houseOfCoinContract: "0x02c531Cd9791dD3A31428B2987A82361D72F9b13",
+    assetsAccountantContract: "0xB93EcD005B6053c6F8428645aAA879e7028408C7",
+    houses: [
+      {
+        symbol: "WETH",
+        assetContract: "0x4200000000000000000000000000000000000006",
+        assetDecimals: 18,
+        houseOfReserveContract: "0xfF69E183A863151B4152055974aa648b3165014D",
+        reserveTokenID: 103699178623717208254151570900052288551889562116172163191481545905964204685853n,
+        backedTokenID: 8845051240560412557863425425586194836306989955683227883233854819693793989434n,
+      },
+      {
+        symbol: "cbETH",
+        assetContract: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22",
+        assetDecimals: 18,
+        houseOfReserveContract: "0x5c4a154690AE52844F151bcF3aA44885db3c8A58",
+        reserveTokenID: 48535059369184038424797331578893275455355989669714862332699705636188497614796n,
+        backedTokenID: 113840104691995121390901058070296301361752511786326304414032534053768202616249n,
+      },
+    ],
+  },
+};
+
+/**
+ * Checks if the CDP contracts are deployed on the given chain.
+ * @param {number} chainId - The chain ID to check.
+ * @returns {boolean} - True if the chain has an entry in the CDP registry.
+ */
+export const isCdpChain = (chainId: number): chainId is CdpChainId => chainId in CDP_REGISTRY;
+
+/**
+ * Returns the CDP contracts for the given chain.
+ * @param {number} chainId - The chain ID to look up.
+ * @returns {CdpChainConfig | undefined} - The chain's CDP contracts, or undefined if the chain is not supported.
+ */
+export const getCdpChain = (chainId: number): CdpChainConfig | undefined =>
+  isCdpChain(chainId) ? CDP_REGISTRY[chainId] : undefined;
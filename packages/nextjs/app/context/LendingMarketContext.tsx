@@ -0,0 +1,54 @@
+"use client";
+
+import { ReactNode, createContext, useContext, useEffect, useState } from "react";
+import { DEFAULT_LENDING_CHAIN_ID, LENDING_MARKETS, LendingMarket, getLendingMarket } from "@/config";
+import { useAccount, useSwitchChain } from "wagmi";
+
+type LendingMarketContextType = {
+  market: LendingMarket;
+  markets: LendingMarket[];
+  selectMarket: (chainId: number) => void;
+  isWrongNetwork: boolean; // The wallet is connected to another chain than the market one
+};
+
+const LendingMarketContext = createContext<LendingMarketContextType | undefined>(undefined);
+
+const markets = Object.values(LENDING_MARKETS);
+
+export const LendingMarketProvider = ({ children }: { children: ReactNode }) => {
+  const { chainId: walletChainId, isConnected } = useAccount();
+  const { switchChain } = useSwitchChain();
+  const [marketChainId, setMarketChainId] = useState<number>(DEFAULT_LENDING_CHAIN_ID);
+
+  // Follow the wallet when it moves to a chain with a market
+  useEffect(() => {
+    if (walletChainId && getLendingMarket(walletChainId)) {
+      setMarketChainId(walletChainId);
+    }
+  }, [walletChainId]);
+
+  const selectMarket = (chainId: number) => {
+    if (!getLendingMarket(chainId)) return;
+    setMarketChainId(chainId);
+    if (isConnected && walletChainId !== chainId) {
+      switchChain?.({ chainId });
+    }
+  };
+
+  const market = LENDING_MARKETS[marketChainId];
+  const isWrongNetwork = isConnected && walletChainId !== market.chainId;
+
+  return (
+    <LendingMarketContext.Provider value={{ market, markets, selectMarket, isWrongNetwork }}>
+      {children}
+    </LendingMarketContext.Provider>
+  );
+};
+
+export const useLendingMarket = () => {
+  const context = useContext(LendingMarketContext);
+  if (!context) {
+    throw new Error("useLendingMarket must be used within a LendingMarketProvider");
+  }
+  return context;
+};
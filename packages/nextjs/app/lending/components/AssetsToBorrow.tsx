@@ -1,16 +1,28 @@
 import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import CapUsageBar from "./CapUsageBar";
 import BorrowTransactionModal from "./modals/BorrowTransactionModal";
 import useAccountAddress from "@/hooks/useAccount";
-import useGetReservesData from "@/hooks/useGetReservesData";
-import useGetUserReservesData from "@/hooks/useGetUserReservesData";
+import useBorrowRestrictions from "@/hooks/useBorrowRestrictions";
 import { ReserveData } from "@/types/types";
+import { Address, formatUnits } from "viem";
 import { useTranslation } from "~~/app/context/LanguageContext";
+import { useReserves } from "~~/context/ReservesContext";
+import { formatApy } from "~~/utils/rateMath";
+import { DEBT_CEILING_DECIMALS } from "~~/utils/reserveConfiguration";
 
 const AssetsToBorrow: React.FC = () => {
   const { t } = useTranslation();
-  const { reservesData, isLoading: isLoadingReserveData, isError: isErrorReserveData } = useGetReservesData();
-  const { userReservesData, isLoading: isLoadingUserReserves, isError: isErrorUserReserves } = useGetUserReservesData();
+  const {
+    reservesData,
+    userReservesData,
+    isLoadingReserves: isLoadingReserveData,
+    isErrorReserves: isErrorReserveData,
+    isLoadingUserReserves,
+    isErrorUserReserves,
+  } = useReserves();
   const { address: walletAddress } = useAccountAddress();
+  const { reserveStates, isolatedAsset, isolatedState, getBorrowRestriction } = useBorrowRestrictions();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedReserve, setSelectedReserve] = useState<ReserveData | null>(null);
@@ -33,15 +45,20 @@ const AssetsToBorrow: React.FC = () => {
 
     return reservesData?.map(reserve => {
       const isDeposited = depositedAssets.has(reserve.underlyingAsset);
-      const canBorrow = !isDeposited && depositedAssets.size > 0;
+      const restriction = getBorrowRestriction(reserve.underlyingAsset);
+      const canBorrow = !isDeposited && depositedAssets.size > 0 && !restriction;
 
       return {
         ...reserve,
         canBorrow,
         isDeposited,
+        restriction,
       };
     });
-  }, [reservesData, userReservesData]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reservesData, userReservesData, reserveStates, isolatedAsset]);
+
+  const isolatedSymbol = reservesData?.find(({ underlyingAsset }) => underlyingAsset === isolatedAsset)?.symbol;
 
   if (isLoadingReserveData || isLoadingUserReserves) {
     return <p className="text-amber-950">Loading...</p>;
@@ -53,6 +70,17 @@ const AssetsToBorrow: React.FC = () => {
 
   return (
     <div className="mt-4">
+      {isolatedState && (
+        <div className="warning-container text-left text-sm mb-4">
+          <p>
+            {t("LendingIsolationModeActive")} {isolatedSymbol}
+          </p>
+          <p>
+            {t("LendingDebtCeiling")}: ${formatUnits(isolatedState.isolationModeTotalDebt, DEBT_CEILING_DECIMALS)} / $
+            {formatUnits(isolatedState.configuration.debtCeiling, DEBT_CEILING_DECIMALS)}
+          </p>
+        </div>
+      )}
       {walletAddress && (assetsToBorrow ?? []).length > 0 && (
         <div className="assets-container">
           <div className="table-header assets-header py-3 flex justify-between tracking-wider">
@@ -66,18 +94,33 @@ const AssetsToBorrow: React.FC = () => {
           {(assetsToBorrow ?? []).map((reserve, index) => {
             const availableLiquidity = (Number(reserve.availableLiquidity) / 10 ** Number(reserve.decimals)).toFixed(5);
             const isButtonDisabled = !walletAddress;
-            const { canBorrow } = reserve;
+            const { canBorrow, restriction } = reserve;
+            const reserveState = reserveStates[reserve.underlyingAsset as Address];
+            const configuration = reserveState?.configuration;
 
             return (
               <div key={index} className="table-content table-border-top asset-row flex justify-between py-3">
                 <div className="asset-row-item w-24 h-fit">
-                  <p>{reserve.symbol}</p>
+                  <Link href={`/lending/reserve/${reserve.underlyingAsset}`} className="hover:underline">
+                    {reserve.symbol}
+                  </Link>
+                  {configuration?.borrowableInIsolation && (
+                    <p className="text-xs text-gray-500">{t("LendingBorrowableInIsolation")}</p>
+                  )}
+                  {configuration?.siloedBorrowing && <p className="text-xs text-gray-500">{t("LendingSiloed")}</p>}
+                  {reserveState && reserveState.configuration.borrowCap > 0n && (
+                    <CapUsageBar
+                      used={reserveState.totalBorrowed}
+                      cap={reserveState.configuration.borrowCap}
+                      decimals={reserveState.configuration.decimals}
+                    />
+                  )}
                 </div>
                 <div className="asset-row-item w-24 h-fit">
                   <p>{availableLiquidity}</p>
                 </div>
                 <div className="asset-row-item w-24 h-fit">
-                  <p>{(Number(reserve.variableBorrowRate) / 1e25).toFixed(2)}%</p>
+                  <p>{formatApy(reserve.variableBorrowRate)}</p>
                 </div>
                 <div className="asset-row-item w-24 h-fit">
                   <button
@@ -95,7 +138,7 @@ const AssetsToBorrow: React.FC = () => {
                     ) : (
                       <div
                         className="tooltip tooltip-top tooltip-error"
-                        data-tip="You cannot borrow the same asset as you deposit"
+                        data-tip={restriction ? t(restriction) : "You cannot borrow the same asset as you deposit"}
                       >
                         ❌
                       </div>
@@ -1,22 +1,27 @@
 import React, { useCallback, useState } from "react";
+import Link from "next/link";
 import WalletBalance from "./BalanceOf";
+import CapUsageBar from "./CapUsageBar";
 import SupplyModal from "./modals/SupplyTransactionModal";
 import { useTranslation } from "@/app/context/LanguageContext";
 import IsolatedStateComponent from "@/components/tags/IsolatedState";
 import useAccountAddress from "@/hooks/useAccount";
-import useGetReservesData from "@/hooks/useGetReservesData";
+import useReserveConfigurations from "@/hooks/useReserveConfigurations";
 import { ReserveData } from "@/types/types";
 import { Address } from "viem";
+import { useReserves } from "~~/context/ReservesContext";
+import { formatApy } from "~~/utils/rateMath";
 
 const AssetsToSupply: React.FC = () => {
   const { t } = useTranslation();
   // Fetch reserve data and wallet address using custom hooks
   const {
     reservesData: reserveData,
-    isLoading: isLoadingReserveData,
-    isError: isErrorReserveData,
-  } = useGetReservesData();
+    isLoadingReserves: isLoadingReserveData,
+    isErrorReserves: isErrorReserveData,
+  } = useReserves();
   const { address: walletAddress } = useAccountAddress();
+  const { reserveStates } = useReserveConfigurations();
 
   // State management for balances, showing all assets, modal visibility, and selected reserve/balance
   const [balances, setBalances] = useState<Record<string, string>>({});
@@ -81,12 +86,29 @@ const AssetsToSupply: React.FC = () => {
           {/* Table rows */}
           {filteredAndDisplayedReserveData.map((reserve, index) => {
             const balance = balances[reserve.underlyingAsset as Address];
-            const isButtonDisabled = !balance || parseFloat(balance) === 0;
+            const reserveState = reserveStates[reserve.underlyingAsset];
+            const configuration = reserveState?.configuration;
+            const isIsolated = !!configuration && configuration.debtCeiling > 0n;
+            const isButtonDisabled =
+              !balance ||
+              parseFloat(balance) === 0 ||
+              !!configuration?.isFrozen ||
+              !!configuration?.isPaused ||
+              reserveState?.supplyHeadroom === 0n;
 
             return (
               <div key={index} className="table-content table-border-top asset-row flex justify-between py-3">
                 <div className="asset-row-item w-24 h-fit">
-                  <p>{reserve.symbol}</p>
+                  <Link href={`/lending/reserve/${reserve.underlyingAsset}`} className="hover:underline">
+                    {reserve.symbol}
+                  </Link>
+                  {reserveState && reserveState.configuration.supplyCap > 0n && (
+                    <CapUsageBar
+                      used={reserveState.totalSupplied}
+                      cap={reserveState.configuration.supplyCap}
+                      decimals={reserveState.configuration.decimals}
+                    />
+                  )}
                 </div>
                 <div className="asset-row-item w-24 h-fit hidden sm:block">
                   <p>
@@ -98,14 +120,18 @@ const AssetsToSupply: React.FC = () => {
                   </p>
                 </div>
                 <div className="asset-row-item w-24 h-fit hidden sm:block">
-                  <p>{(Number(reserve.liquidityRate) / 1e25).toFixed(2)}%</p>
+                  <p>{formatApy(reserve.liquidityRate)}</p>
                 </div>
                 <div className="asset-row-item w-24 h-fit">
                   <div>
-                    {reserve.usageAsCollateralEnabled ? (
+                    {isIsolated ? (
+                      <div className="tooltip tooltip-top" data-tip={t("LendingIsolatedTooltip")}>
+                        <IsolatedStateComponent message={t("LendingIsolated")} />
+                      </div>
+                    ) : reserve.usageAsCollateralEnabled ? (
                       <span className="text-xl text-success font-bold">&#10003;</span>
                     ) : (
-                      <IsolatedStateComponent message="Isolated" />
+                      <span className="text-xl">&mdash;</span>
                     )}
                   </div>
                 </div>
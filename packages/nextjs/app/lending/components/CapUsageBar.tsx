@@ -0,0 +1,44 @@
+import React from "react";
+import { formatUnits } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+
+interface CapUsageBarProps {
+  used: bigint; // In the asset units
+  cap: bigint; // In whole tokens
+  decimals: number;
+}
+
+/**
+ * Compact number formatting for cap amounts, e.g. 1.2M.
+ */
+const compactFormatter = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 2 });
+
+/**
+ * Bar showing how much of a supply or borrow cap is used.
+ * @param {bigint} used - The amount supplied or borrowed.
+ * @param {bigint} cap - The cap in whole tokens.
+ * @param {number} decimals - The decimals of the asset.
+ * @returns {JSX.Element} - Rendered bar with the "X of Y used" label.
+ */
+const CapUsageBar: React.FC<CapUsageBarProps> = ({ used, cap, decimals }) => {
+  const { t } = useTranslation();
+  const usedAmount = Number(formatUnits(used, decimals));
+  const capAmount = Number(cap);
+  const percent = capAmount > 0 ? Math.min((usedAmount / capAmount) * 100, 100) : 0;
+
+  return (
+    <div className="flex flex-col gap-1 text-xs">
+      <progress
+        className={`progress w-full ${percent >= 100 ? "progress-error" : percent >= 90 ? "progress-warning" : ""}`}
+        value={percent}
+        max={100}
+      />
+      <span className="text-gray-500">
+        {compactFormatter.format(usedAmount)} {t("LendingCapOf")} {compactFormatter.format(capAmount)}{" "}
+        {t("LendingCapUsed")}
+      </span>
+    </div>
+  );
+};
+
+export default CapUsageBar;
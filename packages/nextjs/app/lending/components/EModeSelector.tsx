@@ -0,0 +1,33 @@
+import React, { useState } from "react";
+import EModeModal from "./modals/EModeModal";
+import useEMode from "@/hooks/useEMode";
+import { useTranslation } from "~~/app/context/LanguageContext";
+
+/**
+ * Shows the user E-Mode category and opens the modal to switch it.
+ * @returns {JSX.Element | null} - Rendered selector, or null when the market has no E-Mode category.
+ */
+const EModeSelector: React.FC = () => {
+  const { t } = useTranslation();
+  const { categories, userCategoryId } = useEMode();
+  const [showModal, setShowModal] = useState(false);
+
+  if (categories.length === 0) return null;
+
+  const currentCategory = categories.find(({ id }) => id === userCategoryId);
+
+  return (
+    <div className="text">
+      <div className="text-sm text-gray-400">{t("LendingEModeTitle")}</div>
+      <button
+        onClick={() => setShowModal(true)}
+        className="text-lg text-accent font-semibold underline decoration-dotted"
+      >
+        {currentCategory ? currentCategory.label : t("LendingEModeDisabled")}
+      </button>
+      {showModal && <EModeModal onClose={() => setShowModal(false)} />}
+    </div>
+  );
+};
+
+export default EModeSelector;
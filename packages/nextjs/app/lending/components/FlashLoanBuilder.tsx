@@ -0,0 +1,339 @@
+import React, { useEffect, useMemo, useState } from "react";
+import useAccountAddress from "@/hooks/useAccount";
+import useFlashLoan, { FlashLoanAsset, FlashLoanRequest } from "@/hooks/useFlashLoan";
+import useReserveConfigurations from "@/hooks/useReserveConfigurations";
+import { AbiParameter } from "abitype";
+import { Address, Hex, encodeAbiParameters, formatUnits, isAddress, parseAbiParameters, parseUnits } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { ContractInput, getFunctionInputKey, getParsedContractFunctionArgs } from "~~/app/debug/_components/contract";
+import { AddressInput } from "~~/components/scaffold-eth";
+import { useReserves } from "~~/context/ReservesContext";
+import { INTEREST_RATE_MODE, getFlashLoanPremium } from "~~/utils/lendingMath";
+import { getBlockExplorerTxLink, getParsedError } from "~~/utils/scaffold-eth";
+
+interface FlashLoanRow {
+  asset: Address | "";
+  amount: string;
+  interestRateMode: number;
+}
+
+type SimulationState = { status: "idle" | "running" | "success" } | { status: "error"; message: string };
+
+/**
+ * Formats an amount of a reserve with up to six decimals.
+ * @param {bigint} amount - The amount in the asset units.
+ * @param {number} decimals - The asset decimals.
+ * @returns {string} - The formatted amount.
+ */
+const formatAmount = (amount: bigint, decimals: number) => parseFloat(Number(formatUnits(amount, decimals)).toFixed(6));
+
+/**
+ * Parses a comma separated list of Solidity types, e.g. "address,uint256".
+ * @param {string} types - The types typed by the user.
+ * @returns {readonly AbiParameter[] | undefined} - The parameters, undefined when the list is invalid.
+ */
+const parseParamTypes = (types: string) => {
+  if (!types.trim()) return [];
+  try {
+    return parseAbiParameters(types) as readonly AbiParameter[];
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Developer form building a flash loan of the Pool: the borrowed assets, the receiver contract and its encoded params.
+ * The premium owed is shown per asset and the call is simulated with eth_call before it can be sent.
+ * @returns {JSX.Element} - Rendered builder with the simulation and transaction results.
+ */
+const FlashLoanBuilder: React.FC = () => {
+  const { t } = useTranslation();
+  const { market, isWrongNetwork } = useLendingMarket();
+  const { address } = useAccountAddress();
+  const { reservesData } = useReserves();
+  const { reserveStates } = useReserveConfigurations();
+  const { premiumTotal, simulateFlashLoan, handleFlashLoan, isError, error, flashLoanHash, isPending } = useFlashLoan();
+
+  const [rows, setRows] = useState<FlashLoanRow[]>([{ asset: "", amount: "", interestRateMode: 0 }]);
+  const [receiver, setReceiver] = useState("");
+  const [paramTypes, setParamTypes] = useState("");
+  const [form, setForm] = useState<Record<string, any>>({});
+  const [simulation, setSimulation] = useState<SimulationState>({ status: "idle" });
+  const [errorMessage, setErrorMessage] = useState("");
+
+  // Reserves the Pool lends through flash loans
+  const flashLoanReserves = useMemo(
+    () =>
+      (reservesData ?? []).filter(reserve => {
+        const configuration = reserveStates[reserve.underlyingAsset as Address]?.configuration;
+        return !!configuration?.flashLoanEnabled && configuration.isActive && !configuration.isPaused;
+      }),
+    [reservesData, reserveStates],
+  );
+
+  const params = useMemo(() => parseParamTypes(paramTypes), [paramTypes]);
+
+  // A new parameter list starts from an empty form, keyed in the parameter order
+  useEffect(() => {
+    const initialForm: Record<string, any> = {};
+    (params ?? []).forEach((param, index) => {
+      initialForm[getFunctionInputKey("params", param, index)] = "";
+    });
+    setForm(initialForm);
+  }, [params]);
+
+  const encodedParams = useMemo((): Hex | undefined => {
+    if (!params) return undefined;
+    try {
+      return encodeAbiParameters(params, getParsedContractFunctionArgs(form));
+    } catch {
+      return undefined;
+    }
+  }, [params, form]);
+
+  // Rows with their reserve, parsed amount and premium, the premium being waived for the assets left as debt
+  const assets = useMemo(
+    () =>
+      rows.map(row => {
+        const reserve = flashLoanReserves.find(({ underlyingAsset }) => underlyingAsset === row.asset);
+        let amount: bigint | undefined;
+        if (reserve && row.amount && parseFloat(row.amount) > 0) {
+          try {
+            amount = parseUnits(row.amount, Number(reserve.decimals));
+          } catch {
+            amount = undefined;
+          }
+        }
+        const premium =
+          amount !== undefined && premiumTotal !== undefined && row.interestRateMode === 0
+            ? getFlashLoanPremium(amount, premiumTotal)
+            : 0n;
+        return { row, reserve, amount, premium };
+      }),
+    [rows, flashLoanReserves, premiumTotal],
+  );
+
+  const request = useMemo((): FlashLoanRequest | undefined => {
+    if (!address || !isAddress(receiver) || encodedParams === undefined) return undefined;
+    const flashLoanAssets: FlashLoanAsset[] = [];
+    for (const { row, amount } of assets) {
+      if (!row.asset || amount === undefined) return undefined;
+      flashLoanAssets.push({ asset: row.asset, amount, interestRateMode: row.interestRateMode });
+    }
+    return { receiver, assets: flashLoanAssets, params: encodedParams, onBehalfOf: address };
+  }, [address, receiver, encodedParams, assets]);
+
+  // Any change to the request needs a new simulation
+  useEffect(() => {
+    setSimulation({ status: "idle" });
+  }, [request]);
+
+  useEffect(() => {
+    if (isError) {
+      setErrorMessage(getParsedError(error, t));
+    }
+  }, [isError, error, t]);
+
+  const updateRow = (index: number, update: Partial<FlashLoanRow>) =>
+    setRows(prevRows => prevRows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...update } : row)));
+
+  const handleSimulate = async () => {
+    if (!request) return;
+    setSimulation({ status: "running" });
+    try {
+      await simulateFlashLoan(request);
+      setSimulation({ status: "success" });
+    } catch (err) {
+      setSimulation({ status: "error", message: getParsedError(err, t) });
+    }
+  };
+
+  const handleSend = () => {
+    if (!request || simulation.status !== "success") return;
+    setErrorMessage("");
+    handleFlashLoan(request);
+  };
+
+  const hasDebtMode = rows.some(({ interestRateMode }) => interestRateMode !== 0);
+
+  if (reservesData && flashLoanReserves.length === 0) {
+    return <p className="text-gray-500">{t("LendingFlashLoanNoReserves")}</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-6 text-gray-900">
+      <div className="flex flex-col gap-2">
+        <h3 className="font-semibold">{t("LendingFlashLoanAssets")}</h3>
+        <div className="rounded-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-center">
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("LendingFlashLoanAsset")}
+                </th>
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("LendingFlashLoanAmount")}
+                </th>
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("LendingFlashLoanDebtMode")}
+                </th>
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("LendingFlashLoanPremium")}
+                </th>
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("LendingFlashLoanTotalOwed")}
+                </th>
+                <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-center">
+              {assets.map(({ row, reserve, amount, premium }, index) => (
+                <tr key={index}>
+                  <td className="px-2 py-2">
+                    <select
+                      className="select select-bordered select-sm"
+                      value={row.asset}
+                      onChange={event => updateRow(index, { asset: event.target.value as Address })}
+                    >
+                      <option value="" disabled>
+                        -
+                      </option>
+                      {flashLoanReserves.map(flashLoanReserve => (
+                        <option key={flashLoanReserve.underlyingAsset} value={flashLoanReserve.underlyingAsset}>
+                          {flashLoanReserve.symbol}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      className="input input-bordered input-sm w-32"
+                      placeholder="0.00"
+                      value={row.amount}
+                      onChange={event => updateRow(index, { amount: event.target.value })}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <select
+                      className="select select-bordered select-sm"
+                      value={row.interestRateMode}
+                      onChange={event => updateRow(index, { interestRateMode: Number(event.target.value) })}
+                    >
+                      <option value={0}>{t("LendingFlashLoanModeNone")}</option>
+                      {reserve?.stableBorrowRateEnabled && (
+                        <option value={INTEREST_RATE_MODE.stable}>{t("LendingRateStable")}</option>
+                      )}
+                      <option value={INTEREST_RATE_MODE.variable}>{t("LendingRateVariable")}</option>
+                    </select>
+                  </td>
+                  <td className="px-2 py-2 text-sm">
+                    {reserve ? `${formatAmount(premium, Number(reserve.decimals))} ${reserve.symbol}` : "-"}
+                  </td>
+                  <td className="px-2 py-2 text-sm">
+                    {reserve && amount !== undefined
+                      ? `${formatAmount(amount + premium, Number(reserve.decimals))} ${reserve.symbol}`
+                      : "-"}
+                  </td>
+                  <td className="px-2 py-2">
+                    {rows.length > 1 && (
+                      <button
+                        className="text-red-500 underline text-sm"
+                        onClick={() => setRows(prevRows => prevRows.filter((_, rowIndex) => rowIndex !== index))}
+                      >
+                        {t("LendingFlashLoanRemove")}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-between items-center text-sm">
+          <button
+            className="text-primary underline"
+            onClick={() => setRows(prevRows => [...prevRows, { asset: "", amount: "", interestRateMode: 0 }])}
+          >
+            {t("LendingFlashLoanAddAsset")}
+          </button>
+          {premiumTotal !== undefined && (
+            <span className="text-gray-500">
+              {t("LendingFlashLoanPremium")}: {Number(premiumTotal) / 100}%
+            </span>
+          )}
+        </div>
+        {hasDebtMode && <div className="warning-container text-sm">{t("LendingFlashLoanDebtNote")}</div>}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h3 className="font-semibold">{t("LendingFlashLoanReceiver")}</h3>
+        <AddressInput value={receiver} onChange={setReceiver} placeholder="address receiverAddress" />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h3 className="font-semibold">{t("LendingFlashLoanParams")}</h3>
+        <input
+          type="text"
+          className="input input-bordered input-sm w-full"
+          placeholder={t("LendingFlashLoanParamTypes")}
+          value={paramTypes}
+          onChange={event => setParamTypes(event.target.value)}
+        />
+        {params === undefined && <p className="text-red-500 text-sm">{t("LendingFlashLoanInvalidParamTypes")}</p>}
+        {(params ?? []).map((param, index) => {
+          const key = getFunctionInputKey("params", param, index);
+          return <ContractInput key={key} setForm={setForm} form={form} stateObjectKey={key} paramType={param} />;
+        })}
+        <p className="text-xs text-gray-500 break-all">
+          {t("LendingFlashLoanEncodedParams")}: {encodedParams ?? "-"}
+        </p>
+      </div>
+
+      {simulation.status === "success" && (
+        <div className="success-container text-sm">{t("LendingFlashLoanSimulationSuccess")}</div>
+      )}
+      {simulation.status === "error" && <div className="error-container text-sm">{simulation.message}</div>}
+      {errorMessage && <div className="error-container text-sm">{errorMessage}</div>}
+      {flashLoanHash && (
+        <div className="success-container text-center">
+          <p>{t("LendingFlashLoanSuccess")}</p>
+          <a
+            href={getBlockExplorerTxLink(market.chainId, flashLoanHash)}
+            target="_blank"
+            rel="noreferrer"
+            className="block link pt-3"
+          >
+            Open in Block Explorer
+          </a>
+        </div>
+      )}
+
+      {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
+      <div className="flex gap-3">
+        <button
+          onClick={handleSimulate}
+          className={`flex-grow basis-1/2 ${
+            request && simulation.status !== "running" ? "secondary-btn" : "disabled-btn"
+          }`}
+          disabled={!request || simulation.status === "running"}
+        >
+          {simulation.status === "running" ? <span className="loading loading-spinner loading-sm" /> : null}
+          {t("LendingFlashLoanSimulate")}
+        </button>
+        <button
+          onClick={handleSend}
+          className={`flex-grow basis-1/2 ${
+            simulation.status === "success" && !isPending && !isWrongNetwork ? "primary-btn" : "disabled-btn"
+          }`}
+          disabled={simulation.status !== "success" || isPending || isWrongNetwork}
+        >
+          {t("LendingFlashLoanSend")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FlashLoanBuilder;
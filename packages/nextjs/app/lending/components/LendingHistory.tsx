@@ -0,0 +1,223 @@
+"use client";
+
+import React from "react";
+import useAccountAddress from "@/hooks/useAccount";
+import useLendingHistory, { LendingHistoryAction } from "@/hooks/useLendingHistory";
+import { Address, formatUnits } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
+
+const actionLabels: Record<LendingHistoryAction, string> = {
+  Supply: "LendingHistorySupply",
+  Withdraw: "LendingHistoryWithdraw",
+  Borrow: "LendingHistoryBorrow",
+  Repay: "LendingHistoryRepay",
+  LiquidationCall: "LendingHistoryLiquidation",
+  ReserveUsedAsCollateralEnabled: "LendingHistoryCollateralEnabled",
+  ReserveUsedAsCollateralDisabled: "LendingHistoryCollateralDisabled",
+};
+
+/**
+ * Formats a raw amount with up to 6 decimals.
+ * @param {bigint} amount - The raw amount.
+ * @param {number} decimals - The token decimals.
+ * @returns {number} - The amount in token units.
+ */
+const formatAmount = (amount: bigint, decimals: number) => parseFloat(Number(formatUnits(amount, decimals)).toFixed(6));
+
+/**
+ * Formats a USD value with 2 decimals.
+ * @param {number | undefined} value - The value in USD, undefined while its prices load.
+ * @returns {string} - The formatted value.
+ */
+const formatUsd = (value: number | undefined) => (value === undefined ? "-" : `$${value.toFixed(2)}`);
+
+const headerClassName = "px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider";
+
+// Timeline of the user's lending actions and the interest earned and owed per reserve
+const LendingHistory: React.FC = () => {
+  const { t } = useTranslation();
+  const { address } = useAccountAddress();
+  const { market } = useLendingMarket();
+  const { reservesData } = useReserves();
+
+  const { entries, interest, isLoading, error, hasMore, loadMore, loadAll } = useLendingHistory(address);
+
+  const getReserve = (asset: Address | undefined) =>
+    reservesData?.find(({ underlyingAsset }) => underlyingAsset === asset);
+
+  /**
+   * Formats an amount of a reserve asset with its symbol.
+   * @param {Address | undefined} asset - The underlying asset.
+   * @param {bigint | undefined} amount - The amount in the asset units.
+   * @returns {string} - The formatted amount, or the symbol alone without amount.
+   */
+  const formatAssetAmount = (asset: Address | undefined, amount: bigint | undefined) => {
+    const reserve = getReserve(asset);
+    if (!reserve) return "-";
+    return amount === undefined
+      ? reserve.symbol
+      : `${formatAmount(amount, Number(reserve.decimals))} ${reserve.symbol}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="bg-white p-6 rounded-2xl shadow-md">
+        <h2 className="text-xl text-primary font-semibold mb-4">{t("LendingHistoryTitle")}</h2>
+        <p className="text-gray-500 mb-4">{t("LendingHistoryDescription")}</p>
+        <div className="rounded-md overflow-x-auto">
+          {entries.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-center">
+                  <th scope="col" className={headerClassName}>
+                    {t("CDPHistoryColumnDate")}
+                  </th>
+                  <th scope="col" className={headerClassName}>
+                    {t("CDPHistoryColumnAction")}
+                  </th>
+                  <th scope="col" className={headerClassName}>
+                    {t("CDPHistoryColumnAmount")}
+                  </th>
+                  <th scope="col" className={`${headerClassName} hidden sm:table-cell`}>
+                    {t("LendingHistoryColumnValue")}
+                  </th>
+                  <th scope="col" className={headerClassName}>
+                    {t("CDPHistoryColumnTransaction")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200 text-center">
+                {entries.map(entry => (
+                  <tr key={`${entry.transactionHash}-${entry.action}-${entry.asset}`}>
+                    <td className="px-2 py-4">
+                      <p className="text-sm text-gray-900">
+                        {new Date(Number(entry.timestamp) * 1000).toLocaleString()}
+                      </p>
+                    </td>
+                    <td className="px-2 py-4">
+                      <p className="text-sm font-medium text-gray-900">{t(actionLabels[entry.action])}</p>
+                    </td>
+                    <td className="px-2 py-4">
+                      <p className="text-sm text-gray-900">{formatAssetAmount(entry.asset, entry.amount)}</p>
+                      {entry.debtAsset && (
+                        <p className="text-xs text-gray-500">
+                          {t("CDPHistoryColumnDebt")}: {formatAssetAmount(entry.debtAsset, entry.debtAmount)}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-2 py-4 hidden sm:table-cell">
+                      <p className="text-sm text-gray-900">
+                        {entry.amount === undefined ? "-" : formatUsd(entry.amountUsd)}
+                      </p>
+                      {entry.debtAsset && <p className="text-xs text-gray-500">{formatUsd(entry.debtAmountUsd)}</p>}
+                    </td>
+                    <td className="px-2 py-4">
+                      <a
+                        href={getBlockExplorerTxLink(market.chainId, entry.transactionHash)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="link text-sm"
+                      >
+                        {entry.transactionHash.slice(0, 6)}...{entry.transactionHash.slice(-4)}
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            !isLoading && <p className="text-primary text-2xl">{t("CDPHistoryEmpty")}</p>
+          )}
+          {error && <p className="text-error text-xs">{t("CDPHistoryError")}</p>}
+          {(isLoading || hasMore) && (
+            <button
+              className="text-sm text-accent m-1 dark:text-white btn bg-base-100 hover:bg-primary hover:text-white"
+              onClick={loadMore}
+              disabled={isLoading}
+            >
+              {isLoading ? t("CDPHistoryLoading") : t("CDPHistoryLoadMore")}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-md">
+        <h2 className="text-xl text-primary font-semibold mb-4">{t("LendingHistoryInterestTitle")}</h2>
+        <p className="text-gray-500 mb-4">{t("LendingHistoryInterestDescription")}</p>
+        {hasMore ? (
+          <div className="flex flex-col items-start gap-2">
+            <p className="text-sm text-gray-500">{t("LendingHistoryInterestIncomplete")}</p>
+            <button className="primary-btn" onClick={loadAll} disabled={isLoading}>
+              {isLoading ? t("CDPHistoryLoading") : t("LendingHistoryLoadAll")}
+            </button>
+          </div>
+        ) : interest.length > 0 ? (
+          <div className="rounded-md overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-center">
+                  <th scope="col" className={headerClassName}>
+                    {t("LendingHistoryColumnAsset")}
+                  </th>
+                  <th scope="col" className={`${headerClassName} hidden sm:table-cell`}>
+                    {t("LendingHistoryColumnNetSupplied")}
+                  </th>
+                  <th scope="col" className={headerClassName}>
+                    {t("LendingHistoryColumnInterestEarned")}
+                  </th>
+                  <th scope="col" className={`${headerClassName} hidden sm:table-cell`}>
+                    {t("LendingHistoryColumnNetBorrowed")}
+                  </th>
+                  <th scope="col" className={headerClassName}>
+                    {t("LendingHistoryColumnBorrowInterest")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200 text-center">
+                {interest.map(({ reserve, ...reserveInterest }) => {
+                  const decimals = Number(reserve.decimals);
+                  return (
+                    <tr key={reserve.underlyingAsset}>
+                      <td className="px-2 py-4">
+                        <p className="text-sm font-medium text-gray-900">{reserve.symbol}</p>
+                      </td>
+                      <td className="px-2 py-4 hidden sm:table-cell">
+                        <p className="text-sm text-gray-900">
+                          {formatAmount(reserveInterest.suppliedPrincipal, decimals)}
+                        </p>
+                      </td>
+                      <td className="px-2 py-4">
+                        <p className="text-sm text-gray-900">
+                          {formatAmount(reserveInterest.interestEarned, decimals)}
+                        </p>
+                        <p className="text-xs text-gray-500">{formatUsd(reserveInterest.interestEarnedUsd)}</p>
+                      </td>
+                      <td className="px-2 py-4 hidden sm:table-cell">
+                        <p className="text-sm text-gray-900">
+                          {formatAmount(reserveInterest.borrowedPrincipal, decimals)}
+                        </p>
+                      </td>
+                      <td className="px-2 py-4">
+                        <p className="text-sm text-gray-900">
+                          {formatAmount(reserveInterest.borrowInterest, decimals)}
+                        </p>
+                        <p className="text-xs text-gray-500">{formatUsd(reserveInterest.borrowInterestUsd)}</p>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          !isLoading && <p className="text-sm text-gray-500">{t("LendingHistoryInterestEmpty")}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LendingHistory;
@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import LiquidationCallModal from "./modals/LiquidationCallModal";
+import useLendingLiquidations, { LendingLiquidationCandidate } from "@/hooks/useLendingLiquidations";
+import { formatUnits } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { Address } from "~~/components/scaffold-eth";
+import { formatHealthFactor } from "~~/utils/lendingMath";
+
+/**
+ * Formats a value in the market reference currency, which uses 8 decimals.
+ * @param {bigint} value - The value to format.
+ * @returns {string} - The value in USD with two decimals.
+ */
+const formatBase = (value: bigint) => `$${Number(formatUnits(value, 8)).toFixed(2)}`;
+
+/**
+ * Table of the lending borrowers below a health factor of 1, riskiest first, with a liquidate action.
+ * @returns {JSX.Element} - Rendered table with the event paging button.
+ */
+const LendingLiquidationsTable: React.FC = () => {
+  const { t } = useTranslation();
+  const { candidates, borrowersCount, isLoading, error, healthError, hasMore, loadMore, refresh } =
+    useLendingLiquidations();
+  const [selectedCandidate, setSelectedCandidate] = useState<LendingLiquidationCandidate | null>(null);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-gray-900">
+        {t("LendingLiquidationsScanned")}: <span className="font-bold">{borrowersCount}</span>
+      </p>
+      <div className="rounded-md overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr className="text-center">
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                #
+              </th>
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t("LendingLiquidationsColumnBorrower")}
+              </th>
+              <th
+                scope="col"
+                className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell"
+              >
+                {t("LendingLiquidationsColumnCollateral")}
+              </th>
+              <th
+                scope="col"
+                className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell"
+              >
+                {t("LendingLiquidationsColumnDebt")}
+              </th>
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t("LendingProfileHealthFactor")}
+              </th>
+              <th scope="col" className="px-2 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200 text-center">
+            {candidates.map((candidate, index) => (
+              <tr key={candidate.user}>
+                <td className="px-2 py-4 text-sm text-gray-900">{index + 1}</td>
+                <td className="px-2 py-4">
+                  <Address address={candidate.user} size="sm" />
+                </td>
+                <td className="px-2 py-4 text-sm text-gray-900 hidden sm:table-cell">
+                  {formatBase(candidate.totalCollateralBase)}
+                </td>
+                <td className="px-2 py-4 text-sm text-gray-900 hidden sm:table-cell">
+                  {formatBase(candidate.totalDebtBase)}
+                </td>
+                <td className="px-2 py-4 text-sm font-bold text-error">{formatHealthFactor(candidate.healthFactor)}</td>
+                <td className="px-2 py-4">
+                  <button className="primary-btn text-xs" onClick={() => setSelectedCandidate(candidate)}>
+                    {t("LendingLiquidationsButton")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!isLoading && candidates.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-2 py-4">
+                  <p className="text-sm text-gray-500">{t("LendingLiquidationsEmpty")}</p>
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {hasMore && !isLoading && <p className="text-xs text-gray-500">{t("LendingLiquidationsPartial")}</p>}
+      {error && <p className="text-error text-xs">{t("LendingLiquidationsError")}</p>}
+      {healthError && <p className="text-error text-xs">{t("LendingLiquidationsHealthError")}</p>}
+      {(isLoading || hasMore) && (
+        <button
+          className="w-fit text-sm text-accent m-1 dark:text-white btn bg-base-100 hover:bg-primary hover:text-white"
+          onClick={loadMore}
+          disabled={isLoading}
+        >
+          {isLoading ? t("LendingLiquidationsLoading") : t("LendingLiquidationsLoadMore")}
+        </button>
+      )}
+      {selectedCandidate && (
+        <LiquidationCallModal
+          candidate={selectedCandidate}
+          onClose={() => {
+            setSelectedCandidate(null);
+            refresh();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LendingLiquidationsTable;
@@ -0,0 +1,48 @@
+import React from "react";
+import Image from "next/image";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+
+/**
+ * Shows the selected lending market and lets the user pick the market of another chain.
+ * Picking a market asks the wallet to switch to its chain.
+ * @returns {JSX.Element} - Rendered selector with the wrong network warning.
+ */
+const MarketSelector: React.FC = () => {
+  const { t } = useTranslation();
+  const { market, markets, selectMarket, isWrongNetwork } = useLendingMarket();
+
+  return (
+    <div className="flex flex-col gap-1 mb-2">
+      <div className="dropdown">
+        <label tabIndex={0} className="flex items-center space-x-2 cursor-pointer">
+          <Image src={market.logo} alt={market.name} width={32} height={32} className="h-8 w-8" />
+          <div className="text-2xl text-primary font-semibold">{market.name}</div>
+          {markets.length > 1 && <span className="text-primary">▾</span>}
+        </label>
+        {markets.length > 1 && (
+          <ul tabIndex={0} className="dropdown-content menu p-2 shadow bg-base-100 rounded-box w-56 z-10">
+            {markets.map(({ chainId, name, logo }) => (
+              <li key={chainId}>
+                <button onClick={() => selectMarket(chainId)} className={chainId === market.chainId ? "active" : ""}>
+                  <Image src={logo} alt={name} width={20} height={20} className="h-5 w-5" />
+                  {name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {isWrongNetwork && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          {t("LendingMarketWrongNetwork")}
+          <button onClick={() => selectMarket(market.chainId)} className="underline">
+            {t("LendingMarketSwitchNetwork")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarketSelector;
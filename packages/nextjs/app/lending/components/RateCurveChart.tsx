@@ -0,0 +1,110 @@
+import React, { useMemo } from "react";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { InterestRateModel, RateCurvePoint, getRateCurve, getRatesAtUtilization } from "~~/utils/interestRateModel";
+import { aprToApy } from "~~/utils/rateMath";
+
+interface RateCurveChartProps {
+  model: InterestRateModel;
+  utilization: number;
+  showStable: boolean;
+}
+
+const WIDTH = 400;
+const HEIGHT = 200;
+const PADDING = 30;
+
+/**
+ * Curves drawn on the chart, with their translation key and color.
+ */
+const SERIES: { key: keyof Omit<RateCurvePoint, "utilization">; label: string; className: string }[] = [
+  { key: "variableBorrowRate", label: "LendingReserveVariableBorrowAPY", className: "text-primary" },
+  { key: "stableBorrowRate", label: "LendingReserveStableBorrowAPY", className: "text-warning" },
+  { key: "supplyRate", label: "LendingReserveSupplyAPY", className: "text-success" },
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+/**
+ * Chart of the borrow and supply rates of a reserve against its utilization.
+ * @param {InterestRateModel} model - The interest rate model of the reserve.
+ * @param {number} utilization - The current utilization, marked on the chart.
+ * @param {boolean} showStable - Whether to draw the stable borrow rate.
+ * @returns {JSX.Element} - Rendered SVG chart with its legend.
+ */
+const RateCurveChart: React.FC<RateCurveChartProps> = ({ model, utilization, showStable }) => {
+  const { t } = useTranslation();
+  const curve = useMemo(() => getRateCurve(model), [model]);
+  const series = SERIES.filter(({ key }) => showStable || key !== "stableBorrowRate");
+  const current = getRatesAtUtilization(model, utilization);
+
+  // The model gives APRs, the chart shows the APYs they compound to
+  const maxRate = Math.max(...curve.flatMap(point => series.map(({ key }) => aprToApy(point[key]))), 0.01);
+  const toX = (value: number) => PADDING + value * (WIDTH - 2 * PADDING);
+  const toY = (rate: number) => HEIGHT - PADDING - (rate / maxRate) * (HEIGHT - 2 * PADDING);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img">
+        <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(0)} stroke="currentColor" className="text-gray-300" />
+        <line x1={toX(0)} y1={toY(0)} x2={toX(0)} y2={toY(maxRate)} stroke="currentColor" className="text-gray-300" />
+        <line
+          x1={toX(model.optimalUsageRatio)}
+          y1={toY(0)}
+          x2={toX(model.optimalUsageRatio)}
+          y2={toY(maxRate)}
+          stroke="currentColor"
+          strokeDasharray="2 4"
+          className="text-gray-400"
+        />
+        <line
+          x1={toX(utilization)}
+          y1={toY(0)}
+          x2={toX(utilization)}
+          y2={toY(maxRate)}
+          stroke="currentColor"
+          strokeDasharray="4 2"
+          className="text-error"
+        />
+        {series.map(({ key, className }) => (
+          <g key={key} className={className}>
+            <polyline
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+              points={curve.map(point => `${toX(point.utilization)},${toY(aprToApy(point[key]))}`).join(" ")}
+            />
+            <circle cx={toX(utilization)} cy={toY(aprToApy(current[key]))} r={3} fill="currentColor" />
+          </g>
+        ))}
+        <text x={toX(0)} y={HEIGHT - 10} fontSize={10} fill="currentColor">
+          0%
+        </text>
+        <text x={toX(model.optimalUsageRatio)} y={HEIGHT - 10} fontSize={10} textAnchor="middle" fill="currentColor">
+          {formatPercent(model.optimalUsageRatio)}
+        </text>
+        <text x={toX(1)} y={HEIGHT - 10} fontSize={10} textAnchor="end" fill="currentColor">
+          100%
+        </text>
+        <text x={toX(0) + 4} y={toY(maxRate) + 10} fontSize={10} fill="currentColor">
+          {formatPercent(maxRate)}
+        </text>
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs">
+        {series.map(({ key, label, className }) => (
+          <span key={key} className={`flex items-center gap-1 ${className}`}>
+            <span className="inline-block w-3 h-1 bg-current" />
+            <span className="general-text-color">
+              {t(label)}: {formatPercent(aprToApy(current[key]))}
+            </span>
+          </span>
+        ))}
+        <span className="general-text-color">
+          {t("LendingReserveUtilization")}: {formatPercent(utilization)} ({t("LendingReserveOptimal")}{" "}
+          {formatPercent(model.optimalUsageRatio)})
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default RateCurveChart;
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from "react";
+import useReserveRateHistory from "@/hooks/useReserveRateHistory";
+import { ReserveData } from "@/types/types";
+import { Address } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { InterestRateModel, getUtilizationAtVariableRate } from "~~/utils/interestRateModel";
+import { RateHistoryPoint } from "~~/utils/rateHistoryCache";
+import { aprToApy } from "~~/utils/rateMath";
+
+interface RateHistoryChartProps {
+  reserve: ReserveData;
+  model: InterestRateModel | undefined; // Needed for the utilization chart
+}
+
+const WIDTH = 400;
+const HEIGHT = 200;
+const UTILIZATION_HEIGHT = 120;
+const PADDING = 30;
+const PERIODS = [7, 30, 90]; // In days
+const SECONDS_PER_DAY = 86_400;
+
+/**
+ * Series drawn on the APY chart, with their translation key and color.
+ */
+const SERIES: { key: keyof Omit<RateHistoryPoint, "blockNumber" | "timestamp">; label: string; className: string }[] = [
+  { key: "variableBorrowRate", label: "LendingReserveVariableBorrowAPY", className: "text-primary" },
+  { key: "stableBorrowRate", label: "LendingReserveStableBorrowAPY", className: "text-warning" },
+  { key: "supplyRate", label: "LendingReserveSupplyAPY", className: "text-success" },
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+/**
+ * Charts of the supply and borrow APYs of a reserve and of its utilization over the last 7, 30 or 90 days.
+ * Rates only change on ReserveDataUpdated events, so the series are drawn as steps.
+ * @param {ReserveData} reserve - The reserve.
+ * @param {InterestRateModel | undefined} model - The interest rate model, the utilization is derived from the variable rate with it.
+ * @returns {JSX.Element} - Rendered SVG charts with the period selector and legend.
+ */
+const RateHistoryChart: React.FC<RateHistoryChartProps> = ({ reserve, model }) => {
+  const { t } = useTranslation();
+  const [days, setDays] = useState(PERIODS[0]);
+  const { points, isLoading, error } = useReserveRateHistory(reserve.underlyingAsset as Address);
+  const series = SERIES.filter(({ key }) => reserve.stableBorrowRateEnabled || key !== "stableBorrowRate");
+
+  const now = Math.floor(Date.now() / 1000);
+  const start = now - days * SECONDS_PER_DAY;
+
+  // Points of the period, starting with the rates in force when it begins
+  const periodPoints = useMemo(() => {
+    const firstIndex = points.findIndex(({ timestamp }) => timestamp >= start);
+    if (firstIndex === -1) return points.length > 0 ? [{ ...points[points.length - 1], timestamp: start }] : [];
+    const previous = firstIndex > 0 ? [{ ...points[firstIndex - 1], timestamp: start }] : [];
+    return [...previous, ...points.slice(firstIndex)];
+  }, [points, start]);
+
+  const maxRate = Math.max(...periodPoints.flatMap(point => series.map(({ key }) => aprToApy(point[key]))), 0.01);
+  const toX = (timestamp: number) => PADDING + ((timestamp - start) / (now - start)) * (WIDTH - 2 * PADDING);
+  const toY = (rate: number, height: number, max: number) => height - PADDING - (rate / max) * (height - 2 * PADDING);
+
+  /**
+   * Builds the step polyline of a value, held until the next point and up to now.
+   * @param {function} getValue - Reads the value of a point.
+   * @param {number} height - The chart height.
+   * @param {number} max - The value at the top of the chart.
+   * @returns {string} - The polyline points.
+   */
+  const getSteps = (getValue: (point: RateHistoryPoint) => number, height: number, max: number) =>
+    periodPoints
+      .flatMap((point, index) => {
+        const y = toY(getValue(point), height, max);
+        const end = periodPoints[index + 1]?.timestamp ?? now;
+        return [`${toX(point.timestamp)},${y}`, `${toX(end)},${y}`];
+      })
+      .join(" ");
+
+  const latest = periodPoints[periodPoints.length - 1];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex justify-between items-center">
+        <h2 className="text-primary">{t("LendingReserveRateHistory")}</h2>
+        <div className="flex gap-1">
+          {PERIODS.map(period => (
+            <button
+              key={period}
+              className={`btn btn-xs ${period === days ? "btn-primary" : "btn-ghost"}`}
+              onClick={() => setDays(period)}
+            >
+              {period}d
+            </button>
+          ))}
+        </div>
+      </div>
+      {periodPoints.length > 0 ? (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img">
+            <line
+              x1={toX(start)}
+              y1={toY(0, HEIGHT, maxRate)}
+              x2={toX(now)}
+              y2={toY(0, HEIGHT, maxRate)}
+              stroke="currentColor"
+              className="text-gray-300"
+            />
+            <line
+              x1={toX(start)}
+              y1={toY(0, HEIGHT, maxRate)}
+              x2={toX(start)}
+              y2={toY(maxRate, HEIGHT, maxRate)}
+              stroke="currentColor"
+              className="text-gray-300"
+            />
+            {series.map(({ key, className }) => (
+              <g key={key} className={className}>
+                <polyline
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  points={getSteps(point => aprToApy(point[key]), HEIGHT, maxRate)}
+                />
+              </g>
+            ))}
+            <text x={toX(start)} y={HEIGHT - 10} fontSize={10} fill="currentColor">
+              {formatDate(start)}
+            </text>
+            <text x={toX(now)} y={HEIGHT - 10} fontSize={10} textAnchor="end" fill="currentColor">
+              {formatDate(now)}
+            </text>
+            <text x={toX(start) + 4} y={toY(maxRate, HEIGHT, maxRate) + 10} fontSize={10} fill="currentColor">
+              {formatPercent(maxRate)}
+            </text>
+          </svg>
+          <div className="flex flex-wrap gap-4 text-xs">
+            {series.map(({ key, label, className }) => (
+              <span key={key} className={`flex items-center gap-1 ${className}`}>
+                <span className="inline-block w-3 h-1 bg-current" />
+                <span className="general-text-color">
+                  {t(label)}: {formatPercent(aprToApy(latest[key]))}
+                </span>
+              </span>
+            ))}
+          </div>
+          {model && (
+            <>
+              <svg viewBox={`0 0 ${WIDTH} ${UTILIZATION_HEIGHT}`} className="w-full" role="img">
+                <line
+                  x1={toX(start)}
+                  y1={toY(0, UTILIZATION_HEIGHT, 1)}
+                  x2={toX(now)}
+                  y2={toY(0, UTILIZATION_HEIGHT, 1)}
+                  stroke="currentColor"
+                  className="text-gray-300"
+                />
+                <line
+                  x1={toX(start)}
+                  y1={toY(model.optimalUsageRatio, UTILIZATION_HEIGHT, 1)}
+                  x2={toX(now)}
+                  y2={toY(model.optimalUsageRatio, UTILIZATION_HEIGHT, 1)}
+                  stroke="currentColor"
+                  strokeDasharray="2 4"
+                  className="text-gray-400"
+                />
+                <polyline
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  className="text-accent"
+                  points={getSteps(
+                    point => getUtilizationAtVariableRate(model, point.variableBorrowRate),
+                    UTILIZATION_HEIGHT,
+                    1,
+                  )}
+                />
+                <text x={toX(start) + 4} y={toY(1, UTILIZATION_HEIGHT, 1) + 10} fontSize={10} fill="currentColor">
+                  100%
+                </text>
+              </svg>
+              <p className="text-xs general-text-color">
+                {t("LendingReserveUtilization")}:{" "}
+                {formatPercent(getUtilizationAtVariableRate(model, latest.variableBorrowRate))} (
+                {t("LendingReserveUtilizationDerived")})
+              </p>
+            </>
+          )}
+        </>
+      ) : (
+        !isLoading && <p className="text-gray-500">{t("LendingReserveRateHistoryEmpty")}</p>
+      )}
+      {isLoading && <p className="text-xs text-gray-500">{t("LendingReserveRateHistoryLoading")}</p>}
+      {error && <p className="text-error text-xs">{t("LendingReserveRateHistoryError")}</p>}
+    </div>
+  );
+};
+
+export default RateHistoryChart;
@@ -1,13 +1,16 @@
-import React, { useCallback, useEffect, useState } from "react";
-import BalanceOf from "./BalanceOf";
+import React, { useEffect, useMemo, useState } from "react";
+import RateModeModal from "./modals/RateModeModal";
 import RepayModal from "./modals/RepayTransactionModal.tsx";
-import useAccountAddress from "@/hooks/useAccount";
-import useGetReservesData from "@/hooks/useGetReservesData";
-import useGetUserReservesData from "@/hooks/useGetUserReservesData";
+import useLiveLendingAssets from "@/hooks/useLiveLendingAssets";
 import { useTotalBalance } from "@/hooks/useTotalBalance";
-import { Address } from "viem";
+import { ReserveData } from "@/types/types";
+import { Address, formatUnits } from "viem";
 import { useTranslation } from "~~/app/context/LanguageContext";
+import { useReserves } from "~~/context/ReservesContext";
 import { useTotalAPY } from "~~/hooks/useTotalAPY";
+import { formatAccruedBalance } from "~~/utils/indexMath";
+import { INTEREST_RATE_MODE, InterestRateMode } from "~~/utils/lendingMath";
+import { formatApy } from "~~/utils/rateMath";
 
 interface YourBorrowsProps {
   setBorrowsTotalBalance: React.Dispatch<React.SetStateAction<number>>;
@@ -19,46 +22,73 @@ interface YourBorrowsProps {
  */
 const YourBorrows: React.FC<YourBorrowsProps> = ({ setBorrowsTotalBalance }) => {
   const { t } = useTranslation();
-  const { reservesData, isLoading: isLoadingReserves, isError: isErrorReserves } = useGetReservesData();
-  const { userReservesData, isLoading: isLoadingUserReserves, isError: isErrorUserReserves } = useGetUserReservesData();
-  const { address: walletAddress } = useAccountAddress();
+  const { assets, isLoadingReserves, isErrorReserves, isLoadingUserReserves, isErrorUserReserves } = useReserves();
+  const liveAssets = useLiveLendingAssets();
 
-  const [balances, setBalances] = useState<Record<string, string>>({});
-  const [reservesWithBalances, setReservesWithBalances] = useState<any[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [selectedReserve, setSelectedReserve] = useState<any>(null);
+  const [selectedReserve, setSelectedReserve] = useState<ReserveData | null>(null);
   const [selectedBalance, setSelectedBalance] = useState("");
+  const [selectedRateMode, setSelectedRateMode] = useState<InterestRateMode>(INTEREST_RATE_MODE.variable);
+  const [rateModeSelection, setRateModeSelection] = useState<{
+    reserve: ReserveData;
+    rateMode: InterestRateMode;
+    rate: bigint;
+  } | null>(null);
+
+  // Reserves with the debt of the user, accrued every second. The user reserve is not spread over the reserve, its
+  // stableBorrowRate would replace the reserve rate shown when switching to stable
+  const reservesWithBalances = useMemo(
+    () =>
+      liveAssets.map(({ reserve, userReserve, variableDebt, stableDebt }) => ({
+        ...reserve,
+        variableDebt,
+        stableDebt,
+        // Total debt of the reserve, variable and stable
+        balance: formatUnits(variableDebt + stableDebt, Number(reserve.decimals)),
+        userStableBorrowRate: userReserve?.stableBorrowRate ?? 0n,
+      })),
+    [liveAssets],
+  );
 
-  const handleVariableDebtChange = useCallback((tokenAddress: Address, balance: string) => {
-    setBalances(prevBalances => ({ ...prevBalances, [tokenAddress]: balance }));
-  }, []);
-
+  // Set the total debt in USD to the parent component
   useEffect(() => {
-    if (reservesData && userReservesData) {
-      const combinedReserves = reservesData.map(reserve => {
-        const userReserve = userReservesData.find(userRes => userRes.underlyingAsset === reserve.underlyingAsset);
-        return {
-          ...reserve,
-          ...userReserve,
-          balance: balances[reserve.variableDebtTokenAddress as Address] || "0",
-          underlyingAsset: reserve.underlyingAsset as `0x${string}`,
-        };
-      });
-      setReservesWithBalances(combinedReserves);
-
-      // Calculate the total debt balance and set it to the parent component
-      const totalDebtBalance = combinedReserves.reduce((sum, reserve) => {
-        const balance = parseFloat(reserve.balance || "0");
-        const priceInMarketReferenceCurrency = Number(reserve.priceInMarketReferenceCurrency) || 0;
-        const adjustedBalance = balance * (priceInMarketReferenceCurrency / 1e8);
-        return sum + adjustedBalance;
-      }, 0);
-
-      setBorrowsTotalBalance(totalDebtBalance);
-    }
-  }, [reservesData, userReservesData, balances, setBorrowsTotalBalance]);
-
-  const totalAPY = useTotalAPY(reservesWithBalances);
+    setBorrowsTotalBalance(assets.reduce((sum, asset) => sum + asset.variableDebtUsd + asset.stableDebtUsd, 0));
+  }, [assets, setBorrowsTotalBalance]);
+
+  // One row per debt position, a reserve can be borrowed at both rates
+  const debtPositions = useMemo(
+    () =>
+      reservesWithBalances.flatMap(reserve => [
+        {
+          reserve,
+          rateMode: INTEREST_RATE_MODE.variable as InterestRateMode,
+          debtTokenAddress: reserve.variableDebtTokenAddress as Address,
+          debt: reserve.variableDebt,
+          rate: reserve.variableBorrowRate as bigint,
+        },
+        {
+          reserve,
+          rateMode: INTEREST_RATE_MODE.stable as InterestRateMode,
+          debtTokenAddress: reserve.stableDebtTokenAddress as Address,
+          debt: reserve.stableDebt,
+          rate: reserve.userStableBorrowRate as bigint,
+        },
+      ]),
+    [reservesWithBalances],
+  );
+
+  // Each position weighs the APY with its own balance and rate
+  const positionsWithBalances = useMemo(
+    () =>
+      debtPositions.map(({ reserve, debt, rate }) => ({
+        ...reserve,
+        balance: formatUnits(debt, Number(reserve.decimals)),
+        positionRate: rate,
+      })),
+    [debtPositions],
+  );
+
+  const totalAPY = useTotalAPY(positionsWithBalances, position => position.positionRate);
   const totalBalance = useTotalBalance(reservesWithBalances);
 
   if (isLoadingReserves || isLoadingUserReserves) {
@@ -71,9 +101,10 @@ const YourBorrows: React.FC<YourBorrowsProps> = ({ setBorrowsTotalBalance }) =>
 
   const allBalancesZero = reservesWithBalances.every(reserve => parseFloat(reserve.balance) === 0);
 
-  const handleRepayClick = (reserve: any, balance: string) => {
+  const handleRepayClick = (reserve: ReserveData, balance: string, rateMode: InterestRateMode) => {
     setSelectedReserve(reserve);
     setSelectedBalance(balance);
+    setSelectedRateMode(rateMode);
     setIsModalOpen(true);
   };
 
@@ -91,13 +122,14 @@ const YourBorrows: React.FC<YourBorrowsProps> = ({ setBorrowsTotalBalance }) =>
           <div className="borrows-header-item w-24 hidden sm:block">{t("LendingYourBorrowsColumn4")}</div>
           <div className="borrows-header-item w-24">{t("LendingYourBorrowsColumn5")}</div>
         </div>
-        {reservesWithBalances.map((reserve, index) => {
-          const balance = reserve.balance;
+        {debtPositions.map(({ reserve, rateMode, debtTokenAddress, debt, rate }) => {
+          const balance = formatUnits(debt, Number(reserve.decimals));
           const isButtonDisabled = parseFloat(balance) === 0;
+          const isStable = rateMode === INTEREST_RATE_MODE.stable;
 
           return (
             <div
-              key={index}
+              key={debtTokenAddress}
               className={`table-content table-border-top borrows-row flex justify-between py-3 ${
                 isButtonDisabled ? "hidden" : "block"
               }`}
@@ -106,28 +138,30 @@ const YourBorrows: React.FC<YourBorrowsProps> = ({ setBorrowsTotalBalance }) =>
                 <p>{reserve.symbol}</p>
               </div>
               <div className="borrows-row-item w-24">
-                <p>
-                  <BalanceOf
-                    tokenAddress={reserve.variableDebtTokenAddress as Address}
-                    walletAddress={walletAddress as Address}
-                    onBalanceChange={handleVariableDebtChange}
-                  />
-                </p>
+                <p>{formatAccruedBalance(debt, Number(reserve.decimals))}</p>
               </div>
               <div className="borrows-row-item w-24 hidden sm:block">
-                <p>{(Number(reserve.variableBorrowRate) / 1e25).toFixed(2)}%</p>
+                <p>{formatApy(rate)}</p>
               </div>
-              <div className="borrows-row-item w-24 hidden sm:block">
+              <div className="borrows-row-item w-24 hidden sm:flex flex-col items-start gap-1">
                 <span className="px-4 py-1 bg-gray-100 text-gray-400 rounded-md uppercase text-xs">
-                  {reserve.variableBorrowrate !== 0n && reserve.stableBorrowRateEnabled ? "stable" : "variable"}
+                  {t(isStable ? "LendingRateStable" : "LendingRateVariable")}
                 </span>
+                {(isStable || reserve.stableBorrowRateEnabled) && (
+                  <span
+                    className="text-xs font-bold hover:underline cursor-pointer"
+                    onClick={() => setRateModeSelection({ reserve, rateMode, rate })}
+                  >
+                    {t("LendingRateSwitch")}
+                  </span>
+                )}
               </div>
 
               <div className="borrows-row-item w-24">
                 <button
                   className={`${isButtonDisabled ? "disabled-btn" : "primary-btn"}`}
                   disabled={isButtonDisabled}
-                  onClick={() => handleRepayClick(reserve, balance)}
+                  onClick={() => handleRepayClick(reserve, balance, rateMode)}
                 >
                   {t("LendingRepayModalButton")}
                 </button>
@@ -145,7 +179,16 @@ const YourBorrows: React.FC<YourBorrowsProps> = ({ setBorrowsTotalBalance }) =>
         onClose={() => setIsModalOpen(false)}
         reserve={selectedReserve}
         balance={selectedBalance}
+        interestRateMode={selectedRateMode}
       />
+      {rateModeSelection && (
+        <RateModeModal
+          reserve={rateModeSelection.reserve}
+          currentRateMode={rateModeSelection.rateMode}
+          currentRate={rateModeSelection.rate}
+          onClose={() => setRateModeSelection(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,15 +1,15 @@
-import React, { useCallback, useEffect, useState } from "react";
-import WalletBalance from "./BalanceOf";
+import React, { useEffect, useMemo, useState } from "react";
 import CollateralToggle from "./CollateralToggle";
 import WithdrawModal from "./modals/WithdrawTransactionModal";
-import useAccountAddress from "@/hooks/useAccount";
 import { useCollateralTotalBalance } from "@/hooks/useCollateralTotalBalance";
-import useGetReservesData from "@/hooks/useGetReservesData";
-import useGetUserReservesData from "@/hooks/useGetUserReservesData";
+import useLiveLendingAssets from "@/hooks/useLiveLendingAssets";
 import { useTotalBalance } from "@/hooks/useTotalBalance";
-import { Address } from "viem";
+import { formatUnits } from "viem";
 import { useTranslation } from "~~/app/context/LanguageContext";
+import { useReserves } from "~~/context/ReservesContext";
 import { useTotalAPY } from "~~/hooks/useTotalAPY";
+import { formatAccruedBalance } from "~~/utils/indexMath";
+import { formatApy } from "~~/utils/rateMath";
 
 interface YourSuppliesProps {
   setAllBalancesZero: React.Dispatch<React.SetStateAction<boolean>>;
@@ -17,49 +17,37 @@ interface YourSuppliesProps {
 }
 
 const YourSupplies: React.FC<YourSuppliesProps> = ({ setAllBalancesZero, setSuppliesTotalBalance }) => {
-  const { reservesData, isLoading: isLoadingReserves, isError: isErrorReserves } = useGetReservesData();
-  const { userReservesData, isLoading: isLoadingUserReserves, isError: isErrorUserReserves } = useGetUserReservesData();
-  const { address: walletAddress } = useAccountAddress();
+  const { assets, isLoadingReserves, isErrorReserves, isLoadingUserReserves, isErrorUserReserves } = useReserves();
+  const liveAssets = useLiveLendingAssets();
 
-  const [balances, setBalances] = useState<Record<string, string>>({});
-  const [reservesWithBalances, setReservesWithBalances] = useState<any[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedReserve, setSelectedReserve] = useState<any>(null);
   const [selectedBalance, setSelectedBalance] = useState("");
 
   const { t } = useTranslation();
 
-  const handleBalanceChange = useCallback((tokenAddress: Address, balance: string) => {
-    setBalances(prevBalances => ({ ...prevBalances, [tokenAddress]: balance }));
-  }, []);
+  // Reserves with the supplied balance of the user, accrued every second
+  const reservesWithBalances = useMemo(
+    () =>
+      liveAssets.map(({ reserve, userReserve, supplied }) => ({
+        ...reserve,
+        ...userReserve,
+        supplied,
+        usageAsCollateralEnabledOnUser: userReserve?.usageAsCollateralEnabledOnUser ?? false,
+        balance: formatUnits(supplied, Number(reserve.decimals)),
+        underlyingAsset: reserve.underlyingAsset,
+      })),
+    [liveAssets],
+  );
+
+  useEffect(() => {
+    setAllBalancesZero(assets.every(({ supplied }) => supplied === 0n));
+  }, [assets, setAllBalancesZero]);
 
+  // Set the total supplied in USD to the parent component
   useEffect(() => {
-    if (reservesData && userReservesData) {
-      const combinedReserves = reservesData.map(reserve => {
-        const userReserve = userReservesData.find(userRes => userRes.underlyingAsset === reserve.underlyingAsset);
-        return {
-          ...reserve,
-          ...userReserve,
-          balance: balances[reserve.aTokenAddress as Address] || "0",
-          underlyingAsset: reserve.underlyingAsset as Address,
-        };
-      });
-      setReservesWithBalances(combinedReserves);
-
-      const allZero = combinedReserves.every(reserve => parseFloat(reserve.balance) === 0);
-      setAllBalancesZero(allZero);
-
-      // Calculate the total balance and set it to the parent component
-      const totalBalance = combinedReserves.reduce((sum, reserve) => {
-        const balance = parseFloat(reserve.balance || "0");
-        const priceInMarketReferenceCurrency = Number(reserve.priceInMarketReferenceCurrency) || 0;
-        const adjustedBalance = balance * (priceInMarketReferenceCurrency / 1e8);
-        return sum + adjustedBalance;
-      }, 0);
-
-      setSuppliesTotalBalance(totalBalance);
-    }
-  }, [reservesData, userReservesData, balances, setAllBalancesZero, setSuppliesTotalBalance]);
+    setSuppliesTotalBalance(assets.reduce((sum, asset) => sum + asset.suppliedUsd, 0));
+  }, [assets, setSuppliesTotalBalance]);
 
   const totalBalance = useTotalBalance(reservesWithBalances);
   const totalAPY = useTotalAPY(reservesWithBalances);
@@ -79,10 +67,6 @@ const YourSupplies: React.FC<YourSuppliesProps> = ({ setAllBalancesZero, setSupp
     setIsModalOpen(true);
   };
 
-  console.log("reservesData", reservesData);
-  console.log("userReservesData", userReservesData);
-  console.log("reservesWithBalances", reservesWithBalances);
-
   return (
     <div>
       <div className="flex mt-2 gap-2 text-xs">
@@ -118,16 +102,10 @@ const YourSupplies: React.FC<YourSuppliesProps> = ({ setAllBalancesZero, setSupp
                 <p>{reserve.symbol}</p>
               </div>
               <div className="supplies-row-item w-24 hidden sm:block">
-                <p>
-                  <WalletBalance
-                    tokenAddress={reserve.aTokenAddress as Address}
-                    walletAddress={walletAddress as Address}
-                    onBalanceChange={handleBalanceChange}
-                  />
-                </p>
+                <p>{formatAccruedBalance(reserve.supplied, Number(reserve.decimals))}</p>
               </div>
               <div className="supplies-row-item w-24 hidden sm:block">
-                <p>{(Number(reserve.liquidityRate) / 1e25).toFixed(2)}%</p>
+                <p>{formatApy(reserve.liquidityRate)}</p>
               </div>
               <div className="supplies-row-item w-24">
                 <div>
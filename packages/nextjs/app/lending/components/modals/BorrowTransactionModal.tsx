@@ -1,14 +1,23 @@
 import React, { useEffect, useState } from "react";
 import Image from "next/image";
+import CapUsageBar from "../CapUsageBar";
+import HealthFactorOverview from "./HealthFactorOverview";
 import useAccountAddress from "@/hooks/useAccount";
 import useBorrow from "@/hooks/useBorrow";
+import useBorrowRestrictions from "@/hooks/useBorrowRestrictions";
+import useLendingSimulation from "@/hooks/useLendingSimulation";
 import { ReserveData } from "@/types/types";
 import { toWeiConverter } from "@/utils/toWeiConverter";
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { Address } from "viem";
+import { Address, formatUnits } from "viem";
 import { useChainId } from "wagmi";
 import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { HEALTH_FACTOR_MARGINS, HEALTH_FACTOR_ONE, INTEREST_RATE_MODE, InterestRateMode } from "~~/utils/lendingMath";
+import { formatApy } from "~~/utils/rateMath";
+import { DEBT_CEILING_DECIMALS } from "~~/utils/reserveConfiguration";
+import { getParsedError } from "~~/utils/scaffold-eth";
 
 interface ModalProps {
   isOpen: boolean;
@@ -29,14 +38,16 @@ interface ModalProps {
 const BorrowTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve, balance }) => {
   // Translation context
   const { t } = useTranslation();
+  const { isWrongNetwork } = useLendingMarket();
   // State management for the amount to be borrowed, interest rate mode, validity check, and error messages
   const [amount, setAmount] = useState("");
-  const [interestRateMode, setInterestRateMode] = useState(2); // Default to Stable
+  const [interestRateMode, setInterestRateMode] = useState<InterestRateMode>(INTEREST_RATE_MODE.variable); // Default to Variable
   const [isValid, setIsValid] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
   const [data, setData] = useState<any>(null); // Reset data state
   const [isError, setIsError] = useState(false); // Reset isError state
   const [showSuccessIcon, setShowSuccessIcon] = useState(false);
+  const [safetyMargin, setSafetyMargin] = useState<string>(HEALTH_FACTOR_MARGINS[2]);
 
   const chainId = useChainId();
 
@@ -46,6 +57,26 @@ const BorrowTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
   // Fetch the user's wallet address
   const { address: walletAddress } = useAccountAddress();
 
+  // In isolation mode the remaining debt ceiling caps the borrow, as does the reserve borrow cap
+  const { reserveStates, isolatedState, getMaxIsolatedBorrow } = useBorrowRestrictions();
+  const reserveState = reserve ? reserveStates[reserve.underlyingAsset] : undefined;
+  const configuration = reserveState?.configuration;
+  const maxIsolatedBorrow = reserve ? getMaxIsolatedBorrow(reserve.underlyingAsset) : undefined;
+  const maxIsolatedAmount =
+    maxIsolatedBorrow !== undefined ? formatUnits(maxIsolatedBorrow, Number(reserve?.decimals ?? 18)) : undefined;
+  const borrowHeadroomAmount =
+    reserveState?.borrowHeadroom !== undefined
+      ? formatUnits(reserveState.borrowHeadroom, Number(reserve?.decimals ?? 18))
+      : undefined;
+
+  // The max button keeps the health factor above the safety margin
+  const { currentHealthFactor, projectedHealthFactor, maxAmount, availableBorrowAmount } = useLendingSimulation(
+    reserve,
+    "borrow",
+    amount,
+    safetyMargin,
+  );
+
   const getBlockExplorerUrl = (chainId: number): string => {
     switch (chainId) {
       case 56: // BNB Smart Chain Mainnet
@@ -63,18 +94,18 @@ const BorrowTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
   useEffect(() => {
     validateAmount(amount);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [amount]);
+  }, [amount, projectedHealthFactor, availableBorrowAmount]);
 
   useEffect(() => {
     // Update state based on borrow hook response
     if (borrowError) {
       setIsError(true);
-      setErrorMessage(error?.message || "An unknown error occurred.");
+      setErrorMessage(getParsedError(error, t));
     }
     if (borrowHash) {
       setData(borrowHash);
     }
-  }, [borrowError, borrowHash, error]);
+  }, [borrowError, borrowHash, error, t]);
 
   /**
    * Validates the input amount for borrow.
@@ -91,6 +122,19 @@ const BorrowTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
     } else if (numValue > parseFloat(balance)) {
       setIsValid(false);
       setErrorMessage("Amount exceeds available liquidity.");
+    } else if (maxIsolatedAmount !== undefined && numValue > parseFloat(maxIsolatedAmount)) {
+      setIsValid(false);
+      setErrorMessage("Amount exceeds the remaining debt ceiling.");
+    } else if (borrowHeadroomAmount !== undefined && numValue > parseFloat(borrowHeadroomAmount)) {
+      setIsValid(false);
+      setErrorMessage("Amount exceeds the remaining borrow cap.");
+    } else if (availableBorrowAmount !== undefined && numValue > parseFloat(availableBorrowAmount)) {
+      // The Pool rejects borrows above the loan to value even when the health factor stays above 1
+      setIsValid(false);
+      setErrorMessage("Amount exceeds your available borrowing power.");
+    } else if (typeof projectedHealthFactor === "bigint" && projectedHealthFactor < HEALTH_FACTOR_ONE) {
+      setIsValid(false);
+      setErrorMessage("This borrow would put your health factor below 1.");
     } else {
       setIsValid(true);
       setErrorMessage("");
@@ -109,16 +153,19 @@ const BorrowTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
    * Sets the input amount to the maximum available balance.
    */
   const handleMaxClick = () => {
-    setAmount(balance);
+    const limits = [balance, maxIsolatedAmount, borrowHeadroomAmount, maxAmount].filter(
+      (limit): limit is string => limit !== undefined,
+    );
+    setAmount(limits.reduce((max, limit) => (parseFloat(limit) < parseFloat(max) ? limit : max)));
   };
 
   /**
    * Handles changes to the interest rate mode.
    * @param {React.ChangeEvent<HTMLInputElement>} event - The input change event.
    */
-  /* const handleInterestRateModeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setInterestRateMode(parseInt(event.target.value));
-  }; */
+  const handleInterestRateModeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setInterestRateMode(parseInt(event.target.value) as InterestRateMode);
+  };
   /**
    * Handles the borrow button click event.
    */
@@ -163,7 +210,7 @@ const BorrowTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
    */
   const handleClose = () => {
     setAmount("");
-    setInterestRateMode(2); // Reset to default Stable
+    setInterestRateMode(INTEREST_RATE_MODE.variable); // Reset to default Variable
     setIsValid(false);
     setErrorMessage("");
     setData(null);
@@ -207,16 +254,72 @@ const BorrowTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
               </div>
               <div className="container-gray-borders flex flex-col gap-2">
                 <label className="font-bold">{t("LendingBorrowModalTransactionOverview")}</label>
+                {reserve.stableBorrowRateEnabled && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span>{t("LendingYourBorrowsColumn4")}</span>
+                    <div className="flex gap-4">
+                      {[INTEREST_RATE_MODE.variable, INTEREST_RATE_MODE.stable].map(mode => (
+                        <label key={mode} className="flex items-center gap-1 cursor-pointer">
+                          <input
+                            type="radio"
+                            className="radio radio-sm"
+                            value={mode}
+                            checked={interestRateMode === mode}
+                            onChange={handleInterestRateModeChange}
+                          />
+                          {t(mode === INTEREST_RATE_MODE.stable ? "LendingRateStable" : "LendingRateVariable")}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 <div className="flex justify-between items-center text-sm">
                   <span>{t("LendingBorrowModalTransactionBorrowAPY")}</span>
-                  <span className="font-bold">{(Number(reserve.variableBorrowRate) / 1e25).toFixed(2)}%</span>
+                  <span className="font-bold">
+                    {formatApy(
+                      interestRateMode === INTEREST_RATE_MODE.stable
+                        ? reserve.stableBorrowRate
+                        : reserve.variableBorrowRate,
+                    )}
+                  </span>
                 </div>
+                <HealthFactorOverview
+                  currentHealthFactor={currentHealthFactor}
+                  projectedHealthFactor={projectedHealthFactor}
+                  safetyMargin={safetyMargin}
+                  onSafetyMarginChange={setSafetyMargin}
+                />
+                {isolatedState && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span>{t("LendingDebtCeiling")}</span>
+                    <span className="font-bold">
+                      ${formatUnits(isolatedState.isolationModeTotalDebt, DEBT_CEILING_DECIMALS)} / $
+                      {formatUnits(isolatedState.configuration.debtCeiling, DEBT_CEILING_DECIMALS)}
+                    </span>
+                  </div>
+                )}
+                {reserveState && reserveState.configuration.borrowCap > 0n && (
+                  <div className="flex flex-col gap-1 text-sm">
+                    <span>{t("LendingBorrowCap")}</span>
+                    <CapUsageBar
+                      used={reserveState.totalBorrowed}
+                      cap={reserveState.configuration.borrowCap}
+                      decimals={reserveState.configuration.decimals}
+                    />
+                  </div>
+                )}
               </div>
+              {configuration?.siloedBorrowing && (
+                <div className="warning-container text-left text-sm">
+                  <p>{t("LendingSiloedWarning")}</p>
+                </div>
+              )}
+              {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
               <div className="flex justify-between gap-4">
                 <button
-                  className={`flex-grow-2 basis-2/3 ${isValid ? "primary-btn" : "disabled-btn"}`}
+                  className={`flex-grow-2 basis-2/3 ${isValid && !isWrongNetwork ? "primary-btn" : "disabled-btn"}`}
                   onClick={handleBorrowClick}
-                  disabled={!isValid}
+                  disabled={!isValid || isWrongNetwork}
                 >
                   {t("LendingBorrowModalButton")}
                 </button>
@@ -240,6 +343,7 @@ const BorrowTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
                   Oops! Something went wrong.{" "}
                   {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
                 </p>
+                {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
                 <span onClick={handleCopyError} className="cursor-pointer underline font-bold text-lg">
                   Copy the error.
                 </span>
@@ -3,6 +3,8 @@ import useSetUserUseReserveAsCollateral from "@/hooks/useSetUserUseReserveAsColl
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { Address } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Props for the CollateralModal component.
@@ -27,6 +29,8 @@ const CollateralModal: React.FC<CollateralModalProps> = ({
   onClose,
   onConfirm,
 }) => {
+  const { t } = useTranslation();
+  const { isWrongNetwork } = useLendingMarket();
   const { handleSetUserUseReserveAsCollateral, isError, error, data } = useSetUserUseReserveAsCollateral();
   const [showSuccessIcon, setShowSuccessIcon] = useState(false);
 
@@ -69,8 +73,13 @@ const CollateralModal: React.FC<CollateralModalProps> = ({
                     : "Enabling this asset as collateral increases your borrowing power and Health Factor. However, it can get liquidated if your health factor drops below 1."}
                 </p>
               </div>
+              {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
               <div className="flex gap-4">
-                <button onClick={toggleCollateral} className="primary-btn flex-grow-2 basis-2/3">
+                <button
+                  onClick={toggleCollateral}
+                  className={`flex-grow-2 basis-2/3 ${isWrongNetwork ? "disabled-btn" : "primary-btn"}`}
+                  disabled={isWrongNetwork}
+                >
                   {initialUseAsCollateral ? "Remove as collateral" : "Set as collateral"}
                 </button>
                 <button onClick={onClose} className="secondary-btn flex-grow-1 basis-1/3">
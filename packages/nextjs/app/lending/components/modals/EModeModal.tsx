@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from "react";
+import Image from "next/image";
+import useEMode from "@/hooks/useEMode";
+import { Address } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
+import { HEALTH_FACTOR_ONE, formatHealthFactor } from "~~/utils/lendingMath";
+import { getBlockExplorerTxLink, getParsedError } from "~~/utils/scaffold-eth";
+
+interface EModeModalProps {
+  onClose: () => void;
+}
+
+/**
+ * Formats basis points as a percentage.
+ * @param {number} bps - The value in basis points.
+ * @returns {string} - The percentage, e.g. "93%".
+ */
+const formatBps = (bps: number) => `${parseFloat((bps / 100).toFixed(2))}%`;
+
+/**
+ * Modal to pick an E-Mode category and switch to it.
+ * @param {function} onClose - Function to close the modal.
+ */
+const EModeModal: React.FC<EModeModalProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const { market, isWrongNetwork } = useLendingMarket();
+  const { reservesData } = useReserves();
+  const {
+    categories,
+    userCategoryId,
+    currentHealthFactor,
+    getBlockingAssets,
+    getProjectedHealthFactor,
+    handleSetUserEMode,
+    isPending,
+    isError,
+    error,
+    eModeHash,
+  } = useEMode();
+  const [selectedCategoryId, setSelectedCategoryId] = useState(userCategoryId);
+
+  // The user category may load after the modal opens
+  useEffect(() => {
+    setSelectedCategoryId(userCategoryId);
+  }, [userCategoryId]);
+
+  const getSymbol = (asset: Address) =>
+    reservesData?.find(({ underlyingAsset }) => underlyingAsset === asset)?.symbol ?? asset;
+
+  const blockingAssets = getBlockingAssets(selectedCategoryId);
+  const projectedHealthFactor = getProjectedHealthFactor(selectedCategoryId);
+  const isLiquidatable = typeof projectedHealthFactor === "bigint" && projectedHealthFactor < HEALTH_FACTOR_ONE;
+  const canSwitch = selectedCategoryId !== userCategoryId && blockingAssets.length === 0 && !isLiquidatable;
+
+  const options = [
+    { id: 0, label: t("LendingEModeDisabled"), ltv: 0, liquidationThreshold: 0, liquidationBonus: 0 },
+    ...categories,
+  ];
+
+  return (
+    <div className="modal-blur-background">
+      <div className="modal-container general-text-color flex flex-col gap-6">
+        <h2 className="text-left">{t("LendingEModeTitle")}</h2>
+        <div className="table-border-top">
+          {!eModeHash && !isError && (
+            <div className="flex flex-col gap-6 mt-6">
+              <p className="text-sm text-left">{t("LendingEModeDescription")}</p>
+              <div className="flex flex-col gap-2">
+                {options.map(option => (
+                  <label
+                    key={option.id}
+                    className={`flex flex-col gap-1 p-3 border rounded-lg cursor-pointer ${
+                      selectedCategoryId === option.id ? "border-primary" : "border-gray-200"
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="emode-category"
+                        className="radio radio-primary radio-sm"
+                        checked={selectedCategoryId === option.id}
+                        onChange={() => setSelectedCategoryId(option.id)}
+                      />
+                      <span className="font-semibold">{option.label}</span>
+                      {option.id === userCategoryId && (
+                        <span className="text-xs text-success">{t("LendingEModeCurrent")}</span>
+                      )}
+                    </div>
+                    {option.id !== 0 && (
+                      <div className="flex flex-wrap gap-x-4 text-xs text-gray-500">
+                        <span>
+                          {t("LendingEModeMaxLTV")}: {formatBps(option.ltv)}
+                        </span>
+                        <span>
+                          {t("LendingEModeLiquidationThreshold")}: {formatBps(option.liquidationThreshold)}
+                        </span>
+                        <span>
+                          {t("LendingEModeLiquidationPenalty")}: {formatBps(option.liquidationBonus - 10000)}
+                        </span>
+                      </div>
+                    )}
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-between text-sm">
+                <span>{t("LendingProfileHealthFactor")}</span>
+                <span className={isLiquidatable ? "text-error font-bold" : "font-bold"}>
+                  {formatHealthFactor(currentHealthFactor)} → {formatHealthFactor(projectedHealthFactor)}
+                </span>
+              </div>
+              {blockingAssets.length > 0 && (
+                <div className="warning-container text-left">
+                  <p className="text-sm">
+                    {t("LendingEModeBlockingAssets")}: {blockingAssets.map(getSymbol).join(", ")}
+                  </p>
+                </div>
+              )}
+              {isLiquidatable && <p className="text-error text-xs">{t("LendingEModeLiquidationWarning")}</p>}
+              {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
+              <div className="flex gap-4">
+                <button
+                  onClick={() => handleSetUserEMode(selectedCategoryId)}
+                  className="primary-btn flex-grow-2 basis-2/3"
+                  disabled={!canSwitch || isPending || isWrongNetwork}
+                >
+                  {selectedCategoryId === 0 ? t("LendingEModeDisable") : t("LendingEModeSwitch")}
+                </button>
+                <button onClick={onClose} className="secondary-btn flex-grow-1 basis-1/3">
+                  {t("LendingEModeCancel")}
+                </button>
+              </div>
+            </div>
+          )}
+          {isError && (
+            <div className="flex flex-col gap-6 mt-6">
+              <div className="error-container text-center">
+                <Image
+                  src="/Open Doodles - Messy.svg"
+                  alt="Error"
+                  className="max-w-60 mx-auto mb-4"
+                  width={250}
+                  height={250}
+                />
+                <p className="text-xs sm:text-sm">Oops! Something went wrong.</p>
+                <p className="text-error text-xs">{getParsedError(error, t)}</p>
+              </div>
+              <button onClick={onClose} className="primary-btn text-xs sm:text-sm">
+                {t("LendingSupplyModalClose")}
+              </button>
+            </div>
+          )}
+          {eModeHash && (
+            <div className="flex flex-col gap-6 mt-6">
+              <div className="success-container text-center">
+                <Image
+                  src="/Open Doodles - Meditating.svg"
+                  alt="Meditating"
+                  className="max-w-60 mx-auto mb-4"
+                  width={250}
+                  height={250}
+                />
+                <h2 className="text-base sm:text-lg">All done!</h2>
+                <p className="text-xs sm:text-sm">{t("LendingEModeSuccess")}</p>
+                <div className="pb-3"></div>
+                <a
+                  href={getBlockExplorerTxLink(market.chainId, eModeHash)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block link pb-3"
+                >
+                  Open in Block Explorer
+                </a>
+              </div>
+              <button onClick={onClose} className="primary-btn text-xs sm:text-sm">
+                Ok, close
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EModeModal;
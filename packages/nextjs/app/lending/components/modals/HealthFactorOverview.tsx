@@ -0,0 +1,56 @@
+import React from "react";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { HEALTH_FACTOR_MARGINS, HEALTH_FACTOR_ONE, formatHealthFactor } from "~~/utils/lendingMath";
+
+interface HealthFactorOverviewProps {
+  currentHealthFactor: bigint | null | undefined;
+  projectedHealthFactor: bigint | null | undefined;
+  safetyMargin: string;
+  onSafetyMarginChange: (safetyMargin: string) => void;
+}
+
+/**
+ * Shows the health factor before and after an action and lets the user pick the safety margin of the max button.
+ * @param {bigint | null | undefined} currentHealthFactor - The current health factor, null without debt.
+ * @param {bigint | null | undefined} projectedHealthFactor - The health factor after the action, undefined without amount.
+ * @param {string} safetyMargin - The selected safety margin.
+ * @param {function} onSafetyMarginChange - Function called with the new safety margin.
+ */
+const HealthFactorOverview: React.FC<HealthFactorOverviewProps> = ({
+  currentHealthFactor,
+  projectedHealthFactor,
+  safetyMargin,
+  onSafetyMarginChange,
+}) => {
+  const { t } = useTranslation();
+  const isLiquidatable = typeof projectedHealthFactor === "bigint" && projectedHealthFactor < HEALTH_FACTOR_ONE;
+
+  return (
+    <>
+      <div className="flex justify-between items-center text-sm">
+        <span>{t("LendingProfileHealthFactor")}</span>
+        <span className={`font-bold ${isLiquidatable ? "text-error" : ""}`}>
+          {formatHealthFactor(currentHealthFactor)}
+          {projectedHealthFactor !== undefined && ` → ${formatHealthFactor(projectedHealthFactor)}`}
+        </span>
+      </div>
+      <div className="flex justify-between items-center text-sm">
+        <span>{t("LendingSafetyMargin")}</span>
+        <select
+          className="select select-bordered select-xs"
+          value={safetyMargin}
+          onChange={event => onSafetyMarginChange(event.target.value)}
+        >
+          {HEALTH_FACTOR_MARGINS.map(margin => (
+            <option key={margin} value={margin}>
+              {margin}
+            </option>
+          ))}
+        </select>
+      </div>
+      {isLiquidatable && <p className="text-error text-xs">{t("LendingLiquidationWarning")}</p>}
+    </>
+  );
+};
+
+export default HealthFactorOverview;
@@ -0,0 +1,343 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useApproval } from "@/hooks/useApproval";
+import useGetUserReservesData from "@/hooks/useGetUserReservesData";
+import { LendingLiquidationCandidate } from "@/hooks/useLendingLiquidations";
+import useLiquidationCall from "@/hooks/useLiquidationCall";
+import useReserveConfigurations from "@/hooks/useReserveConfigurations";
+import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { Address, formatUnits, parseUnits } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
+import { formatHealthFactor, getLiquidationCloseFactor, quoteLiquidation } from "~~/utils/lendingMath";
+import { RAY } from "~~/utils/rateMath";
+import { getBlockExplorerTxLink, getParsedError } from "~~/utils/scaffold-eth";
+
+interface LiquidationCallModalProps {
+  candidate: LendingLiquidationCandidate;
+  onClose: () => void;
+}
+
+/**
+ * Formats an amount of a reserve with up to six decimals.
+ * @param {bigint} amount - The amount in the asset units.
+ * @param {number} decimals - The asset decimals.
+ * @returns {string} - The formatted amount.
+ */
+const formatAmount = (amount: bigint, decimals: number) => parseFloat(Number(formatUnits(amount, decimals)).toFixed(6));
+
+/**
+ * Modal to liquidate a borrower: pick the debt to repay and the collateral to receive, then call liquidationCall.
+ * @param {LendingLiquidationCandidate} candidate - The borrower to liquidate.
+ * @param {function} onClose - Function to close the modal.
+ */
+const LiquidationCallModal: React.FC<LiquidationCallModalProps> = ({ candidate, onClose }) => {
+  const { t } = useTranslation();
+  const { market, isWrongNetwork } = useLendingMarket();
+  const { reservesData } = useReserves();
+  const { userReservesData } = useGetUserReservesData(candidate.user);
+  const { reserveStates } = useReserveConfigurations();
+  const { handleLiquidationCall, isError, error, liquidationHash, isPending } = useLiquidationCall();
+
+  const [debtAsset, setDebtAsset] = useState<Address>();
+  const [collateralAsset, setCollateralAsset] = useState<Address>();
+  const [amount, setAmount] = useState("");
+  const [receiveAToken, setReceiveAToken] = useState(false);
+  const [isApproved, setIsApproved] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [showSuccessIcon, setShowSuccessIcon] = useState(false);
+
+  // Debts and collaterals of the borrower with their current balances
+  const { debts, collaterals } = useMemo(() => {
+    const positions = (userReservesData ?? []).flatMap(userReserve => {
+      const reserve = reservesData?.find(({ underlyingAsset }) => underlyingAsset === userReserve.underlyingAsset);
+      return reserve ? [{ reserve, userReserve }] : [];
+    });
+    return {
+      debts: positions
+        .map(({ reserve, userReserve }) => ({
+          reserve,
+          balance:
+            (userReserve.scaledVariableDebt * reserve.variableBorrowIndex) / RAY + userReserve.principalStableDebt,
+        }))
+        .filter(({ balance }) => balance > 0n),
+      collaterals: positions
+        .filter(({ userReserve }) => userReserve.usageAsCollateralEnabledOnUser)
+        .map(({ reserve, userReserve }) => ({
+          reserve,
+          balance: (userReserve.scaledATokenBalance * reserve.liquidityIndex) / RAY,
+        }))
+        .filter(({ balance }) => balance > 0n),
+    };
+  }, [reservesData, userReservesData]);
+
+  const debt = debts.find(({ reserve }) => reserve.underlyingAsset === debtAsset) ?? debts[0];
+  const collateral = collaterals.find(({ reserve }) => reserve.underlyingAsset === collateralAsset) ?? collaterals[0];
+  const debtDecimals = Number(debt?.reserve.decimals ?? 18);
+
+  const closeFactor = getLiquidationCloseFactor(candidate.healthFactor);
+  const maxDebtToCover = debt ? (debt.balance * closeFactor) / 10_000n : 0n;
+
+  const parsedAmount = useMemo(() => {
+    if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) return undefined;
+    try {
+      return parseUnits(amount, debtDecimals);
+    } catch {
+      return undefined;
+    }
+  }, [amount, debtDecimals]);
+
+  const quote =
+    debt && collateral && parsedAmount !== undefined
+      ? quoteLiquidation(
+          parsedAmount,
+          { priceInMarketReferenceCurrency: debt.reserve.priceInMarketReferenceCurrency, decimals: debtDecimals },
+          {
+            priceInMarketReferenceCurrency: collateral.reserve.priceInMarketReferenceCurrency,
+            decimals: Number(collateral.reserve.decimals),
+          },
+          collateral.balance,
+          collateral.reserve.reserveLiquidationBonus,
+          BigInt(reserveStates[collateral.reserve.underlyingAsset]?.configuration.liquidationProtocolFee ?? 0),
+        )
+      : undefined;
+
+  const {
+    approve,
+    isSuccess: approveSuccess,
+    isPending: approvePending,
+  } = useApproval(market.POOL, debt?.reserve.underlyingAsset as Address, market.chainId);
+
+  useEffect(() => {
+    if (approveSuccess) {
+      setIsApproved(true); // Mark as approved if the transaction is successful
+    }
+  }, [approveSuccess]);
+
+  useEffect(() => {
+    if (isError) {
+      setErrorMessage(getParsedError(error, t));
+    }
+  }, [isError, error, t]);
+
+  const isValid = parsedAmount !== undefined && parsedAmount <= maxDebtToCover && !!collateral;
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    setIsApproved(false); // A new amount needs a new approval
+  };
+
+  /**
+   * Handles the click event for the approve button, approving the Pool to pull the debt asset.
+   */
+  const handleApproveClick = () => {
+    let adjustedAmount = amount;
+
+    // Adjust the amount if decimals are less than 18
+    if (debtDecimals < 18) {
+      const factor = Math.pow(10, 18 - debtDecimals);
+      adjustedAmount = (parseFloat(amount) / factor).toFixed(18); // Convert to a format compatible with parseEther
+    }
+    approve(adjustedAmount);
+  };
+
+  const handleLiquidateClick = () => {
+    if (!debt || !collateral || parsedAmount === undefined) return;
+    handleLiquidationCall(
+      collateral.reserve.underlyingAsset,
+      debt.reserve.underlyingAsset,
+      candidate.user,
+      parsedAmount,
+      receiveAToken,
+    );
+  };
+
+  const handleCopyError = () => {
+    if (error?.message) {
+      navigator.clipboard
+        .writeText(error.message)
+        .then(() => {
+          setShowSuccessIcon(true);
+          setTimeout(() => {
+            setShowSuccessIcon(false);
+          }, 1500);
+        })
+        .catch(err => {
+          console.error("Failed to copy error to clipboard", err);
+        });
+    }
+  };
+
+  return (
+    <div className="modal-blur-background">
+      <div className="modal-container general-text-color flex flex-col gap-6">
+        <h2 className="text-left">{t("LendingLiquidationsModalTitle")}</h2>
+        <div className="table-border-top">
+          {!liquidationHash && !isError && (
+            <div className="flex flex-col gap-6 mt-6">
+              <div className="container-gray-borders flex flex-col gap-2">
+                <div className="flex justify-between items-center text-sm">
+                  <span>{t("LendingProfileHealthFactor")}</span>
+                  <span className="font-bold text-error">{formatHealthFactor(candidate.healthFactor)}</span>
+                </div>
+                <div className="flex justify-between items-center text-sm">
+                  <span>{t("LendingLiquidationsDebtAsset")}</span>
+                  <select
+                    className="select select-bordered select-xs"
+                    value={debt?.reserve.underlyingAsset ?? ""}
+                    onChange={event => {
+                      setDebtAsset(event.target.value as Address);
+                      handleAmountChange("");
+                    }}
+                  >
+                    {debts.map(({ reserve }) => (
+                      <option key={reserve.underlyingAsset} value={reserve.underlyingAsset}>
+                        {reserve.symbol}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex justify-between items-center text-sm">
+                  <span>{t("LendingLiquidationsCollateralAsset")}</span>
+                  <select
+                    className="select select-bordered select-xs"
+                    value={collateral?.reserve.underlyingAsset ?? ""}
+                    onChange={event => setCollateralAsset(event.target.value as Address)}
+                  >
+                    {collaterals.map(({ reserve, balance }) => (
+                      <option key={reserve.underlyingAsset} value={reserve.underlyingAsset}>
+                        {reserve.symbol} ({formatAmount(balance, Number(reserve.decimals))})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="container-gray-borders flex flex-col gap-2">
+                <label className="font-bold">{t("LendingLiquidationsDebtToCover")}</label>
+                <div className="flex items-center">
+                  <input
+                    type="number"
+                    className="without-borders"
+                    placeholder="0.00"
+                    value={amount}
+                    onChange={event => handleAmountChange(event.target.value)}
+                  />
+                  <span className="font-bold">{debt?.reserve.symbol}</span>
+                </div>
+                <div className="text-xs">
+                  {t("LendingLiquidationsMaxDebt")} ({Number(closeFactor) / 100}%):{" "}
+                  {formatAmount(maxDebtToCover, debtDecimals)}{" "}
+                  <span
+                    className="font-bold hover:underline cursor-pointer"
+                    onClick={() => handleAmountChange(formatUnits(maxDebtToCover, debtDecimals))}
+                  >
+                    MAX
+                  </span>
+                </div>
+                {parsedAmount !== undefined && parsedAmount > maxDebtToCover && (
+                  <p className="text-error text-xs">{t("LendingLiquidationsAboveCloseFactor")}</p>
+                )}
+              </div>
+              {quote && collateral && (
+                <div className="container-gray-borders flex flex-col gap-2">
+                  <label className="font-bold">{t("LendingBorrowModalTransactionOverview")}</label>
+                  <div className="flex justify-between items-center text-sm">
+                    <span>{t("LendingLiquidationsCollateralReceived")}</span>
+                    <span className="font-bold">
+                      {formatAmount(quote.liquidatorAmount, Number(collateral.reserve.decimals))}{" "}
+                      {receiveAToken ? `a${collateral.reserve.symbol}` : collateral.reserve.symbol}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center text-sm">
+                    <span>{t("LendingLiquidationsBonus")}</span>
+                    <span className="font-bold">
+                      {formatAmount(quote.bonusAmount, Number(collateral.reserve.decimals))} {collateral.reserve.symbol}
+                    </span>
+                  </div>
+                  {parsedAmount !== undefined && quote.debtToCover < parsedAmount && (
+                    <p className="text-xs text-gray-500">
+                      {t("LendingLiquidationsCollateralLimited")} {formatAmount(quote.debtToCover, debtDecimals)}{" "}
+                      {debt?.reserve.symbol}
+                    </p>
+                  )}
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={receiveAToken}
+                      onChange={event => setReceiveAToken(event.target.checked)}
+                    />
+                    {t("LendingLiquidationsReceiveAToken")}
+                  </label>
+                </div>
+              )}
+              {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
+              <div className="flex justify-between gap-4">
+                <button
+                  className={`flex-grow-2 basis-2/3 ${
+                    isValid && !isApproved && !isWrongNetwork ? "primary-btn" : "disabled-btn"
+                  }`}
+                  onClick={handleApproveClick}
+                  disabled={!isValid || approvePending || isApproved || isWrongNetwork}
+                >
+                  {t("LendingRepayModalApprove")}
+                </button>
+                <button
+                  className={`flex-grow-2 basis-2/3 ${
+                    isValid && isApproved && !isPending && !isWrongNetwork ? "primary-btn" : "disabled-btn"
+                  }`}
+                  onClick={handleLiquidateClick}
+                  disabled={!isValid || !isApproved || isPending || isWrongNetwork}
+                >
+                  {t("LendingLiquidationsButton")}
+                </button>
+                <button onClick={onClose} className="secondary-btn flex-grow-1 basis-1/3">
+                  {t("LendingBorrowModalClose")}
+                </button>
+              </div>
+            </div>
+          )}
+          {isError && (
+            <div className="flex flex-col gap-6 mt-6">
+              <div className="error-container">
+                <p>
+                  {t("LendingBorrowModalCancelMessage")}{" "}
+                  <span onClick={handleCopyError} className="cursor-pointer underline">
+                    {t("LendingBorrowModalCopyMessage")}
+                  </span>
+                  {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
+                </p>
+                {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
+              </div>
+              <button onClick={onClose} className="primary-btn">
+                {t("LendingBorrowModalClose")}
+              </button>
+            </div>
+          )}
+          {liquidationHash && (
+            <div className="flex flex-col gap-6 mt-6">
+              <div className="success-container text-center">
+                <h2>{t("LendingBorrowModalSuccessTitle")}</h2>
+                <p>{t("LendingLiquidationsSuccess")}</p>
+                <a
+                  href={getBlockExplorerTxLink(market.chainId, liquidationHash)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block link pt-3"
+                >
+                  Open in Block Explorer
+                </a>
+              </div>
+              <button onClick={onClose} className="primary-btn">
+                {t("LendingBorrowModalClose")}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiquidationCallModal;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from "react";
+import useSwapBorrowRateMode from "@/hooks/useSwapBorrowRateMode";
+import { ReserveData } from "@/types/types";
+import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { INTEREST_RATE_MODE, InterestRateMode } from "~~/utils/lendingMath";
+import { formatApy } from "~~/utils/rateMath";
+import { getBlockExplorerTxLink, getParsedError } from "~~/utils/scaffold-eth";
+
+interface RateModeModalProps {
+  reserve: ReserveData;
+  currentRateMode: InterestRateMode;
+  currentRate: bigint; // In ray
+  onClose: () => void;
+}
+
+/**
+ * Modal to switch a debt between the stable and variable rates.
+ * @param {ReserveData} reserve - The reserve of the debt.
+ * @param {InterestRateMode} currentRateMode - The rate mode of the debt.
+ * @param {bigint} currentRate - The rate currently paid by the debt, in ray.
+ * @param {function} onClose - Function to close the modal.
+ */
+const RateModeModal: React.FC<RateModeModalProps> = ({ reserve, currentRateMode, currentRate, onClose }) => {
+  const { t } = useTranslation();
+  const { market, isWrongNetwork } = useLendingMarket();
+  const { handleSwapBorrowRateMode, isError, error, swapHash, isPending } = useSwapBorrowRateMode();
+  const [errorMessage, setErrorMessage] = useState("");
+  const [showSuccessIcon, setShowSuccessIcon] = useState(false);
+
+  const toStable = currentRateMode === INTEREST_RATE_MODE.variable;
+  // Stable debt switches to the market variable rate, variable debt to the current stable rate
+  const newRate = toStable ? reserve.stableBorrowRate : reserve.variableBorrowRate;
+  const canSwitch = !toStable || reserve.stableBorrowRateEnabled;
+
+  useEffect(() => {
+    if (isError) {
+      setErrorMessage(getParsedError(error, t));
+    }
+  }, [isError, error, t]);
+
+  const handleCopyError = () => {
+    if (error?.message) {
+      navigator.clipboard
+        .writeText(error.message)
+        .then(() => {
+          setShowSuccessIcon(true);
+          setTimeout(() => {
+            setShowSuccessIcon(false);
+          }, 1500);
+        })
+        .catch(err => {
+          console.error("Failed to copy error to clipboard", err);
+        });
+    }
+  };
+
+  return (
+    <div className="modal-blur-background">
+      <div className="modal-container general-text-color flex flex-col gap-6">
+        <h2 className="text-left">
+          {t("LendingRateModeTitle")} {reserve.symbol}
+        </h2>
+        <div className="table-border-top">
+          {!swapHash && !isError && (
+            <div className="flex flex-col gap-6 mt-6">
+              <div className="container-gray-borders flex flex-col gap-2">
+                <div className="flex justify-between items-center text-sm">
+                  <span>{t("LendingYourBorrowsColumn4")}</span>
+                  <span className="font-bold">
+                    {t(toStable ? "LendingRateVariable" : "LendingRateStable")} →{" "}
+                    {t(toStable ? "LendingRateStable" : "LendingRateVariable")}
+                  </span>
+                </div>
+                <div className="flex justify-between items-center text-sm">
+                  <span>{t("LendingBorrowModalTransactionBorrowAPY")}</span>
+                  <span className="font-bold">
+                    {formatApy(currentRate)} → {formatApy(newRate)}
+                  </span>
+                </div>
+              </div>
+              <div className="warning-container text-left text-sm">
+                <p>{canSwitch ? t("LendingRateModeWarning") : t("AaveError_31")}</p>
+              </div>
+              {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
+              <div className="flex gap-4">
+                <button
+                  onClick={() => handleSwapBorrowRateMode(reserve.underlyingAsset, currentRateMode)}
+                  className={`flex-grow-2 basis-2/3 ${
+                    canSwitch && !isPending && !isWrongNetwork ? "primary-btn" : "disabled-btn"
+                  }`}
+                  disabled={!canSwitch || isPending || isWrongNetwork}
+                >
+                  {t("LendingRateModeButton")}
+                </button>
+                <button onClick={onClose} className="secondary-btn flex-grow-1 basis-1/3">
+                  {t("LendingBorrowModalClose")}
+                </button>
+              </div>
+            </div>
+          )}
+          {isError && (
+            <div className="flex flex-col gap-6 mt-6">
+              <div className="error-container">
+                <p>
+                  {t("LendingBorrowModalCancelMessage")}{" "}
+                  <span onClick={handleCopyError} className="cursor-pointer underline">
+                    {t("LendingBorrowModalCopyMessage")}
+                  </span>
+                  {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
+                </p>
+                {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
+              </div>
+              <button onClick={onClose} className="primary-btn">
+                {t("LendingBorrowModalClose")}
+              </button>
+            </div>
+          )}
+          {swapHash && (
+            <div className="flex flex-col gap-6 mt-6">
+              <div className="success-container text-center">
+                <h2>{t("LendingBorrowModalSuccessTitle")}</h2>
+                <p>{t("LendingRateModeSuccess")}</p>
+                <a
+                  href={getBlockExplorerTxLink(market.chainId, swapHash)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block link pt-3"
+                >
+                  Open in Block Explorer
+                </a>
+              </div>
+              <button onClick={onClose} className="primary-btn">
+                {t("LendingBorrowModalClose")}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RateModeModal;
@@ -1,22 +1,34 @@
 import React, { useEffect, useState } from "react";
 import Image from "next/image";
-import CONFIG from "@/config";
 import useAccountAddress from "@/hooks/useAccount";
 import { useApproval } from "@/hooks/useApproval";
+import usePermit from "@/hooks/usePermit";
 import { ReserveData } from "@/types/types";
 import { toWeiConverter } from "@/utils/toWeiConverter";
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { Address } from "viem";
+import { Address, formatUnits } from "viem";
 import { useChainId } from "wagmi";
 import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
 import useRepay from "~~/hooks/useRepay";
+import { INTEREST_RATE_MODE, InterestRateMode } from "~~/utils/lendingMath";
+import { getParsedError } from "~~/utils/scaffold-eth";
+
+const RAY = 10n ** 27n;
+
+/**
+ * Where the repaid funds come from: the wallet or the aTokens supplied in the same asset.
+ */
+type RepaySource = "wallet" | "aTokens";
 
 interface ModalProps {
   isOpen: boolean;
   onClose: () => void;
   reserve: ReserveData | null;
   balance: string;
+  interestRateMode?: InterestRateMode;
 }
 
 /**
@@ -25,11 +37,19 @@ interface ModalProps {
  * @param {() => void} onClose - Function to call when the modal is closed.
  * @param {ReserveData | null} reserve - The reserve data to repay.
  * @param {string} balance - The user's debt balance as a string.
+ * @param {InterestRateMode} [interestRateMode=2] - The rate mode of the debt to repay.
  * @returns {JSX.Element | null} - The modal component or null if not open.
  */
-const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve, balance }) => {
+const RepayTransactionModal: React.FC<ModalProps> = ({
+  isOpen,
+  onClose,
+  reserve,
+  balance,
+  interestRateMode = INTEREST_RATE_MODE.variable,
+}) => {
   // Translation context
   const { t } = useTranslation();
+  const { market, isWrongNetwork } = useLendingMarket();
   const [amount, setAmount] = useState("");
   const [isValid, setIsValid] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
@@ -37,18 +57,37 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
   const [isError, setIsError] = useState(false);
   const [showSuccessIcon, setShowSuccessIcon] = useState(false);
   const [isApproved, setIsApproved] = useState(false); // State to handle approval
+  const [repaySource, setRepaySource] = useState<RepaySource>("wallet");
 
   const chainId = useChainId();
 
-  const { handleRepay, isError: repayError, error, repayHash } = useRepay();
+  const {
+    handleRepay,
+    handleRepayWithPermit,
+    handleRepayWithATokens,
+    isError: repayError,
+    error,
+    repayHash,
+  } = useRepay();
   const { address: walletAddress } = useAccountAddress();
+  const { userReservesData } = useReserves();
+  // Tokens with EIP-2612 permit are approved by a signature in the repay transaction itself
+  const { supportsPermit, signPermit, isSigning } = usePermit(reserve?.underlyingAsset as Address | undefined);
+
+  const userReserve = userReservesData?.find(({ underlyingAsset }) => underlyingAsset === reserve?.underlyingAsset);
+  const suppliedBalance =
+    reserve && userReserve
+      ? formatUnits((userReserve.scaledATokenBalance * reserve.liquidityIndex) / RAY, Number(reserve.decimals))
+      : "0";
+  const withATokens = repaySource === "aTokens";
+  const needsApproval = !withATokens && !supportsPermit;
 
   const {
     approve,
     isError: approveError,
     isSuccess: approveSuccess,
     isPending: approvePending,
-  } = useApproval(CONFIG.POOL, reserve?.underlyingAsset as Address); // Using the useApproval hook
+  } = useApproval(market.POOL, reserve?.underlyingAsset as Address, market.chainId); // Using the useApproval hook
 
   const getBlockExplorerUrl = (chainId: number): string => {
     switch (chainId) {
@@ -67,7 +106,7 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
   useEffect(() => {
     validateAmount(amount);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [amount]);
+  }, [amount, repaySource]);
 
   useEffect(() => {
     if (approveSuccess) {
@@ -78,12 +117,12 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
   useEffect(() => {
     if (repayError) {
       setIsError(true);
-      setErrorMessage(error?.message || "An unknown error occurred.");
+      setErrorMessage(getParsedError(error, t));
     }
     if (repayHash) {
       setData(repayHash);
     }
-  }, [repayError, repayHash, error]);
+  }, [repayError, repayHash, error, t]);
 
   /**
    * Validates the entered amount for repayment.
@@ -97,6 +136,9 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
     } else if (numValue > parseFloat(balance)) {
       setIsValid(false);
       setErrorMessage("Amount exceeds wallet balance.");
+    } else if (withATokens && numValue > parseFloat(suppliedBalance)) {
+      setIsValid(false);
+      setErrorMessage("Amount exceeds your supplied balance.");
     } else if (numValue === 0) {
       setIsValid(false);
       setErrorMessage("Amount must be greater than zero.");
@@ -118,7 +160,7 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
    * Sets the amount to the maximum available balance.
    */
   const handleMaxClick = () => {
-    setAmount(balance);
+    setAmount(withATokens && parseFloat(suppliedBalance) < parseFloat(balance) ? suppliedBalance : balance);
   };
 
   /**
@@ -144,11 +186,25 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
    * @throws Will throw an error if there is an issue converting the amount to BigInt.
    */
   const handleRepayClick = () => {
-    if (walletAddress && isApproved) {
+    if (walletAddress && (isApproved || !needsApproval)) {
       try {
         const decimals = Number(reserve?.decimals); // Convert to number if it's `bigint`
         const amountInWei = toWeiConverter(parseFloat(amount), decimals);
-        handleRepay(reserve?.underlyingAsset as Address, amountInWei, 2, walletAddress as Address);
+        const asset = reserve?.underlyingAsset as Address;
+        if (withATokens) {
+          handleRepayWithATokens(asset, amountInWei, interestRateMode);
+        } else if (supportsPermit) {
+          signPermit(amountInWei)
+            .then(permit =>
+              handleRepayWithPermit(asset, amountInWei, interestRateMode, walletAddress as Address, permit),
+            )
+            .catch(err => {
+              setIsError(true);
+              setErrorMessage(getParsedError(err, t));
+            });
+        } else {
+          handleRepay(asset, amountInWei, interestRateMode, walletAddress as Address);
+        }
       } catch (err) {
         console.error("Error converting amount to BigInt:", err);
       }
@@ -187,6 +243,7 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
     setData(null);
     setIsError(false);
     setIsApproved(false); // Reset approval state on close
+    setRepaySource("wallet");
     onClose();
   };
 
@@ -224,18 +281,51 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
                 {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
               </div>
 
+              {parseFloat(suppliedBalance) > 0 && (
+                <div className="container-gray-borders flex flex-col gap-2">
+                  <label className="font-bold">{t("LendingRepayWith")}</label>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="radio"
+                      className="radio radio-sm"
+                      checked={!withATokens}
+                      onChange={() => setRepaySource("wallet")}
+                    />
+                    {t("LendingRepayWithWallet")}
+                  </label>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="radio"
+                      className="radio radio-sm"
+                      checked={withATokens}
+                      onChange={() => setRepaySource("aTokens")}
+                    />
+                    {t("LendingRepayWithSupplied")}: {suppliedBalance} {reserve.symbol}
+                  </label>
+                </div>
+              )}
+              {!withATokens && supportsPermit && <p className="text-xs text-gray-500">{t("LendingPermitNote")}</p>}
+              {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
               <div className="flex justify-between gap-4">
+                {needsApproval && (
+                  <button
+                    className={`flex-grow-2 basis-2/3 ${
+                      isValid && !isApproved && !isWrongNetwork ? "primary-btn" : "disabled-btn"
+                    }`}
+                    onClick={handleApproveClick}
+                    disabled={!isValid || approvePending || isApproved || isWrongNetwork} // Approve button disabled if already approved or pending
+                  >
+                    {t("LendingRepayModalApprove")}
+                  </button>
+                )}
                 <button
-                  className={`flex-grow-2 basis-2/3 ${isValid && !isApproved ? "primary-btn" : "disabled-btn"}`}
-                  onClick={handleApproveClick}
-                  disabled={!isValid || approvePending || isApproved} // Approve button disabled if already approved or pending
-                >
-                  {t("LendingRepayModalApprove")}
-                </button>
-                <button
-                  className={`flex-grow-2 basis-2/3 ${isApproved && isValid ? "primary-btn" : "disabled-btn"}`}
+                  className={`flex-grow-2 basis-2/3 ${
+                    (isApproved || !needsApproval) && isValid && !isSigning && !isWrongNetwork
+                      ? "primary-btn"
+                      : "disabled-btn"
+                  }`}
                   onClick={handleRepayClick}
-                  disabled={!isApproved || !isValid} // Repay button enabled only if approved
+                  disabled={(!isApproved && needsApproval) || !isValid || isSigning || isWrongNetwork} // Repay button enabled once approved, with permit or with aTokens
                 >
                   {t("LendingRepayModalButton")}
                 </button>
@@ -306,6 +396,7 @@ const RepayTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve,
                   Woops, you encountered an error.
                   {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
                 </p>
+                {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
                 <span onClick={handleCopyError} className="cursor-pointer underline font-bold text-lg">
                   Copy the error
                 </span>
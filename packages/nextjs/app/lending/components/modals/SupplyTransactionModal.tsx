@@ -1,16 +1,22 @@
 import React, { useEffect, useState } from "react";
 import Image from "next/image";
-import CONFIG from "@/config";
+import CapUsageBar from "../CapUsageBar";
 import useAccountAddress from "@/hooks/useAccount";
 import { useApproval } from "@/hooks/useApproval";
+import usePermit from "@/hooks/usePermit";
+import useReserveConfigurations from "@/hooks/useReserveConfigurations";
 import useSupply from "@/hooks/useSupply";
 import { ReserveData } from "@/types/types";
 import { toWeiConverter } from "@/utils/toWeiConverter";
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { Address } from "viem";
+import { Address, formatUnits } from "viem";
 import { useChainId } from "wagmi";
 import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { formatApy } from "~~/utils/rateMath";
+import { DEBT_CEILING_DECIMALS } from "~~/utils/reserveConfiguration";
+import { getParsedError } from "~~/utils/scaffold-eth";
 
 interface ModalProps {
   isOpen: boolean;
@@ -29,6 +35,7 @@ interface ModalProps {
  */
 const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve, balance }) => {
   const { t } = useTranslation();
+  const { market, isWrongNetwork } = useLendingMarket();
   const [amount, setAmount] = useState("");
   const [isValid, setIsValid] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
@@ -42,9 +49,18 @@ const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
     isError: approveError,
     isSuccess: approveSuccess,
     isPending: approvePending,
-  } = useApproval(CONFIG.POOL, reserve?.underlyingAsset as Address); // Using the useApproval hook
+  } = useApproval(market.POOL, reserve?.underlyingAsset as Address, market.chainId); // Using the useApproval hook
 
-  const { handleSupply, isError: supplyError, error, supplyHash } = useSupply();
+  const { handleSupply, handleSupplyWithPermit, isError: supplyError, error, supplyHash } = useSupply();
+  // Tokens with EIP-2612 permit are approved by a signature in the supply transaction itself
+  const { supportsPermit, signPermit, isSigning } = usePermit(reserve?.underlyingAsset as Address | undefined);
+  const { reserveStates } = useReserveConfigurations();
+  const reserveState = reserve ? reserveStates[reserve.underlyingAsset] : undefined;
+  const isIsolated = !!reserveState && reserveState.configuration.debtCeiling > 0n;
+  const supplyHeadroomAmount =
+    reserveState?.supplyHeadroom !== undefined
+      ? formatUnits(reserveState.supplyHeadroom, Number(reserve?.decimals ?? 18))
+      : undefined;
   const { address: walletAddress } = useAccountAddress();
 
   useEffect(() => {
@@ -61,12 +77,12 @@ const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
   useEffect(() => {
     if (supplyError) {
       setIsError(true);
-      setErrorMessage(error?.message || "An unknown error occurred.");
+      setErrorMessage(getParsedError(error, t));
     }
     if (supplyHash) {
       setData(supplyHash);
     }
-  }, [supplyError, supplyHash, error]);
+  }, [supplyError, supplyHash, error, t]);
 
   /**
    * Validates the entered amount for supply.
@@ -80,6 +96,9 @@ const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
     } else if (numValue > parseFloat(balance)) {
       setIsValid(false);
       setErrorMessage("Amount exceeds wallet balance.");
+    } else if (supplyHeadroomAmount !== undefined && numValue > parseFloat(supplyHeadroomAmount)) {
+      setIsValid(false);
+      setErrorMessage("Amount exceeds the remaining supply cap.");
     } else if (numValue === 0) {
       setIsValid(false);
       setErrorMessage("Amount must be greater than zero.");
@@ -101,7 +120,11 @@ const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
    * Sets the amount to the maximum available balance.
    */
   const handleMaxClick = () => {
-    setAmount(balance);
+    setAmount(
+      supplyHeadroomAmount !== undefined && parseFloat(supplyHeadroomAmount) < parseFloat(balance)
+        ? supplyHeadroomAmount
+        : balance,
+    );
   };
 
   /**
@@ -127,11 +150,27 @@ const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
    * @throws Will throw an error if there is an issue converting the amount to BigInt.
    */
   const handleSupplyClick = () => {
-    if (walletAddress && isApproved) {
+    if (walletAddress && (isApproved || supportsPermit)) {
       try {
         const decimals = Number(reserve?.decimals); // Convert to number if it's `bigint`
         const amountInWei = toWeiConverter(parseFloat(amount), decimals);
-        handleSupply(reserve?.underlyingAsset as Address, amountInWei, walletAddress as Address);
+        if (supportsPermit) {
+          signPermit(amountInWei)
+            .then(permit =>
+              handleSupplyWithPermit(
+                reserve?.underlyingAsset as Address,
+                amountInWei,
+                walletAddress as Address,
+                permit,
+              ),
+            )
+            .catch(err => {
+              setIsError(true);
+              setErrorMessage(getParsedError(err, t));
+            });
+        } else {
+          handleSupply(reserve?.underlyingAsset as Address, amountInWei, walletAddress as Address);
+        }
       } catch (err) {
         console.error("Error converting amount to BigInt:", err);
       }
@@ -224,7 +263,7 @@ const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
                 <label className="font-bold">{t("LendingSupplyModalTransactionOverview")}</label>
                 <div className="flex justify-between items-center text-sm">
                   <span>{t("LendingSupplyModalTransactionSupplyAPY")}</span>
-                  <span className="font-bold">{(Number(reserve.liquidityRate) / 1e25).toFixed(2)}%</span>
+                  <span className="font-bold">{formatApy(reserve.liquidityRate)}</span>
                 </div>
                 <div className="flex justify-between items-center text-sm">
                   <span>{t("LendingSupplyModalTransactionCollateral")}</span>
@@ -236,19 +275,53 @@ const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
                     {reserve.usageAsCollateralEnabled ? "Enabled" : "Disabled"}
                   </span>
                 </div>
+                {isIsolated && reserveState && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span>{t("LendingDebtCeiling")}</span>
+                    <span className="font-bold">
+                      ${formatUnits(reserveState.isolationModeTotalDebt, DEBT_CEILING_DECIMALS)} / $
+                      {formatUnits(reserveState.configuration.debtCeiling, DEBT_CEILING_DECIMALS)}
+                    </span>
+                  </div>
+                )}
+                {reserveState && reserveState.configuration.supplyCap > 0n && (
+                  <div className="flex flex-col gap-1 text-sm">
+                    <span>{t("LendingSupplyCap")}</span>
+                    <CapUsageBar
+                      used={reserveState.totalSupplied}
+                      cap={reserveState.configuration.supplyCap}
+                      decimals={reserveState.configuration.decimals}
+                    />
+                  </div>
+                )}
               </div>
+              {isIsolated && (
+                <div className="warning-container text-left text-sm">
+                  <p>{t("LendingIsolatedWarning")}</p>
+                </div>
+              )}
+              {supportsPermit && <p className="text-xs text-gray-500">{t("LendingPermitNote")}</p>}
+              {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
               <div className="flex justify-between gap-4">
+                {!supportsPermit && (
+                  <button
+                    className={`flex-grow-2 basis-2/3 ${
+                      isValid && !isApproved && !isWrongNetwork ? "primary-btn" : "disabled-btn"
+                    }`}
+                    onClick={handleApproveClick}
+                    disabled={!isValid || approvePending || isApproved || isWrongNetwork} // Approve button disabled if already approved or pending
+                  >
+                    {t("LendingSupplyModalApprove")}
+                  </button>
+                )}
                 <button
-                  className={`flex-grow-2 basis-2/3 ${isValid && !isApproved ? "primary-btn" : "disabled-btn"}`}
-                  onClick={handleApproveClick}
-                  disabled={!isValid || approvePending || isApproved} // Approve button disabled if already approved or pending
-                >
-                  {t("LendingSupplyModalApprove")}
-                </button>
-                <button
-                  className={`flex-grow-2 basis-2/3 ${isApproved && isValid ? "primary-btn" : "disabled-btn"}`}
+                  className={`flex-grow-2 basis-2/3 ${
+                    (isApproved || supportsPermit) && isValid && !isSigning && !isWrongNetwork
+                      ? "primary-btn"
+                      : "disabled-btn"
+                  }`}
                   onClick={handleSupplyClick}
-                  disabled={!isApproved || !isValid} // Supply button enabled only if approved
+                  disabled={(!isApproved && !supportsPermit) || !isValid || isSigning || isWrongNetwork} // Supply button enabled once approved or with permit
                 >
                   {t("LendingSupplyModalButton")}
                 </button>
@@ -319,6 +392,7 @@ const SupplyTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve
                   Woops, you encountered an error.
                   {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
                 </p>
+                {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
                 <span onClick={handleCopyError} className="cursor-pointer underline font-bold text-lg">
                   Copy the error
                 </span>
@@ -1,6 +1,8 @@
 import React, { useEffect, useState } from "react";
 import Image from "next/image";
+import HealthFactorOverview from "./HealthFactorOverview";
 import useAccountAddress from "@/hooks/useAccount";
+import useLendingSimulation from "@/hooks/useLendingSimulation";
 import { ReserveData } from "@/types/types";
 import { toWeiConverter } from "@/utils/toWeiConverter";
 import { faClipboardCheck } from "@fortawesome/free-solid-svg-icons";
@@ -8,7 +10,10 @@ import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { Address } from "viem";
 import { useChainId } from "wagmi";
 import { useTranslation } from "~~/app/context/LanguageContext";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 import useWithdraw from "~~/hooks/useWithdraw";
+import { HEALTH_FACTOR_MARGINS, HEALTH_FACTOR_ONE } from "~~/utils/lendingMath";
+import { getParsedError } from "~~/utils/scaffold-eth";
 
 interface ModalProps {
   isOpen: boolean;
@@ -27,17 +32,26 @@ interface ModalProps {
  */
 const WithdrawTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reserve, balance }) => {
   const { t } = useTranslation();
+  const { isWrongNetwork } = useLendingMarket();
   const [amount, setAmount] = useState("");
   const [isValid, setIsValid] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
   const [data, setData] = useState<any>(null);
   const [isError, setIsError] = useState(false);
   const [showSuccessIcon, setShowSuccessIcon] = useState(false);
+  const [safetyMargin, setSafetyMargin] = useState<string>(HEALTH_FACTOR_MARGINS[2]);
 
   const chainId = useChainId();
 
   const { handleWithdraw, isError: withdrawError, error, withdrawHash } = useWithdraw();
   const { address: walletAddress } = useAccountAddress();
+  // The max button keeps the health factor above the safety margin
+  const { currentHealthFactor, projectedHealthFactor, maxAmount } = useLendingSimulation(
+    reserve,
+    "withdraw",
+    amount,
+    safetyMargin,
+  );
 
   const getBlockExplorerUrl = (chainId: number): string => {
     switch (chainId) {
@@ -56,17 +70,17 @@ const WithdrawTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reser
   useEffect(() => {
     validateAmount(amount);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [amount]);
+  }, [amount, projectedHealthFactor]);
 
   useEffect(() => {
     if (withdrawError) {
       setIsError(true);
-      setErrorMessage(error?.message || "An unknown error occurred.");
+      setErrorMessage(getParsedError(error, t));
     }
     if (withdrawHash) {
       setData(withdrawHash);
     }
-  }, [withdrawError, withdrawHash, error]);
+  }, [withdrawError, withdrawHash, error, t]);
 
   const validateAmount = (value: string) => {
     const numValue = parseFloat(value);
@@ -79,6 +93,9 @@ const WithdrawTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reser
     } else if (numValue === 0) {
       setIsValid(false);
       setErrorMessage("Amount must be greater than zero.");
+    } else if (typeof projectedHealthFactor === "bigint" && projectedHealthFactor < HEALTH_FACTOR_ONE) {
+      setIsValid(false);
+      setErrorMessage("This withdrawal would put your health factor below 1.");
     } else {
       setIsValid(true);
       setErrorMessage("");
@@ -90,7 +107,7 @@ const WithdrawTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reser
   };
 
   const handleMaxClick = () => {
-    setAmount(balance);
+    setAmount(maxAmount !== undefined && parseFloat(maxAmount) < parseFloat(balance) ? maxAmount : balance);
   };
 
   const handleWithdrawClick = () => {
@@ -167,11 +184,21 @@ const WithdrawTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reser
                 {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
               </div>
 
+              <div className="container-gray-borders flex flex-col gap-2">
+                <HealthFactorOverview
+                  currentHealthFactor={currentHealthFactor}
+                  projectedHealthFactor={projectedHealthFactor}
+                  safetyMargin={safetyMargin}
+                  onSafetyMarginChange={setSafetyMargin}
+                />
+              </div>
+
+              {isWrongNetwork && <p className="text-error text-sm">{t("LendingMarketWrongNetwork")}</p>}
               <div className="flex justify-between gap-4">
                 <button
-                  className={`flex-grow-2 basis-2/3 ${isValid ? "primary-btn" : "disabled-btn"}`}
+                  className={`flex-grow-2 basis-2/3 ${isValid && !isWrongNetwork ? "primary-btn" : "disabled-btn"}`}
                   onClick={handleWithdrawClick}
-                  disabled={!isValid}
+                  disabled={!isValid || isWrongNetwork}
                 >
                   {t("LendingWithdrawModalButton")}
                 </button>
@@ -195,6 +222,7 @@ const WithdrawTransactionModal: React.FC<ModalProps> = ({ isOpen, onClose, reser
                   Oops! Something went wrong.{" "}
                   {showSuccessIcon && <FontAwesomeIcon icon={faClipboardCheck} className="text-lg ml-2" />}
                 </p>
+                {errorMessage && <p className="text-error text-xs">{errorMessage}</p>}
                 <span onClick={handleCopyError} className="cursor-pointer underline font-bold text-lg">
                   Copy the error.
                 </span>
@@ -0,0 +1,23 @@
+"use client";
+
+import React from "react";
+import { NextPage } from "next";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import FlashLoanBuilder from "~~/app/lending/components/FlashLoanBuilder";
+
+// Developer page building, simulating and sending flash loans of the lending Pool
+const LendingFlashLoan: NextPage = () => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex flex-col">
+      <div className="w-4/5 m-auto mt-4 bg-white p-6 rounded-2xl shadow-md">
+        <h2 className="text-xl text-primary font-semibold mb-4">{t("LendingFlashLoanTitle")}</h2>
+        <p className="text-gray-500 mb-4">{t("LendingFlashLoanDescription")}</p>
+        <FlashLoanBuilder />
+      </div>
+    </div>
+  );
+};
+
+export default LendingFlashLoan;
@@ -0,0 +1,13 @@
+import { LendingMarketProvider } from "~~/app/context/LendingMarketContext";
+import { ReservesProvider } from "~~/context/ReservesContext";
+
+// Every lending page reads and writes the market picked in the market selector, through its lending store
+const LendingLayout = ({ children }: { children: React.ReactNode }) => {
+  return (
+    <LendingMarketProvider>
+      <ReservesProvider>{children}</ReservesProvider>
+    </LendingMarketProvider>
+  );
+};
+
+export default LendingLayout;
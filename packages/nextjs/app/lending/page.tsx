@@ -4,6 +4,8 @@ import React, { useState } from "react";
 import { useTranslation } from "../context/LanguageContext";
 import AssetsToBorrow from "./components/AssetsToBorrow";
 import AssetsToSupply from "./components/AssetsToSupply";
+import EModeSelector from "./components/EModeSelector";
+import LendingHistory from "./components/LendingHistory";
 import LendingInfo from "./components/LendingInfo";
 import ProfileStats from "./components/ProfileStats";
 import YourBorrows from "./components/YourBorrows";
@@ -11,30 +13,32 @@ import YourSupplies from "./components/YourSupplies";
 import useAccountAddress from "@/hooks/useAccount";
 // Importa el hook de la dirección
 import useGetUserAccountData from "@/hooks/useGetUserAccountData";
+import useNetAPY from "@/hooks/useNetAPY";
 import { faChevronDown, faChevronUp } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useReserves } from "~~/context/ReservesContext";
 
 // Importa el hook de datos del usuario
 
+type LendingTab = "dashboard" | "history";
+
 const Lending = () => {
   const { t } = useTranslation();
+  const [activeTab, setActiveTab] = useState<LendingTab>("dashboard");
   const [isYourSuppliesVisible, setIsYourSuppliesVisible] = useState(true);
   const [isAssetsToSupplyVisible, setIsAssetsToSupplyVisible] = useState(true);
   const [isYourBorrowsVissible, setIsYourBorrowsVissible] = useState(true);
   const [isAssetsToBorrowVisible, setIsAssetsToBorrowVisible] = useState(true);
 
   const [allBalancesZero, setAllBalancesZero] = useState(true);
-  const [refreshKey, setRefreshKey] = useState(0);
 
   const [suppliesTotalBalance, setSuppliesTotalBalance] = useState(0);
   const [borrowsTotalBalance, setBorrowsTotalBalance] = useState(0);
 
   const { address } = useAccountAddress(); // Obtén la dirección del usuario
   const { userAccountData, isLoading, isError } = useGetUserAccountData(address || ""); // Obtén los datos del usuario
-
-  const refreshComponents = () => {
-    setRefreshKey(prevKey => prevKey + 1);
-  };
+  const { netAPY } = useNetAPY();
+  const { refresh } = useReserves();
 
   // Calculate Net Worth balance
   const netWorth = suppliesTotalBalance - borrowsTotalBalance;
@@ -47,17 +51,35 @@ const Lending = () => {
         ) : isError ? (
           <div>Error loading data</div> // Mostrar un mensaje de error si hay un problema al obtener los datos
         ) : (
-          <ProfileStats
-            balance={netWorth}
-            netAPY={userAccountData?.ltv || 0} // Usa datos del hook de usuario para APY o cualquier otro campo relevante
-            healthFactor={userAccountData?.healthFactor || 0} // Usa datos del hook de usuario para el health factor
-          />
+          <div className="flex flex-col md:flex-row items-start md:items-end gap-4 md:gap-8">
+            <ProfileStats
+              balance={netWorth}
+              netAPY={netAPY}
+              healthFactor={userAccountData?.healthFactor || 0} // Usa datos del hook de usuario para el health factor
+            />
+            <EModeSelector />
+          </div>
         )}
-        <button onClick={refreshComponents} className="primary-btn h-fit w-fit">
+        <button onClick={refresh} className="primary-btn h-fit w-fit">
           {t("LendingRefreshButton")}
         </button>
       </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="tabs tabs-boxed w-fit bg-white">
+        <button
+          className={`tab ${activeTab === "dashboard" ? "tab-active" : ""}`}
+          onClick={() => setActiveTab("dashboard")}
+        >
+          {t("LendingTabDashboard")}
+        </button>
+        <button
+          className={`tab ${activeTab === "history" ? "tab-active" : ""}`}
+          onClick={() => setActiveTab("history")}
+        >
+          {t("LendingTabHistory")}
+        </button>
+      </div>
+      {activeTab === "history" && <LendingHistory />}
+      <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 ${activeTab === "dashboard" ? "" : "hidden"}`}>
         <div className="flex flex-col gap-4">
           {/* Your Supplies */}
           <div className="table-background rounded-xl p-8 flex flex-col">
@@ -77,11 +99,7 @@ const Lending = () => {
               </button>
             </div>
             {isYourSuppliesVisible && (
-              <YourSupplies
-                setAllBalancesZero={setAllBalancesZero}
-                setSuppliesTotalBalance={setSuppliesTotalBalance}
-                key={refreshKey}
-              />
+              <YourSupplies setAllBalancesZero={setAllBalancesZero} setSuppliesTotalBalance={setSuppliesTotalBalance} />
             )}
           </div>
 
@@ -105,7 +123,7 @@ const Lending = () => {
                 )}
               </button>
             </div>
-            {isAssetsToSupplyVisible && <AssetsToSupply key={refreshKey} />}
+            {isAssetsToSupplyVisible && <AssetsToSupply />}
           </div>
         </div>
 
@@ -127,7 +145,7 @@ const Lending = () => {
                 )}
               </button>
             </div>
-            {isYourBorrowsVissible && <YourBorrows setBorrowsTotalBalance={setBorrowsTotalBalance} key={refreshKey} />}
+            {isYourBorrowsVissible && <YourBorrows setBorrowsTotalBalance={setBorrowsTotalBalance} />}
           </div>
           {/* Assets to Borrow */}
           <div className="table-background rounded-xl p-8 flex flex-col">
@@ -152,11 +170,11 @@ const Lending = () => {
                 </button>
               )}
             </div>
-            {isAssetsToBorrowVisible && !allBalancesZero && <AssetsToBorrow key={refreshKey} />}
+            {isAssetsToBorrowVisible && !allBalancesZero && <AssetsToBorrow />}
           </div>
         </div>
       </div>
-      <LendingInfo />
+      {activeTab === "dashboard" && <LendingInfo />}
     </div>
   );
 };
@@ -0,0 +1,164 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import useInterestRateModel from "@/hooks/useInterestRateModel";
+import useReserveConfigurations from "@/hooks/useReserveConfigurations";
+import { NextPage } from "next";
+import { Address as AddressType, formatUnits } from "viem";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import CapUsageBar from "~~/app/lending/components/CapUsageBar";
+import RateCurveChart from "~~/app/lending/components/RateCurveChart";
+import RateHistoryChart from "~~/app/lending/components/RateHistoryChart";
+import { Address } from "~~/components/scaffold-eth";
+import { useReserves } from "~~/context/ReservesContext";
+import { getUtilization } from "~~/utils/interestRateModel";
+import { DEBT_CEILING_DECIMALS } from "~~/utils/reserveConfiguration";
+
+type PageProps = {
+  params: { asset: string };
+};
+
+const formatBps = (bps: number | bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+// Detail page of a lending reserve with its interest rate model and risk parameters
+const ReserveDetails: NextPage<PageProps> = ({ params }) => {
+  const { t } = useTranslation();
+  const { reservesData, isLoadingReserves: isLoading } = useReserves();
+  const { reserveStates } = useReserveConfigurations();
+  const reserve = reservesData?.find(
+    ({ underlyingAsset }) => underlyingAsset.toLowerCase() === params.asset.toLowerCase(),
+  );
+  const { model } = useInterestRateModel(reserve);
+
+  if (isLoading) {
+    return <p className="w-4/5 m-auto mt-4 text-amber-950">Loading...</p>;
+  }
+
+  if (!reserve) {
+    return <p className="w-4/5 m-auto mt-4 text-error">{t("LendingReserveNotFound")}</p>;
+  }
+
+  const reserveState = reserveStates[reserve.underlyingAsset];
+  const configuration = reserveState?.configuration;
+  const decimals = Number(reserve.decimals);
+  const totalBorrowed = reserveState?.totalBorrowed;
+
+  const parameters: { label: string; value: React.ReactNode }[] = [
+    { label: t("LendingReserveLTV"), value: formatBps(reserve.baseLTVasCollateral) },
+    { label: t("LendingReserveLiquidationThreshold"), value: formatBps(reserve.reserveLiquidationThreshold) },
+    {
+      label: t("LendingReserveLiquidationPenalty"),
+      value: reserve.reserveLiquidationBonus > 0n ? formatBps(reserve.reserveLiquidationBonus - 10_000n) : "—",
+    },
+    { label: t("LendingReserveFactor"), value: formatBps(reserve.reserveFactor) },
+    {
+      label: t("LendingReserveAvailableLiquidity"),
+      value: `${Number(formatUnits(reserve.availableLiquidity, decimals)).toFixed(2)} ${reserve.symbol}`,
+    },
+    {
+      label: t("LendingReserveTotalBorrowed"),
+      value:
+        totalBorrowed !== undefined
+          ? `${Number(formatUnits(totalBorrowed, decimals)).toFixed(2)} ${reserve.symbol}`
+          : "-",
+    },
+  ];
+  if (configuration && configuration.debtCeiling > 0n && reserveState) {
+    parameters.push({
+      label: t("LendingDebtCeiling"),
+      value: `$${formatUnits(reserveState.isolationModeTotalDebt, DEBT_CEILING_DECIMALS)} / $${formatUnits(
+        configuration.debtCeiling,
+        DEBT_CEILING_DECIMALS,
+      )}`,
+    });
+  }
+
+  const tokens: { label: string; address: string }[] = [
+    { label: reserve.symbol, address: reserve.underlyingAsset },
+    { label: t("LendingReserveAToken"), address: reserve.aTokenAddress },
+    { label: t("LendingReserveVariableDebtToken"), address: reserve.variableDebtTokenAddress },
+    { label: t("LendingReserveStableDebtToken"), address: reserve.stableDebtTokenAddress },
+  ];
+
+  return (
+    <div className="flex flex-col w-4/5 m-auto gap-4 mt-4">
+      <div className="lending-header flex bg-white rounded-xl py-6 px-8 justify-between items-end">
+        <div>
+          <h1 className="text-primary text-2xl">{reserve.symbol}</h1>
+          <p className="subtitles-gray-color">{reserve.name}</p>
+        </div>
+        <Link href="/lending" className="secondary-btn h-fit w-fit">
+          {t("LendingReserveBack")}
+        </Link>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="table-background rounded-xl p-8 flex flex-col gap-4">
+          <h2 className="text-primary">{t("LendingReserveRateModel")}</h2>
+          {model ? (
+            <RateCurveChart
+              model={model}
+              utilization={getUtilization(reserve)}
+              showStable={reserve.stableBorrowRateEnabled}
+            />
+          ) : (
+            <p className="text-gray-500">{t("LendingReserveCurveUnavailable")}</p>
+          )}
+        </div>
+        <div className="table-background rounded-xl p-8 flex flex-col gap-4">
+          <h2 className="text-primary">{t("LendingReserveParameters")}</h2>
+          <div className="flex flex-col gap-2">
+            {parameters.map(({ label, value }) => (
+              <div key={label} className="flex justify-between items-center text-sm">
+                <span>{label}</span>
+                <span className="font-bold">{value}</span>
+              </div>
+            ))}
+            {configuration && reserveState && (
+              <>
+                <div className="flex flex-col gap-1 text-sm">
+                  <span>{t("LendingSupplyCap")}</span>
+                  {configuration.supplyCap > 0n ? (
+                    <CapUsageBar
+                      used={reserveState.totalSupplied}
+                      cap={configuration.supplyCap}
+                      decimals={configuration.decimals}
+                    />
+                  ) : (
+                    <span className="font-bold">{t("LendingReserveNoCap")}</span>
+                  )}
+                </div>
+                <div className="flex flex-col gap-1 text-sm">
+                  <span>{t("LendingBorrowCap")}</span>
+                  {configuration.borrowCap > 0n ? (
+                    <CapUsageBar
+                      used={reserveState.totalBorrowed}
+                      cap={configuration.borrowCap}
+                      decimals={configuration.decimals}
+                    />
+                  ) : (
+                    <span className="font-bold">{t("LendingReserveNoCap")}</span>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+          <h2 className="text-primary">{t("LendingReserveTokens")}</h2>
+          <div className="flex flex-col gap-2">
+            {tokens.map(({ label, address }) => (
+              <div key={label} className="flex justify-between items-center text-sm">
+                <span>{label}</span>
+                <Address address={address as AddressType} size="sm" />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="table-background rounded-xl p-8 flex flex-col gap-4">
+        <RateHistoryChart reserve={reserve} model={model} />
+      </div>
+    </div>
+  );
+};
+
+export default ReserveDetails;
@@ -0,0 +1,33 @@
+import React from "react";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { CdpRiskBand } from "~~/utils/cdpMath";
+
+interface RiskBandTagProps {
+  band: CdpRiskBand;
+}
+
+const bandStyles: Record<CdpRiskBand, string> = {
+  safe: "text-success border-success",
+  caution: "text-warning border-warning",
+  marginCall: "text-error border-error",
+  liquidation: "text-white bg-error border-error",
+};
+
+const bandLabels: Record<CdpRiskBand, string> = {
+  safe: "YourDepositsRiskSafe",
+  caution: "YourDepositsRiskCaution",
+  marginCall: "YourDepositsRiskMarginCall",
+  liquidation: "YourDepositsRiskLiquidation",
+};
+
+const RiskBandTag: React.FC<RiskBandTagProps> = ({ band }) => {
+  const { t } = useTranslation();
+
+  return (
+    <span className={`inline-block m-auto w-fit text-xs text-center px-1 border rounded ${bandStyles[band]}`}>
+      {t(bandLabels[band])}
+    </span>
+  );
+};
+
+export default RiskBandTag;
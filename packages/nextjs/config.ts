@@ -1,21 +1,49 @@
 import { Address } from "viem";
 
 /**
- * Configuration interface for pool addresses and data providers.
+ * Configuration interface for the pool addresses and data providers of a lending market.
  */
-interface Config {
+export interface LendingMarket {
+  chainId: number;
+  name: string; // Shown in the market selector
+  logo: string; // Path of the chain logo in the public folder
   POOL_ADDRESSES_PROVIDER: Address; // Main interactivity
   UI_POOL_DATA_PROVIDER_V3_ADDR: Address;
   POOL: Address; // Main pool address to make supply, borrow, withdrow, repay
+  startBlock?: bigint; // Pool deployment block, looked up on chain when unset; the event history scans stop there
 }
 
 /**
- * Configuration object containing specific addresses.
+ * Lending market registry mapped by chain ID. Deploying the Aave fork on another chain only requires an entry here,
+ * the chain must also be one of the target networks of scaffold.config.ts.
  */
-const CONFIG: Config = {
-  POOL_ADDRESSES_PROVIDER: "0xf7F56d8a155aF8A726dfDa80790c7a4fbf21CDf8",
-  UI_POOL_DATA_PROVIDER_V3_ADDR: "0x829D7aBA8B49f4BD5510cd874b94dDc69f238Bfc",
-  POOL: "0x7a8AE9bB9080670e2BAFb6Df3EA62968F4Ad8a88",
+export const LENDING_MARKETS: Record<number, LendingMarket> = {
+  8453: {
+    chainId: 8453,
+    name: "Base Market",
+    logo: "/Base-Logo.jpg",
+    POOL_ADDRESSES_PROVIDER: "0xf7F56d8a155aF8A726dfDa80790c7a4fbf21CDf8",
+    UI_POOL_DATA_PROVIDER_V3_ADDR: "0x829D7aBA8B49f4BD5510cd874b94dDc69f238Bfc",
+    POOL: "0x7a8AE9bB9080670e2BAFb6Df3EA62968F4Ad8a88",
+  },
 };
 
-export default CONFIG;
+/**
+ * Market selected until the user picks another one or connects to a chain with a market.
+ */
+export const DEFAULT_LENDING_CHAIN_ID = 8453;
+
+/**
+ * Checks if a lending market is deployed on the given chain.
+ * @param {number} chainId - The chain ID to check.
+ * @returns {boolean} - True if the chain has an entry in the lending market registry.
+ */
+export const isLendingChain = (chainId: number) => chainId in LENDING_MARKETS;
+
+/**
+ * Returns the lending market of the given chain.
+ * @param {number} chainId - The chain ID to look up.
+ * @returns {LendingMarket | undefined} - The chain's market, or undefined if the chain has none.
+ */
+export const getLendingMarket = (chainId: number): LendingMarket | undefined =>
+  isLendingChain(chainId) ? LENDING_MARKETS[chainId] : undefined;
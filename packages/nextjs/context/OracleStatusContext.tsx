@@ -0,0 +1,25 @@
+"use client";
+
+import React, { createContext, useContext } from "react";
+import useOracleStatus from "~~/hooks/useOracleStatus";
+
+type OracleStatusContextType = ReturnType<typeof useOracleStatus>;
+
+const OracleStatusContext = createContext<OracleStatusContextType | undefined>(undefined);
+
+export const useCdpOracle = () => {
+  const context = useContext(OracleStatusContext);
+  if (!context) {
+    throw new Error("useCdpOracle must be used within an OracleStatusProvider");
+  }
+  return context;
+};
+
+/**
+ * Oracle status of the active chain, read once for the status panel, the deposits table and the mint modal.
+ */
+export const OracleStatusProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const oracleStatus = useOracleStatus();
+
+  return <OracleStatusContext.Provider value={oracleStatus}>{children}</OracleStatusContext.Provider>;
+};
@@ -1,26 +1,145 @@
-import React, { createContext, useContext } from "react";
+"use client";
+
+import React, { createContext, useCallback, useContext, useMemo } from "react";
 import useGetReservesData from "@/hooks/useGetReservesData";
 import useGetUserReservesData from "@/hooks/useGetUserReservesData";
+import { BaseCurrencyInfo, ReserveData, UserReserveData } from "@/types/types";
+import { Query, useQueryClient } from "@tanstack/react-query";
+import { getAccruedBalances } from "~~/utils/indexMath";
+import { toUsdValue } from "~~/utils/rateMath";
+
+/**
+ * A reserve of the market with the position of the connected user, valued in USD.
+ */
+export interface LendingAsset {
+  reserve: ReserveData;
+  userReserve: UserReserveData | undefined; // Undefined until the user reserves load
+  priceInUsd: number; // Price of one token
+  supplied: bigint; // aToken balance, in the asset units, accrued up to the valuation time
+  variableDebt: bigint;
+  stableDebt: bigint;
+  suppliedUsd: number;
+  variableDebtUsd: number;
+  stableDebtUsd: number;
+}
+
+/**
+ * Values the reserves and the user positions, accruing the balances up to a time with the reserve indexes.
+ * @param {ReserveData[] | null} reservesData - The reserves of the market.
+ * @param {UserReserveData[] | null} userReservesData - The user positions.
+ * @param {BaseCurrencyInfo | null} baseCurrencyInfo - The market reference currency prices, the USD values are 0 without it.
+ * @param {number} timestamp - The time to accrue the balances to, in seconds.
+ * @returns {LendingAsset[]} - One asset per reserve.
+ */
+export const getLendingAssets = (
+  reservesData: ReserveData[] | null,
+  userReservesData: UserReserveData[] | null,
+  baseCurrencyInfo: BaseCurrencyInfo | null,
+  timestamp: number,
+) =>
+  (reservesData ?? []).map((reserve): LendingAsset => {
+    const userReserve = userReservesData?.find(({ underlyingAsset }) => underlyingAsset === reserve.underlyingAsset);
+    const decimals = Number(reserve.decimals);
+    const toUsd = (amount: bigint) =>
+      baseCurrencyInfo ? toUsdValue(amount, reserve.priceInMarketReferenceCurrency, decimals, baseCurrencyInfo) : 0;
 
-const ReservesContext = createContext<any>(null);
+    const { supplied, variableDebt, stableDebt } = userReserve
+      ? getAccruedBalances(reserve, userReserve, timestamp)
+      : { supplied: 0n, variableDebt: 0n, stableDebt: 0n };
+    return {
+      reserve,
+      userReserve,
+      priceInUsd: toUsd(10n ** BigInt(decimals)),
+      supplied,
+      variableDebt,
+      stableDebt,
+      suppliedUsd: toUsd(supplied),
+      variableDebtUsd: toUsd(variableDebt),
+      stableDebtUsd: toUsd(stableDebt),
+    };
+  });
+
+// Account reads a lending transaction changes besides the store: health factor, E-Mode, wallet balances and allowances
+const ACCOUNT_READS = ["getUserAccountData", "getUserEMode", "balanceOf", "allowance"];
+
+/**
+ * Tells whether a wagmi query reads the account state changed by a lending transaction.
+ * @param {Query} query - The cached query.
+ * @returns {boolean} - True for native balances and for contract reads of the account functions.
+ */
+const isAccountQuery = ({ queryKey }: Query) => {
+  const [scope, parameters] = queryKey as [string, any];
+  if (scope === "balance") return true;
+  const calls = scope === "readContract" ? [parameters] : scope === "readContracts" ? parameters?.contracts ?? [] : [];
+  return calls.some((call: any) => ACCOUNT_READS.includes(call?.functionName));
+};
+
+interface ReservesContextType {
+  reservesData: ReserveData[] | null;
+  userReservesData: UserReserveData[] | null;
+  baseCurrencyInfo: BaseCurrencyInfo | null;
+  assets: LendingAsset[];
+  isLoadingReserves: boolean;
+  isErrorReserves: boolean;
+  isLoadingUserReserves: boolean;
+  isErrorUserReserves: boolean;
+  refresh: () => void;
+}
+
+const ReservesContext = createContext<ReservesContextType | undefined>(undefined);
 
 export const useReserves = () => {
-  return useContext(ReservesContext);
+  const context = useContext(ReservesContext);
+  if (!context) {
+    throw new Error("useReserves must be used within a ReservesProvider");
+  }
+  return context;
 };
 
+/**
+ * Lending data store of the selected market: the reserves and the connected user positions are read once for every
+ * lending component, and refreshed together after each confirmed lending transaction.
+ */
 export const ReservesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { reservesData, isLoading: isLoadingReserves, isError: isErrorReserves } = useGetReservesData();
-  const { userReservesData, isLoading: isLoadingUserReserves, isError: isErrorUserReserves } = useGetUserReservesData();
+  const queryClient = useQueryClient();
+  const {
+    reservesData,
+    baseCurrencyInfo,
+    isLoading: isLoadingReserves,
+    isError: isErrorReserves,
+    refetch: refetchReserves,
+  } = useGetReservesData();
+  const {
+    userReservesData,
+    isLoading: isLoadingUserReserves,
+    isError: isErrorUserReserves,
+    refetch: refetchUserReserves,
+  } = useGetUserReservesData();
+
+  const assets = useMemo(
+    () => getLendingAssets(reservesData, userReservesData, baseCurrencyInfo, Math.floor(Date.now() / 1000)),
+    [reservesData, userReservesData, baseCurrencyInfo],
+  );
+
+  // Refetches the store and the account reads a transaction changes, the other reads of the page keep their cache
+  const refresh = useCallback(() => {
+    refetchReserves();
+    refetchUserReserves();
+    queryClient.invalidateQueries({ predicate: isAccountQuery });
+  }, [refetchReserves, refetchUserReserves, queryClient]);
 
   return (
     <ReservesContext.Provider
       value={{
         reservesData,
         userReservesData,
+        baseCurrencyInfo,
+        assets,
         isLoadingReserves,
         isErrorReserves,
         isLoadingUserReserves,
         isErrorUserReserves,
+        refresh,
       }}
     >
       {children}
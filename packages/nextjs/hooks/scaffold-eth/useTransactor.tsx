@@ -2,6 +2,7 @@ import { getPublicClient } from "@wagmi/core";
 import { Hash, SendTransactionParameters, WalletClient } from "viem";
 import { Config, useWalletClient } from "wagmi";
 import { SendTransactionMutate } from "wagmi/query";
+import { useTranslation } from "~~/app/context/LanguageContext";
 import { wagmiConfig } from "~~/services/web3/wagmiConfig";
 import { getBlockExplorerTxLink, getParsedError, notification } from "~~/utils/scaffold-eth";
 import { TransactorFuncOptions } from "~~/utils/scaffold-eth/contract";
@@ -35,6 +36,7 @@ const TxnNotification = ({ message, blockExplorerLink }: { message: string; bloc
 export const useTransactor = (_walletClient?: WalletClient): TransactionFunc => {
   let walletClient = _walletClient;
   const { data } = useWalletClient();
+  const { t } = useTranslation();
   if (walletClient === undefined && data) {
     walletClient = data;
   }
@@ -90,7 +92,7 @@ export const useTransactor = (_walletClient?: WalletClient): TransactionFunc =>
         notification.remove(notificationId);
       }
       console.error("⚡️ ~ file: useTransactor.ts ~ error", error);
-      const message = getParsedError(error);
+      const message = getParsedError(error, t);
       notification.error(message);
       throw error;
     }
@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useState } from "react";
+import { Abi } from "abitype";
+import { Address } from "viem";
+import { usePublicClient } from "wagmi";
+import useContractEventHistory, { EventSource, HistoryEvent } from "~~/hooks/useContractEventHistory";
+
+/**
+ * A contract read made for an account.
+ */
+export interface AccountCall {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/**
+ * The results of the calls of an account, in the order of its calls, undefined for the failed ones.
+ */
+export interface AccountRead<T> {
+  account: T;
+  results: unknown[];
+}
+
+interface UseAccountScanConfig<T> {
+  sources: EventSource[];
+  chainId: number;
+  fromBlock: bigint | undefined; // Undefined while the first block is looked up
+  getAccounts: (events: HistoryEvent[]) => T[]; // Memoized, the accounts are derived again when it changes
+  getCalls: (account: T) => AccountCall[]; // Memoized, the accounts are read again when it changes
+}
+
+// Accounts read per multicall
+const ACCOUNT_BATCH_SIZE = 100;
+
+/**
+ * Custom hook to find accounts in the events of some contracts and read their state.
+ * Every page of events is scanned down to fromBlock first, then the accounts are read once in multicall batches,
+ * so the reads do not grow with the number of pages. A scan stopped by an error reads the accounts found so far.
+ * @param {UseAccountScanConfig} config - The event sources, chain, first block, and the functions building the accounts and their calls.
+ * @returns {Object} - Contains the account reads, loading state, scan and read errors, the event paging state and a refresh function.
+ */
+const useAccountScan = <T>({ sources, chainId, fromBlock, getAccounts, getCalls }: UseAccountScanConfig<T>) => {
+  const publicClient = usePublicClient({ chainId });
+  const [reads, setReads] = useState<AccountRead<T>[]>([]);
+  const [isLoadingReads, setIsLoadingReads] = useState(false);
+  const [readError, setReadError] = useState<string>();
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const {
+    data: events,
+    isLoading: isLoadingEvents,
+    error,
+    hasMore,
+    loadMore,
+    loadAll,
+  } = useContractEventHistory({
+    sources,
+    chainId,
+    fromBlock,
+    enabled: sources.length > 0 && fromBlock !== undefined,
+  });
+
+  // Effect to keep scanning once the first page is read, an account missed by the scan is never read
+  useEffect(() => {
+    if (hasMore && !isLoadingEvents && !error) loadAll();
+  }, [hasMore, isLoadingEvents, error, loadAll]);
+
+  // Effect to drop the reads of the previous sources or chain
+  useEffect(() => {
+    setReads([]);
+  }, [sources, chainId]);
+
+  const accounts = useMemo(() => getAccounts(events), [getAccounts, events]);
+  const isScanStopped = fromBlock !== undefined && !isLoadingEvents && (!hasMore || !!error);
+
+  // Effect to read every account once the scan stops
+  useEffect(() => {
+    if (!publicClient || !isScanStopped) return;
+
+    let isCancelled = false;
+    const readAccounts = async () => {
+      setIsLoadingReads(true);
+      setReadError(undefined);
+      try {
+        const nextReads: AccountRead<T>[] = [];
+        for (let start = 0; start < accounts.length; start += ACCOUNT_BATCH_SIZE) {
+          const batch = accounts.slice(start, start + ACCOUNT_BATCH_SIZE);
+          const calls = batch.map(getCalls);
+          const data = await publicClient.multicall({ contracts: calls.flat() });
+          if (isCancelled) return;
+
+          let offset = 0;
+          batch.forEach((account, index) => {
+            const count = calls[index].length;
+            nextReads.push({ account, results: data.slice(offset, offset + count).map(({ result }) => result) });
+            offset += count;
+          });
+        }
+        setReads(nextReads);
+      } catch (e: any) {
+        if (isCancelled) return;
+        setReads([]);
+        setReadError(e?.message ?? String(e));
+        console.error("Failed to read the scanned accounts:", e);
+      } finally {
+        if (!isCancelled) setIsLoadingReads(false);
+      }
+    };
+    readAccounts();
+    return () => {
+      isCancelled = true;
+    };
+  }, [publicClient, isScanStopped, accounts, getCalls, refreshKey]);
+
+  return {
+    reads,
+    accountsCount: accounts.length,
+    isLoading: isLoadingEvents || isLoadingReads || (sources.length > 0 && fromBlock === undefined),
+    error,
+    readError,
+    hasMore,
+    loadMore,
+    refresh: () => setRefreshKey(key => key + 1),
+  };
+};
+
+export default useAccountScan;
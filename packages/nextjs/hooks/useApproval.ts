@@ -3,7 +3,7 @@ import { parseEther } from "viem";
 import { Address } from "viem";
 import { useWriteContract } from "wagmi";
 
-export const useApproval = (houseOfReserveContract: Address, assetContract: Address) => {
+export const useApproval = (houseOfReserveContract: Address, assetContract: Address, chainId?: number) => {
   const { writeContract, isError, isSuccess, isPending } = useWriteContract();
 
   const approve = async (amount: string) => {
@@ -11,6 +11,7 @@ export const useApproval = (houseOfReserveContract: Address, assetContract: Addr
       writeContract({
         abi: ERC20ABI,
         address: assetContract,
+        chainId, // The wallet chain when undefined
         functionName: "approve",
         args: [houseOfReserveContract, parseEther(amount)],
       });
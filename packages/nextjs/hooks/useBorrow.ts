@@ -1,14 +1,18 @@
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
 import externalContracts from "@/contracts/externalContracts";
 import { Address } from "viem";
 import { useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Custom hook to handle borrow transactions.
  * @returns {Object} - The borrow handler function and contract interaction states.
  */
 const useBorrow = () => {
+  const { market } = useLendingMarket();
   const { writeContract, error, data: borrowHash } = useWriteContract();
-  const pool = externalContracts[8453].Pool;
+  useRefreshAfterTransaction(borrowHash);
+  const pool = externalContracts[market.chainId].Pool;
 
   /**
    * Handles the borrow transaction by writing to the smart contract.
@@ -34,6 +38,7 @@ const useBorrow = () => {
       await writeContract({
         abi: pool.abi,
         address: pool.address,
+        chainId: market.chainId,
         functionName: "borrow",
         args: [asset, amount, interestRateMode, referralCode, onBehalfOf],
       });
@@ -0,0 +1,81 @@
+import { useMemo } from "react";
+import useReserveConfigurations from "./useReserveConfigurations";
+import { Address } from "viem";
+import { useReserves } from "~~/context/ReservesContext";
+import { getRemainingIsolatedBorrow } from "~~/utils/reserveConfiguration";
+
+/**
+ * Custom hook to find the isolation mode and siloed borrowing state of the user and the borrows they restrict.
+ * The user is in isolation mode when their only collateral is an asset with a debt ceiling.
+ * @returns {Object} - Contains the reserve states, the isolated collateral and its debt, the siloed borrow, and helpers to check a borrow.
+ */
+const useBorrowRestrictions = () => {
+  const { reserveStates } = useReserveConfigurations();
+  const { userReservesData } = useReserves();
+
+  const { isolatedAsset, borrowedAssets } = useMemo(() => {
+    const collaterals = (userReservesData ?? []).filter(
+      userReserve => userReserve.usageAsCollateralEnabledOnUser && userReserve.scaledATokenBalance > 0n,
+    );
+    const onlyCollateral = collaterals.length === 1 ? (collaterals[0].underlyingAsset as Address) : undefined;
+    return {
+      isolatedAsset:
+        onlyCollateral && (reserveStates[onlyCollateral]?.configuration.debtCeiling ?? 0n) > 0n
+          ? onlyCollateral
+          : undefined,
+      borrowedAssets: (userReservesData ?? [])
+        .filter(userReserve => userReserve.scaledVariableDebt > 0n || userReserve.principalStableDebt > 0n)
+        .map(userReserve => userReserve.underlyingAsset as Address),
+    };
+  }, [userReservesData, reserveStates]);
+
+  const isolatedState = isolatedAsset ? reserveStates[isolatedAsset] : undefined;
+  const siloedBorrowAsset = borrowedAssets.find(asset => reserveStates[asset]?.configuration.siloedBorrowing);
+
+  /**
+   * Computes the maximum amount of an asset the debt ceiling still allows to borrow.
+   * @param {Address} asset - The asset to borrow.
+   * @returns {bigint | undefined} - The amount in the asset units, undefined when the user is not in isolation mode.
+   */
+  const getMaxIsolatedBorrow = (asset: Address) => {
+    const configuration = reserveStates[asset]?.configuration;
+    if (!isolatedState || !configuration) return undefined;
+    return getRemainingIsolatedBorrow(
+      isolatedState.configuration.debtCeiling,
+      isolatedState.isolationModeTotalDebt,
+      configuration.decimals,
+    );
+  };
+
+  /**
+   * Finds why the Pool would reject a borrow of an asset.
+   * @param {Address} asset - The asset to borrow.
+   * @returns {string | undefined} - The translation key of the restriction, undefined when the borrow is allowed.
+   */
+  const getBorrowRestriction = (asset: Address) => {
+    const configuration = reserveStates[asset]?.configuration;
+    if (!configuration) return undefined;
+    if (!configuration.borrowingEnabled) return "LendingRestrictionBorrowingDisabled";
+    if (configuration.isPaused) return "LendingRestrictionPaused";
+    if (configuration.isFrozen) return "LendingRestrictionFrozen";
+    if (reserveStates[asset].borrowHeadroom === 0n) return "LendingRestrictionBorrowCapReached";
+    if (isolatedAsset && !configuration.borrowableInIsolation) return "LendingRestrictionNotBorrowableInIsolation";
+    if (isolatedAsset && getMaxIsolatedBorrow(asset) === 0n) return "LendingRestrictionDebtCeilingReached";
+    if (siloedBorrowAsset && siloedBorrowAsset !== asset) return "LendingRestrictionSiloedBorrowActive";
+    if (configuration.siloedBorrowing && borrowedAssets.some(borrowed => borrowed !== asset)) {
+      return "LendingRestrictionSiloedBorrowing";
+    }
+    return undefined;
+  };
+
+  return {
+    reserveStates,
+    isolatedAsset,
+    isolatedState,
+    siloedBorrowAsset,
+    getMaxIsolatedBorrow,
+    getBorrowRestriction,
+  };
+};
+
+export default useBorrowRestrictions;
@@ -0,0 +1,140 @@
+import { useMemo } from "react";
+import { Abi } from "abitype";
+import { Address, Hash } from "viem";
+import { useChainId } from "wagmi";
+import { houseOfCoinABI } from "~~/app/components/abis/houseofcoin";
+import { houseOfReserveABI } from "~~/app/components/abis/houseofreserve";
+import { CdpHouse, getCdpChain } from "~~/app/constants/contracts";
+import useCdpPositions from "~~/hooks/useCdpPositions";
+import useContractEventHistory, { EventSource } from "~~/hooks/useContractEventHistory";
+import useDeploymentBlock from "~~/hooks/useDeploymentBlock";
+
+export type CdpHistoryAction = "UserDeposit" | "UserWithdraw" | "CoinMinted" | "CoinPayback";
+
+/**
+ * A CDP action of the user with the position balances right after it.
+ */
+export interface CdpHistoryEntry {
+  action: CdpHistoryAction;
+  house: CdpHouse;
+  amount: bigint; // In the reserve asset decimals for deposits and withdrawals, in $XOC decimals otherwise
+  collateral: bigint; // Collateral in the house after the action
+  minted: bigint; // $XOC debt in the house after the action
+  blockNumber: bigint;
+  timestamp: bigint;
+  transactionHash: Hash;
+}
+
+/**
+ * Custom hook to build the user's CDP history on the active chain from the House of Reserve and House of Coin events.
+ * Running balances are rebuilt backwards from the current positions, so every page of older events stays consistent.
+ * @param {Address | undefined} address - The address of the user.
+ * @returns {Object} - Contains the history entries, newest first, loading state, error, and the paging state.
+ */
+const useCdpHistory = (address: Address | undefined) => {
+  const chainId = useChainId();
+  const cdpChain = getCdpChain(chainId);
+  const { positions, isLoading: isLoadingPositions } = useCdpPositions(address);
+  // The houses register in the AssetsAccountant, so no CDP event predates its deployment
+  const { deploymentBlock } = useDeploymentBlock(chainId, cdpChain?.assetsAccountantContract);
+
+  const sources = useMemo((): EventSource[] => {
+    if (!cdpChain || !address) return [];
+    const houseAddresses = cdpChain.houses.map(house => house.houseOfReserveContract);
+    return [
+      { address: houseAddresses, abi: houseOfReserveABI as Abi, eventName: "UserDeposit", args: { user: address } },
+      { address: houseAddresses, abi: houseOfReserveABI as Abi, eventName: "UserWithdraw", args: { user: address } },
+      {
+        address: cdpChain.houseOfCoinContract,
+        abi: houseOfCoinABI as Abi,
+        eventName: "CoinMinted",
+        args: { user: address },
+      },
+      {
+        address: cdpChain.houseOfCoinContract,
+        abi: houseOfCoinABI as Abi,
+        eventName: "CoinPayback",
+        args: { user: address },
+      },
+    ];
+  }, [cdpChain, address]);
+
+  const {
+    data,
+    isLoading: isLoadingEvents,
+    error,
+    hasMore,
+    loadMore,
+  } = useContractEventHistory({
+    sources,
+    chainId,
+    fromBlock: deploymentBlock,
+    enabled: sources.length > 0 && deploymentBlock !== undefined,
+  });
+
+  const entries = useMemo(() => {
+    if (!cdpChain || isLoadingPositions) return [];
+
+    // Balances after the newest event not yet walked, per house
+    const balances = new Map(
+      positions.map(position => [
+        position.house.houseOfReserveContract,
+        { collateral: position.collateral, minted: position.minted },
+      ]),
+    );
+
+    return data.flatMap((event): CdpHistoryEntry[] => {
+      const action = event.eventName as CdpHistoryAction;
+      const isReserveEvent = action === "UserDeposit" || action === "UserWithdraw";
+      // CoinPayback names its indexed token ID after the reserve token, but it carries the backed token ID
+      const tokenId = event.args.backedTokenId ?? event.args.reservetokenID;
+      const house = cdpChain.houses.find(house =>
+        isReserveEvent
+          ? house.houseOfReserveContract.toLowerCase() === event.address.toLowerCase()
+          : house.backedTokenID === tokenId || house.reserveTokenID === tokenId,
+      );
+      const balance = house && balances.get(house.houseOfReserveContract);
+      if (!house || !balance) return [];
+
+      const amount = event.args.amount as bigint;
+      const entry: CdpHistoryEntry = {
+        action,
+        house,
+        amount,
+        collateral: balance.collateral,
+        minted: balance.minted,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+        transactionHash: event.transactionHash,
+      };
+
+      // Undo the action to get the balances before it
+      const clamp = (value: bigint) => (value > 0n ? value : 0n);
+      balances.set(house.houseOfReserveContract, {
+        collateral:
+          action === "UserDeposit"
+            ? clamp(balance.collateral - amount)
+            : action === "UserWithdraw"
+            ? balance.collateral + amount
+            : balance.collateral,
+        minted:
+          action === "CoinMinted"
+            ? clamp(balance.minted - amount)
+            : action === "CoinPayback"
+            ? balance.minted + amount
+            : balance.minted,
+      });
+      return [entry];
+    });
+  }, [cdpChain, isLoadingPositions, positions, data]);
+
+  return {
+    entries,
+    isLoading: isLoadingEvents || isLoadingPositions || (sources.length > 0 && deploymentBlock === undefined),
+    error,
+    hasMore,
+    loadMore,
+  };
+};
+
+export default useCdpHistory;
@@ -0,0 +1,142 @@
+import { useCallback, useMemo } from "react";
+import { Abi } from "abitype";
+import { Address } from "viem";
+import { useChainId, useReadContract } from "wagmi";
+import { houseOfCoinABI } from "~~/app/components/abis/houseofcoin";
+import { assetsAccountantABI } from "~~/app/components/abis/xocabis";
+import { CdpHouse, getCdpChain } from "~~/app/constants/contracts";
+import useAccountScan, { AccountCall } from "~~/hooks/useAccountScan";
+import { EventSource, HistoryEvent } from "~~/hooks/useContractEventHistory";
+import useDeploymentBlock from "~~/hooks/useDeploymentBlock";
+import { CdpLiqParams, CdpRiskBand, getRiskBand } from "~~/utils/cdpMath";
+
+/**
+ * A borrower's position in a house, ranked by its health ratio.
+ */
+export interface LiquidationCandidate {
+  user: Address;
+  house: CdpHouse;
+  collateral: bigint; // In the reserve asset decimals
+  minted: bigint; // In $XOC decimals
+  healthRatio: bigint; // 1e18 = 1
+  riskBand: CdpRiskBand;
+}
+
+/**
+ * A borrower of a house, as found in the CoinMinted events.
+ */
+interface CdpBorrower {
+  user: Address;
+  house: CdpHouse;
+}
+
+/**
+ * Custom hook to rank every borrower of the active chain's houses by liquidation risk.
+ * Borrowers come from the CoinMinted events, scanned back to the HouseOfCoin deployment block, and their health ratios
+ * are read in multicall batches once the scan stops. The ranking is partial when the scan stopped with hasMore set.
+ * @returns {Object} - Contains the ranked candidates, the liquidation params, loading state, errors, and the event paging state.
+ */
+const useCdpLiquidations = () => {
+  const chainId = useChainId();
+  const cdpChain = getCdpChain(chainId);
+  const { deploymentBlock } = useDeploymentBlock(chainId, cdpChain?.houseOfCoinContract);
+
+  const { data: liqParams } = useReadContract({
+    address: cdpChain?.houseOfCoinContract,
+    abi: houseOfCoinABI as Abi,
+    functionName: "getLiqParams",
+    chainId,
+    query: { enabled: !!cdpChain },
+  });
+
+  const sources = useMemo(
+    (): EventSource[] =>
+      cdpChain ? [{ address: cdpChain.houseOfCoinContract, abi: houseOfCoinABI as Abi, eventName: "CoinMinted" }] : [],
+    [cdpChain],
+  );
+
+  // Unique borrower and house pairs
+  const getBorrowers = useCallback(
+    (events: HistoryEvent[]) => {
+      if (!cdpChain) return [];
+      const seen = new Set<string>();
+      return events.flatMap((event): CdpBorrower[] => {
+        const user = event.args.user as Address;
+        const house = cdpChain.houses.find(house => house.backedTokenID === event.args.backedTokenId);
+        const key = `${user}-${house?.houseOfReserveContract}`;
+        if (!house || seen.has(key)) return [];
+        seen.add(key);
+        return [{ user, house }];
+      });
+    },
+    [cdpChain],
+  );
+
+  // The health ratio and the collateral and debt balances of a borrower
+  const getCalls = useCallback(
+    ({ user, house }: CdpBorrower): AccountCall[] =>
+      cdpChain
+        ? [
+            {
+              address: cdpChain.houseOfCoinContract,
+              abi: houseOfCoinABI as Abi,
+              functionName: "computeUserHealthRatio",
+              args: [user, house.houseOfReserveContract],
+            },
+            {
+              address: cdpChain.assetsAccountantContract,
+              abi: assetsAccountantABI as Abi,
+              functionName: "balanceOf",
+              args: [user, house.reserveTokenID],
+            },
+            {
+              address: cdpChain.assetsAccountantContract,
+              abi: assetsAccountantABI as Abi,
+              functionName: "balanceOf",
+              args: [user, house.backedTokenID],
+            },
+          ]
+        : [],
+    [cdpChain],
+  );
+
+  const { reads, isLoading, error, readError, hasMore, loadMore } = useAccountScan({
+    sources,
+    chainId,
+    fromBlock: deploymentBlock,
+    getAccounts: getBorrowers,
+    getCalls,
+  });
+
+  const candidates = useMemo(() => {
+    if (!liqParams) return [];
+    const results = reads.flatMap(({ account: { user, house }, results }): LiquidationCandidate[] => {
+      const [healthRatio, collateral, minted] = results as (bigint | undefined)[];
+      // Repaid positions can no longer be liquidated
+      if (healthRatio === undefined || !minted) return [];
+      return [
+        {
+          user,
+          house,
+          collateral: collateral ?? 0n,
+          minted,
+          healthRatio,
+          riskBand: getRiskBand(healthRatio, liqParams as CdpLiqParams),
+        },
+      ];
+    });
+    return results.sort((a, b) => (a.healthRatio < b.healthRatio ? -1 : a.healthRatio > b.healthRatio ? 1 : 0));
+  }, [reads, liqParams]);
+
+  return {
+    candidates,
+    liqParams: liqParams as CdpLiqParams | undefined,
+    isLoading,
+    error,
+    healthError: readError,
+    hasMore,
+    loadMore,
+  };
+};
+
+export default useCdpLiquidations;
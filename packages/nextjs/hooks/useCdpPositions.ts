@@ -0,0 +1,96 @@
+import { useMemo } from "react";
+import { Abi } from "abitype";
+import { Address } from "viem";
+import { useChainId, useReadContracts } from "wagmi";
+import { houseOfCoinABI } from "~~/app/components/abis/houseofcoin";
+import { houseOfReserveABI } from "~~/app/components/abis/houseofreserve";
+import { assetsAccountantABI } from "~~/app/components/abis/xocabis";
+import { CdpHouse, getCdpChain } from "~~/app/constants/contracts";
+import { CdpLiqParams, CdpRiskBand, computeThresholdPrice, getRiskBand } from "~~/utils/cdpMath";
+
+/**
+ * A user's CDP position in a single House of Reserve. Amounts are raw on-chain values.
+ */
+export interface CdpPosition {
+  house: CdpHouse;
+  collateral: bigint; // In the reserve asset decimals
+  minted: bigint; // In $XOC decimals
+  remainingMintingPower: bigint; // In $XOC decimals
+  healthRatio: bigint | null; // 1e18 = 1, null when nothing is minted
+  maxWithdrawal: bigint; // In the reserve asset decimals
+  price: bigint; // Collateral price in $XOC with CDP_PRICE_DECIMALS
+  marginCallPrice: bigint | null; // Same unit as price, null when nothing is minted
+  liquidationPrice: bigint | null; // Same unit as price, null when nothing is minted
+  riskBand: CdpRiskBand | null; // null when nothing is minted
+}
+
+// Reads made for every house, in this order
+const POSITION_READS = 6;
+
+/**
+ * Custom hook to fetch a user's CDP positions in every house of the active chain with a single multicall.
+ * @param {Address | undefined} address - The address of the user.
+ * @returns {Object} - Contains the positions, the House of Coin liquidation params, loading state, error state, and a refetch function.
+ */
+const useCdpPositions = (address: Address | undefined) => {
+  const chainId = useChainId();
+  const cdpChain = getCdpChain(chainId);
+  const houses = useMemo(() => cdpChain?.houses ?? [], [cdpChain]);
+
+  const houseOfCoin = { address: cdpChain?.houseOfCoinContract, abi: houseOfCoinABI as Abi, chainId };
+  const assetsAccountant = { address: cdpChain?.assetsAccountantContract, abi: assetsAccountantABI as Abi, chainId };
+
+  const { data, isLoading, isError, refetch } = useReadContracts({
+    contracts: [
+      { ...houseOfCoin, functionName: "getLiqParams" },
+      ...houses.flatMap(house => [
+        { ...assetsAccountant, functionName: "balanceOf", args: [address, house.reserveTokenID] },
+        { ...assetsAccountant, functionName: "balanceOf", args: [address, house.backedTokenID] },
+        { ...houseOfCoin, functionName: "checkRemainingMintingPower", args: [address, house.houseOfReserveContract] },
+        { ...houseOfCoin, functionName: "computeUserHealthRatio", args: [address, house.houseOfReserveContract] },
+        {
+          address: house.houseOfReserveContract,
+          abi: houseOfReserveABI as Abi,
+          functionName: "checkMaxWithdrawal",
+          args: [address],
+          chainId,
+        },
+        { ...houseOfCoin, functionName: "getLatestPrice", args: [house.houseOfReserveContract] },
+      ]),
+    ],
+    query: { enabled: !!address && !!cdpChain },
+  });
+
+  const liqParams = data?.[0]?.result as CdpLiqParams | undefined;
+
+  const positions = useMemo(
+    () =>
+      houses.map((house, index): CdpPosition => {
+        const results = data?.slice(1 + index * POSITION_READS, 1 + (index + 1) * POSITION_READS) ?? [];
+        const [collateral, minted, remainingMintingPower, healthRatio, maxWithdrawal, price] = results.map(
+          ({ result }) => (result as bigint | undefined) ?? 0n,
+        );
+        const hasDebt = !!minted && minted > 0n;
+
+        return {
+          house,
+          collateral: collateral ?? 0n,
+          minted: minted ?? 0n,
+          remainingMintingPower: remainingMintingPower ?? 0n,
+          healthRatio: hasDebt ? healthRatio : null,
+          maxWithdrawal: maxWithdrawal ?? 0n,
+          price: price ?? 0n,
+          marginCallPrice:
+            hasDebt && liqParams ? computeThresholdPrice(price, healthRatio, liqParams.marginCallThreshold) : null,
+          liquidationPrice:
+            hasDebt && liqParams ? computeThresholdPrice(price, healthRatio, liqParams.liquidationThreshold) : null,
+          riskBand: hasDebt && liqParams ? getRiskBand(healthRatio, liqParams) : null,
+        };
+      }),
+    [houses, data, liqParams],
+  );
+
+  return { positions, liqParams, isLoading, isError, refetch };
+};
+
+export default useCdpPositions;
@@ -0,0 +1,80 @@
+import { useMemo } from "react";
+import { Abi } from "abitype";
+import { Address, parseUnits } from "viem";
+import { useAccount, useChainId, useReadContracts } from "wagmi";
+import { houseOfReserveABI } from "~~/app/components/abis/houseofreserve";
+import { getCdpChain } from "~~/app/constants/contracts";
+import useCdpPositions from "~~/hooks/useCdpPositions";
+import { CdpAction, CdpProjection, simulateCdpAction } from "~~/utils/cdpMath";
+
+const HOUSE_PARAMS = ["maxLTVFactor", "liquidationFactor", "reserveMintFee"] as const;
+
+/**
+ * Custom hook to project the user's position in a House of Reserve before signing a CDP action.
+ * @param {Address | undefined} houseOfReserveContract - The House of Reserve the action is sent to.
+ * @param {CdpAction} action - The action to simulate.
+ * @param {string} amount - The amount typed by the user, in the reserve asset for deposit and withdraw, in $XOC for mint and repay.
+ * @returns {Object} - Contains the current and projected positions, or null while the on-chain data is missing, and the $XOC decimals.
+ */
+const useCdpSimulation = (houseOfReserveContract: Address | undefined, action: CdpAction, amount: string) => {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const cdpChain = getCdpChain(chainId);
+  const { positions, liqParams } = useCdpPositions(address);
+
+  const position = positions.find(
+    ({ house }) => house.houseOfReserveContract.toLowerCase() === houseOfReserveContract?.toLowerCase(),
+  );
+
+  const { data: paramsData } = useReadContracts({
+    contracts: HOUSE_PARAMS.map(functionName => ({
+      address: houseOfReserveContract,
+      abi: houseOfReserveABI as Abi,
+      functionName,
+      chainId,
+    })),
+    query: { enabled: !!houseOfReserveContract },
+  });
+
+  const input = useMemo(() => {
+    if (!position || !liqParams || !cdpChain || !paramsData) return null;
+    if (paramsData.some(({ status }) => status !== "success")) return null;
+
+    const [maxLTVFactor, liquidationFactor, reserveMintFee] = paramsData.map(({ result }) => result as bigint);
+    return {
+      collateral: position.collateral,
+      minted: position.minted,
+      price: position.price,
+      assetDecimals: position.house.assetDecimals,
+      xocDecimals: cdpChain.xocDecimals,
+      maxLTVFactor,
+      liquidationFactor,
+      reserveMintFee,
+      liqParams,
+    };
+  }, [position, liqParams, cdpChain, paramsData]);
+
+  const parsedAmount = useMemo(() => {
+    const decimals = action === "deposit" || action === "withdraw" ? input?.assetDecimals : input?.xocDecimals;
+    try {
+      const value = parseUnits(amount, decimals ?? 18);
+      return value > 0n ? value : 0n;
+    } catch {
+      // Empty or malformed input, the modals already validate it
+      return 0n;
+    }
+  }, [action, amount, input]);
+
+  const current: CdpProjection | null = useMemo(
+    () => (input ? simulateCdpAction(input, action, 0n) : null),
+    [input, action],
+  );
+  const projected: CdpProjection | null = useMemo(
+    () => (input ? simulateCdpAction(input, action, parsedAmount) : null),
+    [input, action, parsedAmount],
+  );
+
+  return { current, projected, xocDecimals: cdpChain?.xocDecimals ?? 18 };
+};
+
+export default useCdpSimulation;
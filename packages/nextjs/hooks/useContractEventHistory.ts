@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Abi, AbiEvent } from "abitype";
+import { Address, Hash } from "viem";
+import { usePublicClient } from "wagmi";
+import { replacer } from "~~/utils/scaffold-eth/common";
+
+/**
+ * An event to read, from one or several contracts sharing the same ABI.
+ */
+export interface EventSource {
+  address: Address | Address[];
+  abi: Abi;
+  eventName: string;
+  args?: Record<string, unknown>; // Filters on indexed parameters
+}
+
+/**
+ * A decoded log with its block time.
+ */
+export interface HistoryEvent {
+  eventName: string;
+  address: Address;
+  args: Record<string, any>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+  timestamp: bigint;
+}
+
+interface UseContractEventHistoryConfig {
+  sources: EventSource[];
+  chainId: number;
+  fromBlock?: bigint;
+  blockRange?: bigint;
+  enabled?: boolean;
+}
+
+// Blocks queried per getLogs call, small enough for public RPCs
+const DEFAULT_BLOCK_RANGE = 50_000n;
+// Ranges scanned at most per page when they come back empty
+const MAX_RANGES_PER_PAGE = 20;
+
+/**
+ * Custom hook to read the events of any ABI, newest first, paging backwards through block ranges.
+ * Every source is queried over the same range so the merged history has no gaps.
+ * @param {UseContractEventHistoryConfig} config - The event sources, chain, first block, range size and enabled flag.
+ * @returns {Object} - Contains the events, loading state, error, whether older events remain, and functions to load the next or all of them.
+ */
+const useContractEventHistory = ({
+  sources,
+  chainId,
+  fromBlock = 0n,
+  blockRange = DEFAULT_BLOCK_RANGE,
+  enabled = true,
+}: UseContractEventHistoryConfig) => {
+  const publicClient = usePublicClient({ chainId });
+  const [events, setEvents] = useState<HistoryEvent[]>([]);
+  // Next block to read backwards from, undefined before the first page and null once fromBlock is reached
+  const [cursor, setCursor] = useState<bigint | null | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>();
+  // Bumped when the sources or the chain change, the reads of older runs are dropped
+  const runRef = useRef(0);
+
+  const sourcesKey = JSON.stringify(
+    sources.map(({ address, eventName, args }) => ({ address, eventName, args })),
+    replacer,
+  );
+
+  const readPage = useCallback(
+    async (toBlock: bigint) => {
+      if (!publicClient) return { pageEvents: [], nextCursor: null };
+
+      const pageEvents: HistoryEvent[] = [];
+      let rangeEnd = toBlock;
+      let nextCursor: bigint | null = toBlock;
+
+      for (let range = 0; range < MAX_RANGES_PER_PAGE && pageEvents.length === 0; range++) {
+        const rangeStart = rangeEnd - blockRange + 1n > fromBlock ? rangeEnd - blockRange + 1n : fromBlock;
+
+        const logs = await Promise.all(
+          sources.map(({ address, abi, eventName, args }) =>
+            publicClient.getLogs({
+              address,
+              event: abi.find(part => part.type === "event" && part.name === eventName) as AbiEvent,
+              args: args as any,
+              fromBlock: rangeStart,
+              toBlock: rangeEnd,
+            }),
+          ),
+        );
+
+        // Fetch each block once for the timestamps
+        const flatLogs = logs.flat();
+        const blockNumbers = [...new Set(flatLogs.map(log => log.blockNumber as bigint))];
+        const blocks = await Promise.all(blockNumbers.map(blockNumber => publicClient.getBlock({ blockNumber })));
+        const timestamps = new Map(blocks.map(block => [block.number, block.timestamp]));
+
+        pageEvents.push(
+          ...flatLogs.map(log => ({
+            eventName: (log as unknown as { eventName: string }).eventName,
+            address: log.address,
+            args: (log as unknown as { args: Record<string, any> }).args,
+            blockNumber: log.blockNumber as bigint,
+            logIndex: log.logIndex as number,
+            transactionHash: log.transactionHash as Hash,
+            timestamp: timestamps.get(log.blockNumber as bigint) ?? 0n,
+          })),
+        );
+
+        nextCursor = rangeStart > fromBlock ? rangeStart - 1n : null;
+        if (nextCursor === null) break;
+        rangeEnd = nextCursor;
+      }
+
+      pageEvents.sort((a, b) =>
+        a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : a.blockNumber > b.blockNumber ? -1 : 1,
+      );
+      return { pageEvents, nextCursor };
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [publicClient, sourcesKey, fromBlock, blockRange],
+  );
+
+  const loadPage = useCallback(
+    async (toBlock: bigint | undefined, reset: boolean) => {
+      if (!publicClient || !enabled) return;
+
+      const run = runRef.current;
+      setIsLoading(true);
+      try {
+        const startBlock = toBlock ?? (await publicClient.getBlockNumber({ cacheTime: 0 }));
+        const { pageEvents, nextCursor } = await readPage(startBlock);
+        if (run !== runRef.current) return;
+        setEvents(prevEvents => (reset ? pageEvents : [...prevEvents, ...pageEvents]));
+        setCursor(nextCursor);
+        setError(undefined);
+      } catch (e: any) {
+        if (run !== runRef.current) return;
+        setError(e?.message ?? String(e));
+        console.error("Failed to fetch event history:", e);
+      } finally {
+        if (run === runRef.current) setIsLoading(false);
+      }
+    },
+    [publicClient, enabled, readPage],
+  );
+
+  // Effect to restart from the latest block when the sources or the chain change
+  useEffect(() => {
+    setEvents([]);
+    setCursor(undefined);
+    setError(undefined);
+    setIsLoading(false);
+    const run = runRef.current;
+    loadPage(undefined, true);
+    return () => {
+      runRef.current = run + 1;
+    };
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (cursor !== null && cursor !== undefined && !isLoading) loadPage(cursor, false);
+  }, [cursor, isLoading, loadPage]);
+
+  // Reads every remaining page down to fromBlock, for the views that need the complete history
+  const loadAll = useCallback(async () => {
+    if (!enabled || isLoading || cursor === null || cursor === undefined) return;
+
+    // A change of sources or chain stops the scan
+    const run = runRef.current;
+    setIsLoading(true);
+    try {
+      let nextCursor: bigint | null = cursor;
+      while (nextCursor !== null) {
+        const page = await readPage(nextCursor);
+        if (run !== runRef.current) return;
+        setEvents(prevEvents => [...prevEvents, ...page.pageEvents]);
+        nextCursor = page.nextCursor;
+        setCursor(nextCursor);
+      }
+      setError(undefined);
+    } catch (e: any) {
+      if (run !== runRef.current) return;
+      setError(e?.message ?? String(e));
+      console.error("Failed to fetch event history:", e);
+    } finally {
+      if (run === runRef.current) setIsLoading(false);
+    }
+  }, [enabled, isLoading, cursor, readPage]);
+
+  return {
+    data: events,
+    isLoading,
+    error,
+    hasMore: cursor !== null && cursor !== undefined,
+    loadMore,
+    loadAll,
+  };
+};
+
+export default useContractEventHistory;
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Address, PublicClient } from "viem";
+import { usePublicClient } from "wagmi";
+
+// Lookups per chain and contract, shared by every history reading the same contract
+const deploymentBlocks = new Map<string, Promise<bigint>>();
+
+/**
+ * Finds the block where a contract was deployed, searching for the first block with its bytecode.
+ * Needs an RPC serving historical state.
+ * @param {PublicClient} publicClient - The client of the contract chain.
+ * @param {Address} address - The contract address.
+ * @returns {Promise<bigint>} - The deployment block.
+ */
+const findDeploymentBlock = async (publicClient: PublicClient, address: Address) => {
+  let low = 0n;
+  let high = await publicClient.getBlockNumber();
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    const bytecode = await publicClient.getBytecode({ address, blockNumber: middle });
+    if (bytecode && bytecode !== "0x") {
+      high = middle;
+    } else {
+      low = middle + 1n;
+    }
+  }
+  return low;
+};
+
+/**
+ * Custom hook to get the deployment block of a contract, where the event history scans of that contract stop.
+ * @param {number} chainId - The chain of the contract.
+ * @param {Address | undefined} address - The contract address, nothing is looked up without it.
+ * @param {bigint | undefined} knownBlock - The block from the config, used instead of the lookup when set.
+ * @returns {Object} - Contains the deployment block, undefined while it is looked up.
+ */
+const useDeploymentBlock = (chainId: number, address: Address | undefined, knownBlock?: bigint) => {
+  const publicClient = usePublicClient({ chainId });
+  const [deploymentBlock, setDeploymentBlock] = useState<bigint | undefined>(knownBlock);
+
+  useEffect(() => {
+    setDeploymentBlock(knownBlock);
+    if (knownBlock !== undefined || !publicClient || !address) return;
+
+    let isCancelled = false;
+    const key = `${chainId}-${address.toLowerCase()}`;
+    let lookup = deploymentBlocks.get(key);
+    if (!lookup) {
+      lookup = findDeploymentBlock(publicClient, address).catch(e => {
+        // Scanning from the genesis block is slower but misses nothing
+        console.error("Error looking up the contract deployment block:", e);
+        deploymentBlocks.delete(key);
+        return 0n;
+      });
+      deploymentBlocks.set(key, lookup);
+    }
+    lookup.then(block => {
+      if (!isCancelled) setDeploymentBlock(block);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [publicClient, chainId, address, knownBlock]);
+
+  return { deploymentBlock };
+};
+
+export default useDeploymentBlock;
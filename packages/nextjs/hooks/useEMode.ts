@@ -0,0 +1,193 @@
+import { useMemo } from "react";
+import useAccountAddress from "./useAccount";
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
+import useReserveConfigurations from "./useReserveConfigurations";
+import externalContracts from "@/contracts/externalContracts";
+import { Abi } from "abitype";
+import { Address, maxUint256 } from "viem";
+import { useReadContracts, useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
+
+const RAY = 10n ** 27n;
+
+/**
+ * E-Mode category as stored by the Pool, with the reserves that belong to it.
+ */
+export interface EModeCategory {
+  id: number;
+  label: string;
+  ltv: number; // Basis points
+  liquidationThreshold: number; // Basis points
+  liquidationBonus: number; // Basis points, 10000 means no bonus
+  assets: Address[];
+}
+
+/**
+ * Custom hook to read the user E-Mode, the E-Mode categories of the market and switch between them.
+ * @returns {Object} - Contains the categories, the user category, the reserve categories, helpers to check a switch, the switch handler and its states.
+ */
+const useEMode = () => {
+  const { market } = useLendingMarket();
+  const pool = externalContracts[market.chainId].Pool;
+  const { address } = useAccountAddress();
+  const { reservesData, userReservesData } = useReserves();
+  const { writeContract, error, data: eModeHash, isPending } = useWriteContract();
+  const { isConfirmed } = useRefreshAfterTransaction(eModeHash);
+
+  const { reserveStates } = useReserveConfigurations();
+
+  const reserveCategories = useMemo(() => {
+    const categories: Record<Address, number> = {};
+    (Object.keys(reserveStates) as Address[]).forEach(asset => {
+      categories[asset] = reserveStates[asset].configuration.eModeCategory;
+    });
+    return categories;
+  }, [reserveStates]);
+
+  const categoryIds = useMemo(
+    () => Array.from(new Set(Object.values(reserveCategories).filter(id => id > 0))).sort((a, b) => a - b),
+    [reserveCategories],
+  );
+
+  const { data: categoriesData } = useReadContracts({
+    contracts: categoryIds.map(id => ({
+      address: pool.address,
+      abi: pool.abi as Abi,
+      functionName: "getEModeCategoryData",
+      args: [id],
+      chainId: market.chainId,
+    })),
+    query: { enabled: categoryIds.length > 0 },
+  });
+
+  const { data: userData, isLoading } = useReadContracts({
+    contracts: [
+      {
+        address: pool.address,
+        abi: pool.abi as Abi,
+        functionName: "getUserEMode",
+        args: [address],
+        chainId: market.chainId,
+      },
+      {
+        address: pool.address,
+        abi: pool.abi as Abi,
+        functionName: "getUserAccountData",
+        args: [address],
+        chainId: market.chainId,
+      },
+    ],
+    query: { enabled: !!address },
+  });
+
+  const categories = useMemo(
+    (): EModeCategory[] =>
+      categoryIds.flatMap((id, index) => {
+        const data = categoriesData?.[index]?.result as
+          | { ltv: number; liquidationThreshold: number; liquidationBonus: number; label: string }
+          | undefined;
+        if (!data) return [];
+        return [
+          {
+            id,
+            label: data.label,
+            ltv: data.ltv,
+            liquidationThreshold: data.liquidationThreshold,
+            liquidationBonus: data.liquidationBonus,
+            assets: (Object.keys(reserveCategories) as Address[]).filter(asset => reserveCategories[asset] === id),
+          },
+        ];
+      }),
+    [categoryIds, categoriesData, reserveCategories],
+  );
+
+  const userCategoryId = userData?.[0]?.result !== undefined ? Number(userData[0].result) : 0;
+  const accountData = userData?.[1]?.result as readonly bigint[] | undefined;
+  const totalDebtBase = accountData?.[1];
+  const currentHealthFactor = accountData?.[5];
+
+  /**
+   * Lists the borrowed assets that are not in a category, which make the Pool reject the switch.
+   * @param {number} categoryId - The target category, 0 to leave E-Mode.
+   * @returns {Address[]} - The blocking assets.
+   */
+  const getBlockingAssets = (categoryId: number) => {
+    if (categoryId === 0) return [];
+    return (userReservesData ?? [])
+      .filter(userReserve => userReserve.scaledVariableDebt > 0n || userReserve.principalStableDebt > 0n)
+      .map(userReserve => userReserve.underlyingAsset as Address)
+      .filter(asset => reserveCategories[asset] !== categoryId);
+  };
+
+  /**
+   * Sums the user collateral weighted by its liquidation threshold under a category.
+   * @param {number} categoryId - The category used for the reserves that belong to it.
+   * @returns {bigint} - The weighted collateral in market reference currency times basis points.
+   */
+  const getWeightedCollateral = (categoryId: number) => {
+    const category = categories.find(({ id }) => id === categoryId);
+    return (userReservesData ?? []).reduce((sum, userReserve) => {
+      const reserve = reservesData?.find(({ underlyingAsset }) => underlyingAsset === userReserve.underlyingAsset);
+      if (!reserve || !userReserve.usageAsCollateralEnabledOnUser || userReserve.scaledATokenBalance === 0n) {
+        return sum;
+      }
+      const balance = (userReserve.scaledATokenBalance * reserve.liquidityIndex) / RAY;
+      const value = (balance * reserve.priceInMarketReferenceCurrency) / 10n ** reserve.decimals;
+      const liquidationThreshold =
+        category && reserveCategories[reserve.underlyingAsset] === categoryId
+          ? BigInt(category.liquidationThreshold)
+          : reserve.reserveLiquidationThreshold;
+      return sum + value * liquidationThreshold;
+    }, 0n);
+  };
+
+  /**
+   * Projects the health factor after switching to a category.
+   * @param {number} categoryId - The target category, 0 to leave E-Mode.
+   * @returns {bigint | null | undefined} - The health factor with 18 decimals, null without debt, undefined while loading.
+   */
+  const getProjectedHealthFactor = (categoryId: number) => {
+    if (currentHealthFactor === undefined || totalDebtBase === undefined) return undefined;
+    if (totalDebtBase === 0n || currentHealthFactor === maxUint256) return null;
+    const currentCollateral = getWeightedCollateral(userCategoryId);
+    if (currentCollateral === 0n) return currentHealthFactor;
+    return (currentHealthFactor * getWeightedCollateral(categoryId)) / currentCollateral;
+  };
+
+  /**
+   * Sends the E-Mode switch to the Pool.
+   * @param {number} categoryId - The target category, 0 to leave E-Mode.
+   */
+  const handleSetUserEMode = (categoryId: number) => {
+    try {
+      writeContract({
+        abi: pool.abi,
+        address: pool.address,
+        chainId: market.chainId,
+        functionName: "setUserEMode",
+        args: [categoryId],
+      });
+    } catch (err) {
+      console.error("Error executing contract function:", err);
+    }
+  };
+
+  return {
+    categories,
+    userCategoryId,
+    reserveCategories,
+    currentHealthFactor: totalDebtBase === 0n ? null : currentHealthFactor,
+    getBlockingAssets,
+    getProjectedHealthFactor,
+    handleSetUserEMode,
+    isLoading,
+    isPending,
+    isConfirmed,
+    isError: !!error,
+    error,
+    eModeHash,
+  };
+};
+
+export default useEMode;
@@ -0,0 +1,121 @@
+import useAccountAddress from "./useAccount";
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
+import externalContracts from "@/contracts/externalContracts";
+import { Abi } from "abitype";
+import { Address, Hex } from "viem";
+import { usePublicClient, useReadContract, useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+
+/**
+ * Asset borrowed by a flash loan.
+ */
+export interface FlashLoanAsset {
+  asset: Address;
+  amount: bigint; // In the asset units
+  interestRateMode: number; // 0 repays in the same transaction, 1 or 2 opens a stable or variable debt
+}
+
+/**
+ * Flash loan built on the page, sent with flashLoanSimple when it borrows a single asset without opening a debt.
+ */
+export interface FlashLoanRequest {
+  receiver: Address; // Contract implementing executeOperation
+  assets: FlashLoanAsset[];
+  params: Hex; // Encoded data passed to the receiver
+  onBehalfOf: Address; // Account receiving the debt of the assets not repaid
+}
+
+/**
+ * Builds the Pool function and arguments of a flash loan.
+ * @param {FlashLoanRequest} request - The flash loan.
+ * @returns {Object} - Contains the function name and its arguments.
+ */
+const getFlashLoanCall = ({ receiver, assets, params, onBehalfOf }: FlashLoanRequest) => {
+  if (assets.length === 1 && assets[0].interestRateMode === 0) {
+    return {
+      functionName: "flashLoanSimple",
+      args: [receiver, assets[0].asset, assets[0].amount, params, 0],
+    };
+  }
+  return {
+    functionName: "flashLoan",
+    args: [
+      receiver,
+      assets.map(({ asset }) => asset),
+      assets.map(({ amount }) => amount),
+      assets.map(({ interestRateMode }) => BigInt(interestRateMode)),
+      onBehalfOf,
+      params,
+      0,
+    ],
+  };
+};
+
+/**
+ * Custom hook to simulate and send flash loans of the Pool.
+ * @returns {Object} - Contains the premium in basis points, the simulate and send handlers and contract interaction states.
+ */
+const useFlashLoan = () => {
+  const { market } = useLendingMarket();
+  const { address } = useAccountAddress();
+  const publicClient = usePublicClient({ chainId: market.chainId });
+  // Hook for writing to a smart contract
+  const { writeContract, error, data: flashLoanHash, isPending } = useWriteContract();
+  useRefreshAfterTransaction(flashLoanHash);
+  const pool = externalContracts[market.chainId].Pool;
+
+  const { data: premiumTotal } = useReadContract({
+    address: pool.address,
+    abi: pool.abi as Abi,
+    functionName: "FLASHLOAN_PREMIUM_TOTAL",
+    chainId: market.chainId,
+  });
+
+  /**
+   * Runs the flash loan with eth_call from the connected account, throwing the revert when it fails.
+   * @param {FlashLoanRequest} request - The flash loan to simulate.
+   */
+  const simulateFlashLoan = async (request: FlashLoanRequest) => {
+    if (!publicClient) throw new Error("Public client is not available.");
+    await publicClient.simulateContract({
+      account: address,
+      address: pool.address,
+      abi: pool.abi as Abi,
+      ...getFlashLoanCall(request),
+    });
+  };
+
+  /**
+   * Handles the flash loan transaction by writing to the smart contract.
+   * @param {FlashLoanRequest} request - The flash loan to send.
+   */
+  const handleFlashLoan = (request: FlashLoanRequest) => {
+    if (!pool || !pool.abi || !pool.address) {
+      console.error("Pool contract is not properly defined.");
+      return;
+    }
+
+    try {
+      writeContract({
+        abi: pool.abi as Abi,
+        address: pool.address,
+        chainId: market.chainId,
+        ...getFlashLoanCall(request),
+      });
+    } catch (err) {
+      console.error("Error executing contract function:", err);
+    }
+  };
+
+  return {
+    premiumTotal: premiumTotal as bigint | undefined,
+    simulateFlashLoan,
+    handleFlashLoan,
+    isError: !!error,
+    error,
+    flashLoanHash,
+    isPending,
+  };
+};
+
+export default useFlashLoan;
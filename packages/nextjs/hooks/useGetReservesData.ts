@@ -1,11 +1,8 @@
 import { useEffect, useState } from "react";
-import CONFIG from "@/config";
 import externalContracts from "@/contracts/externalContracts";
-import { ContractResult, ReserveData } from "@/types/types";
+import { BaseCurrencyInfo, ContractResult, ReserveData } from "@/types/types";
 import { useReadContracts } from "wagmi";
-
-// Define the contract address and ABI for UiPoolDataProviderV3
-const uiPoolDataProviderV3 = externalContracts[8453].UiPoolDataProviderV3;
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Utility function to check if an object has the same structure as a reference object.
@@ -20,26 +17,41 @@ const hasSameStructure = (obj: any, reference: any) => {
 
 /**
  * Custom hook to fetch reserve data from smart contracts.
- * @returns {Object} - Contains reserve data, loading state, and error state.
+ * @returns {Object} - Contains reserve data, base currency info, loading state, error state and refetch function.
  */
 const useGetReservesData = () => {
+  const { market } = useLendingMarket();
+  const uiPoolDataProviderV3 = externalContracts[market.chainId].UiPoolDataProviderV3;
   const [reservesData, setReservesData] = useState<ReserveData[] | null>(null);
+  const [baseCurrencyInfo, setBaseCurrencyInfo] = useState<BaseCurrencyInfo | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isError, setIsError] = useState<boolean>(false);
 
   // Hook to read data from smart contracts
-  const { data: result, isError: isFetchingError } = useReadContracts({
+  const {
+    data: result,
+    isError: isFetchingError,
+    refetch,
+  } = useReadContracts({
     contracts: [
       {
         address: uiPoolDataProviderV3.address,
         abi: uiPoolDataProviderV3.abi,
         functionName: "getReservesData",
-        args: [CONFIG.POOL_ADDRESSES_PROVIDER],
-        chainId: 8453,
+        args: [market.POOL_ADDRESSES_PROVIDER],
+        chainId: market.chainId,
       },
     ],
   });
 
+  // Data of the previously selected market must not show while the new one loads
+  useEffect(() => {
+    setReservesData(null);
+    setBaseCurrencyInfo(null);
+    setIsLoading(true);
+    setIsError(false);
+  }, [market.chainId]);
+
   // Effect to handle the fetched data
   useEffect(() => {
     if (result) {
@@ -59,6 +71,8 @@ const useGetReservesData = () => {
 
           // Update state with filtered reserves and reset loading/error state
           setReservesData(extractedReserves);
+          // The reserves come with the prices of the market reference currency
+          setBaseCurrencyInfo((reserves[1] as unknown as BaseCurrencyInfo) ?? null);
           setIsLoading(false);
           setIsError(false);
 
@@ -76,7 +90,7 @@ const useGetReservesData = () => {
     }
   }, [result, isFetchingError]);
 
-  return { reservesData, isLoading, isError };
+  return { reservesData, baseCurrencyInfo, isLoading, isError, refetch };
 };
 
 export default useGetReservesData;
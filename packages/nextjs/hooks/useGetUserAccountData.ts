@@ -2,9 +2,7 @@ import { useEffect, useState } from "react";
 import externalContracts from "@/contracts/externalContracts";
 import { Abi } from "abitype";
 import { useReadContracts } from "wagmi";
-
-// Define the contract address and ABI for Pool
-const poolContract = externalContracts[8453].Pool;
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Custom hook to fetch user account data from smart contracts and log it to the console.
@@ -12,6 +10,8 @@ const poolContract = externalContracts[8453].Pool;
  * @returns {Object} - Contains loading state, data, and error state.
  */
 const useGetUserAccountData = (userAddress: string) => {
+  const { market } = useLendingMarket();
+  const poolContract = externalContracts[market.chainId].Pool;
   const [userAccountData, setUserAccountData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isError, setIsError] = useState<boolean>(false);
@@ -24,7 +24,7 @@ const useGetUserAccountData = (userAddress: string) => {
         abi: poolContract.abi as Abi,
         functionName: "getUserAccountData",
         args: [userAddress],
-        chainId: 8453,
+        chainId: market.chainId,
       },
     ],
   });
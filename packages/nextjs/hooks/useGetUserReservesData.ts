@@ -1,23 +1,19 @@
 import { useEffect, useState } from "react";
 import useAccountAddress from "./useAccount";
-import CONFIG from "@/config";
 import externalContracts from "@/contracts/externalContracts";
-import { ContractResult } from "@/types/types";
+import { ContractResult, UserReserveData } from "@/types/types";
+import { Address } from "viem";
 import { useReadContracts } from "wagmi";
-
-// Contract instance for UiPoolDataProviderV3
-const uiPoolDataProviderV3 = externalContracts[8453].UiPoolDataProviderV3;
-
-interface UserReserveData {
-  underlyingAsset: string;
-  usageAsCollateralEnabledOnUser: boolean;
-}
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Custom hook to fetch and manage user reserve data.
- * @returns {Object} - Contains user reserves data, loading state, and error state.
+ * @param {Address} [user] - The user to read, the connected account by default.
+ * @returns {Object} - Contains user reserves data, loading state, error state and refetch function.
  */
-const useGetUserReservesData = () => {
+const useGetUserReservesData = (user?: Address) => {
+  const { market } = useLendingMarket();
+  const uiPoolDataProviderV3 = externalContracts[market.chainId].UiPoolDataProviderV3;
   // State to store user reserves data
   const [userReservesData, setUserReservesData] = useState<UserReserveData[] | null>(null);
   // State to indicate if data is loading
@@ -29,18 +25,29 @@ const useGetUserReservesData = () => {
   const { address } = useAccountAddress();
 
   // Hook to read data from contracts
-  const { data: result, isError: isFetchingError } = useReadContracts({
+  const {
+    data: result,
+    isError: isFetchingError,
+    refetch,
+  } = useReadContracts({
     contracts: [
       {
         address: uiPoolDataProviderV3.address,
         abi: uiPoolDataProviderV3.abi,
         functionName: "getUserReservesData",
-        args: [CONFIG.POOL_ADDRESSES_PROVIDER, address],
-        chainId: 8453,
+        args: [market.POOL_ADDRESSES_PROVIDER, user ?? address],
+        chainId: market.chainId,
       },
     ],
   });
 
+  // Data of the previously selected market must not show while the new one loads
+  useEffect(() => {
+    setUserReservesData(null);
+    setIsLoading(true);
+    setIsError(false);
+  }, [market.chainId]);
+
   // Effect to handle data fetching and state updates
   useEffect(() => {
     if (result) {
@@ -50,6 +57,11 @@ const useGetUserReservesData = () => {
         const extractedUserReserves: UserReserveData[] = userReserves.map((reserve: any) => ({
           underlyingAsset: reserve.underlyingAsset,
           usageAsCollateralEnabledOnUser: reserve.usageAsCollateralEnabledOnUser,
+          scaledATokenBalance: reserve.scaledATokenBalance,
+          scaledVariableDebt: reserve.scaledVariableDebt,
+          principalStableDebt: reserve.principalStableDebt,
+          stableBorrowRate: reserve.stableBorrowRate,
+          stableBorrowLastUpdateTimestamp: reserve.stableBorrowLastUpdateTimestamp,
         }));
 
         setUserReservesData(extractedUserReserves);
@@ -63,7 +75,7 @@ const useGetUserReservesData = () => {
     }
   }, [result, isFetchingError]);
 
-  return { userReservesData, isLoading, isError };
+  return { userReservesData, isLoading, isError, refetch };
 };
 
 export default useGetUserReservesData;
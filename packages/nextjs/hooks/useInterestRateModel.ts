@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+import { ReserveData } from "@/types/types";
+import { Abi } from "abitype";
+import { Address } from "viem";
+import { useReadContracts } from "wagmi";
+import { interestRateStrategyABI } from "~~/app/components/abis/interestRateStrategy";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { InterestRateModel } from "~~/utils/interestRateModel";
+import { rayToNumber } from "~~/utils/rateMath";
+
+/**
+ * Custom hook to read the interest rate model of a reserve.
+ * The slopes come with the reserve data, the optimal usage ratio and the base rates are read from its strategy.
+ * @param {ReserveData | undefined} reserve - The reserve.
+ * @returns {Object} - Contains the interest rate model, undefined when the strategy does not expose it, and the loading state.
+ */
+const useInterestRateModel = (reserve: ReserveData | undefined) => {
+  const { market } = useLendingMarket();
+  const { data, isLoading } = useReadContracts({
+    contracts: ["OPTIMAL_USAGE_RATIO", "getBaseVariableBorrowRate", "getBaseStableBorrowRate"].map(functionName => ({
+      address: reserve?.interestRateStrategyAddress as Address,
+      abi: interestRateStrategyABI as Abi,
+      functionName,
+      chainId: market.chainId,
+    })),
+    query: { enabled: !!reserve },
+  });
+
+  const model = useMemo((): InterestRateModel | undefined => {
+    const [optimalUsageRatio, baseVariableBorrowRate, baseStableBorrowRate] = (data ?? []).map(
+      ({ result }) => result as bigint | undefined,
+    );
+    if (!reserve || optimalUsageRatio === undefined || baseVariableBorrowRate === undefined) return undefined;
+    return {
+      optimalUsageRatio: rayToNumber(optimalUsageRatio),
+      baseVariableBorrowRate: rayToNumber(baseVariableBorrowRate),
+      variableRateSlope1: rayToNumber(reserve.variableRateSlope1),
+      variableRateSlope2: rayToNumber(reserve.variableRateSlope2),
+      baseStableBorrowRate: rayToNumber(baseStableBorrowRate ?? 0n),
+      stableRateSlope1: rayToNumber(reserve.stableRateSlope1),
+      stableRateSlope2: rayToNumber(reserve.stableRateSlope2),
+      reserveFactor: Number(reserve.reserveFactor) / 10_000,
+    };
+  }, [data, reserve]);
+
+  return { model, isLoading };
+};
+
+export default useInterestRateModel;
@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from "react";
+import externalContracts from "@/contracts/externalContracts";
+import { BaseCurrencyInfo, ReserveData } from "@/types/types";
+import { Abi } from "abitype";
+import { Address, Hash, formatUnits } from "viem";
+import { usePublicClient } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
+import useContractEventHistory, { EventSource } from "~~/hooks/useContractEventHistory";
+import useMarketStartBlock from "~~/hooks/useMarketStartBlock";
+import { toUsdValue } from "~~/utils/rateMath";
+
+export type LendingHistoryAction =
+  | "Supply"
+  | "Withdraw"
+  | "Borrow"
+  | "Repay"
+  | "LiquidationCall"
+  | "ReserveUsedAsCollateralEnabled"
+  | "ReserveUsedAsCollateralDisabled";
+
+/**
+ * A lending action on the user position, valued with the prices of its block.
+ */
+export interface LendingHistoryEntry {
+  action: LendingHistoryAction;
+  asset: Address; // Collateral asset of the liquidations
+  amount: bigint | undefined; // In the asset units, undefined for the collateral switches
+  amountUsd: number | undefined; // Undefined until the prices of the block load
+  debtAsset: Address | undefined; // Only for the liquidations
+  debtAmount: bigint | undefined;
+  debtAmountUsd: number | undefined;
+  blockNumber: bigint;
+  timestamp: bigint;
+  transactionHash: Hash;
+}
+
+/**
+ * Interest of the user in a reserve, the current balances minus the net principals of the history.
+ */
+export interface LendingInterest {
+  reserve: ReserveData;
+  suppliedPrincipal: bigint; // Supplied minus withdrawn, repaid with aTokens and liquidated
+  borrowedPrincipal: bigint; // Borrowed minus repaid and liquidated
+  interestEarned: bigint;
+  borrowInterest: bigint;
+  interestEarnedUsd: number;
+  borrowInterestUsd: number;
+}
+
+// USD price of one token per underlying asset, lowercased
+type BlockPrices = Record<string, number>;
+
+const getBlockKey = (chainId: number, blockNumber: bigint) => `${chainId}-${blockNumber}`;
+
+/**
+ * Custom hook to build the user's lending history on the selected market from the Pool events.
+ * Amounts are valued with the oracle prices of their block, and the interest of each reserve is computed once the
+ * history is complete. aToken transfers between accounts are not Pool events, so they count as interest.
+ * @param {Address | undefined} address - The address of the user.
+ * @returns {Object} - Contains the history entries newest first, the interest per reserve, loading state, error and the paging state.
+ */
+const useLendingHistory = (address: Address | undefined) => {
+  const { market } = useLendingMarket();
+  const { reservesData, assets } = useReserves();
+  const { startBlock } = useMarketStartBlock();
+  const publicClient = usePublicClient({ chainId: market.chainId });
+  const pool = externalContracts[market.chainId].Pool;
+  const uiPoolDataProviderV3 = externalContracts[market.chainId].UiPoolDataProviderV3;
+  // Prices per chain and block number, null when the block could not be read
+  const [blockPrices, setBlockPrices] = useState<Record<string, BlockPrices | null>>({});
+
+  const sources = useMemo((): EventSource[] => {
+    if (!address) return [];
+    const abi = pool.abi as Abi;
+    // Positions belong to onBehalfOf for supplies and borrows, and to user for the other actions
+    return [
+      { address: pool.address, abi, eventName: "Supply", args: { onBehalfOf: address } },
+      { address: pool.address, abi, eventName: "Withdraw", args: { user: address } },
+      { address: pool.address, abi, eventName: "Borrow", args: { onBehalfOf: address } },
+      { address: pool.address, abi, eventName: "Repay", args: { user: address } },
+      { address: pool.address, abi, eventName: "LiquidationCall", args: { user: address } },
+      { address: pool.address, abi, eventName: "ReserveUsedAsCollateralEnabled", args: { user: address } },
+      { address: pool.address, abi, eventName: "ReserveUsedAsCollateralDisabled", args: { user: address } },
+    ];
+  }, [pool, address]);
+
+  const {
+    data,
+    isLoading: isLoadingEvents,
+    error,
+    hasMore,
+    loadMore,
+    loadAll,
+  } = useContractEventHistory({
+    sources,
+    chainId: market.chainId,
+    fromBlock: startBlock,
+    enabled: sources.length > 0 && startBlock !== undefined,
+  });
+  const isLoading = isLoadingEvents || (sources.length > 0 && startBlock === undefined);
+
+  // Effect to read the reserve prices at the blocks of the events not valued yet
+  useEffect(() => {
+    if (!publicClient) return;
+    const blockNumbers = [...new Set(data.map(event => event.blockNumber))].filter(
+      blockNumber => !(getBlockKey(market.chainId, blockNumber) in blockPrices),
+    );
+    if (blockNumbers.length === 0) return;
+
+    let isCancelled = false;
+    const fetchBlockPrices = async () => {
+      const fetchedPrices: Record<string, BlockPrices | null> = {};
+      for (const blockNumber of blockNumbers) {
+        // A newer run of the effect takes over the blocks left
+        if (isCancelled) break;
+        let prices: BlockPrices | null = null;
+        try {
+          const [reserves, baseCurrencyInfo] = (await publicClient.readContract({
+            address: uiPoolDataProviderV3.address,
+            abi: uiPoolDataProviderV3.abi,
+            functionName: "getReservesData",
+            args: [market.POOL_ADDRESSES_PROVIDER],
+            blockNumber,
+          })) as unknown as [ReserveData[], BaseCurrencyInfo];
+          prices = Object.fromEntries(
+            reserves.map(reserve => {
+              const decimals = Number(reserve.decimals);
+              const price = toUsdValue(
+                10n ** BigInt(decimals),
+                reserve.priceInMarketReferenceCurrency,
+                decimals,
+                baseCurrencyInfo,
+              );
+              return [reserve.underlyingAsset.toLowerCase(), price];
+            }),
+          );
+        } catch (e) {
+          console.error("Error fetching the reserve prices of block", blockNumber, e);
+        }
+        fetchedPrices[getBlockKey(market.chainId, blockNumber)] = prices;
+      }
+      // Stored once for the whole run, as every update runs the effect again; the keys hold the chain so the prices
+      // of a cancelled run stay valid
+      setBlockPrices(prevPrices => ({ ...prevPrices, ...fetchedPrices }));
+    };
+
+    fetchBlockPrices();
+    return () => {
+      isCancelled = true;
+    };
+  }, [publicClient, data, blockPrices, uiPoolDataProviderV3, market.chainId, market.POOL_ADDRESSES_PROVIDER]);
+
+  const entries = useMemo(
+    () =>
+      data.map((event): LendingHistoryEntry => {
+        const action = event.eventName as LendingHistoryAction;
+        const prices = blockPrices[getBlockKey(market.chainId, event.blockNumber)];
+        const toUsd = (asset: Address, amount: bigint | undefined) => {
+          const price = prices?.[asset.toLowerCase()];
+          const reserve = reservesData?.find(({ underlyingAsset }) => underlyingAsset === asset);
+          if (amount === undefined || price === undefined || !reserve) return undefined;
+          return Number(formatUnits(amount, Number(reserve.decimals))) * price;
+        };
+
+        const isLiquidation = action === "LiquidationCall";
+        const asset = (isLiquidation ? event.args.collateralAsset : event.args.reserve) as Address;
+        const amount = (isLiquidation ? event.args.liquidatedCollateralAmount : event.args.amount) as
+          | bigint
+          | undefined;
+        const debtAsset = isLiquidation ? (event.args.debtAsset as Address) : undefined;
+        const debtAmount = isLiquidation ? (event.args.debtToCover as bigint) : undefined;
+
+        return {
+          action,
+          asset,
+          amount,
+          amountUsd: toUsd(asset, amount),
+          debtAsset,
+          debtAmount,
+          debtAmountUsd: debtAsset ? toUsd(debtAsset, debtAmount) : undefined,
+          blockNumber: event.blockNumber,
+          timestamp: event.timestamp,
+          transactionHash: event.transactionHash,
+        };
+      }),
+    [data, blockPrices, reservesData, market.chainId],
+  );
+
+  // The net principals need every event since the first supply, so the interest waits for the complete history
+  const interest = useMemo(() => {
+    if (hasMore || isLoading) return [];
+
+    const principals = new Map<string, { supplied: bigint; borrowed: bigint }>();
+    const addPrincipal = (asset: Address, supplied: bigint, borrowed: bigint) => {
+      const principal = principals.get(asset.toLowerCase()) ?? { supplied: 0n, borrowed: 0n };
+      principals.set(asset.toLowerCase(), {
+        supplied: principal.supplied + supplied,
+        borrowed: principal.borrowed + borrowed,
+      });
+    };
+
+    data.forEach(({ eventName, args }) => {
+      const amount = args.amount as bigint;
+      switch (eventName) {
+        case "Supply":
+          addPrincipal(args.reserve, amount, 0n);
+          break;
+        case "Withdraw":
+          addPrincipal(args.reserve, -amount, 0n);
+          break;
+        case "Borrow":
+          addPrincipal(args.reserve, 0n, amount);
+          break;
+        case "Repay":
+          // Repaying with aTokens burns them instead of transferring the asset
+          addPrincipal(args.reserve, args.useATokens ? -amount : 0n, -amount);
+          break;
+        case "LiquidationCall":
+          addPrincipal(args.collateralAsset, -(args.liquidatedCollateralAmount as bigint), 0n);
+          addPrincipal(args.debtAsset, 0n, -(args.debtToCover as bigint));
+          break;
+      }
+    });
+
+    return assets.flatMap(({ reserve, supplied, variableDebt, stableDebt, priceInUsd }): LendingInterest[] => {
+      const principal = principals.get(reserve.underlyingAsset.toLowerCase());
+      if (!principal) return [];
+      const interestEarned = supplied - principal.supplied;
+      const borrowInterest = variableDebt + stableDebt - principal.borrowed;
+      const toUsd = (amount: bigint) => Number(formatUnits(amount, Number(reserve.decimals))) * priceInUsd;
+
+      return [
+        {
+          reserve,
+          suppliedPrincipal: principal.supplied,
+          borrowedPrincipal: principal.borrowed,
+          interestEarned,
+          borrowInterest,
+          interestEarnedUsd: toUsd(interestEarned),
+          borrowInterestUsd: toUsd(borrowInterest),
+        },
+      ];
+    });
+  }, [hasMore, isLoading, data, assets]);
+
+  return { entries, interest, isLoading, error, hasMore, loadMore, loadAll };
+};
+
+export default useLendingHistory;
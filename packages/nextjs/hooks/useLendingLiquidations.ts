@@ -0,0 +1,80 @@
+import { useCallback, useMemo } from "react";
+import externalContracts from "@/contracts/externalContracts";
+import { Abi } from "abitype";
+import { Address } from "viem";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import useAccountScan, { AccountCall } from "~~/hooks/useAccountScan";
+import { EventSource, HistoryEvent } from "~~/hooks/useContractEventHistory";
+import useMarketStartBlock from "~~/hooks/useMarketStartBlock";
+import { HEALTH_FACTOR_ONE } from "~~/utils/lendingMath";
+
+/**
+ * A lending borrower whose health factor allows a liquidation.
+ */
+export interface LendingLiquidationCandidate {
+  user: Address;
+  totalCollateralBase: bigint;
+  totalDebtBase: bigint;
+  healthFactor: bigint; // 18 decimals
+}
+
+/**
+ * Custom hook to find the lending borrowers that can be liquidated.
+ * Borrowers come from the Pool Borrow events, scanned back to the market start block, and their health factors are
+ * read in multicall batches once the scan stops. The list is partial when the scan stopped with hasMore set.
+ * @returns {Object} - Contains the liquidatable borrowers riskiest first, loading state, errors, the event paging state and a refresh function.
+ */
+const useLendingLiquidations = () => {
+  const { market } = useLendingMarket();
+  const { startBlock } = useMarketStartBlock();
+  const pool = externalContracts[market.chainId].Pool;
+
+  const sources = useMemo(
+    (): EventSource[] => [{ address: pool.address, abi: pool.abi as Abi, eventName: "Borrow" }],
+    [pool],
+  );
+
+  // The debt belongs to onBehalfOf, which differs from the caller with credit delegation
+  const getBorrowers = useCallback(
+    (events: HistoryEvent[]) => Array.from(new Set(events.map(event => event.args.onBehalfOf as Address))),
+    [],
+  );
+
+  const getCalls = useCallback(
+    (user: Address): AccountCall[] => [
+      { address: pool.address, abi: pool.abi as Abi, functionName: "getUserAccountData", args: [user] },
+    ],
+    [pool],
+  );
+
+  const { reads, accountsCount, isLoading, error, readError, hasMore, loadMore, refresh } = useAccountScan({
+    sources,
+    chainId: market.chainId,
+    fromBlock: startBlock,
+    getAccounts: getBorrowers,
+    getCalls,
+  });
+
+  const candidates = useMemo(() => {
+    const results = reads.flatMap(({ account: user, results: [accountData] }): LendingLiquidationCandidate[] => {
+      if (!accountData) return [];
+      const [totalCollateralBase, totalDebtBase, , , , healthFactor] = accountData as readonly bigint[];
+      if (totalDebtBase === 0n || healthFactor >= HEALTH_FACTOR_ONE) return [];
+      return [{ user, totalCollateralBase, totalDebtBase, healthFactor }];
+    });
+    return results.sort((a, b) => (a.healthFactor < b.healthFactor ? -1 : a.healthFactor > b.healthFactor ? 1 : 0));
+  }, [reads]);
+
+  return {
+    candidates,
+    borrowersCount: accountsCount,
+    isLoading,
+    error,
+    healthError: readError,
+    hasMore,
+    loadMore,
+    refresh,
+  };
+};
+
+export default useLendingLiquidations;
@@ -0,0 +1,111 @@
+import { useMemo } from "react";
+import useAccountAddress from "./useAccount";
+import useEMode from "./useEMode";
+import externalContracts from "@/contracts/externalContracts";
+import { ReserveData } from "@/types/types";
+import { Abi } from "abitype";
+import { formatUnits, parseUnits } from "viem";
+import { useReadContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
+import {
+  HEALTH_FACTOR_DECIMALS,
+  LendingAccount,
+  LendingAction,
+  LendingReserveInput,
+  getAvailableBorrowAmount,
+  getMaxAmountForHealthFactor,
+  projectHealthFactor,
+} from "~~/utils/lendingMath";
+
+/**
+ * Custom hook to project the health factor of a borrow or withdraw and the max amount that keeps it safe.
+ * @param {ReserveData | null} reserve - The reserve of the action.
+ * @param {LendingAction} action - The action to simulate.
+ * @param {string} amount - The amount typed by the user, in asset units.
+ * @param {string} safetyMargin - The health factor the max amount must keep, e.g. "1.5".
+ * @returns {Object} - Contains the current and projected health factors, the max amount as a string, undefined when not limited, and for borrows the amount the borrowing power allows.
+ */
+const useLendingSimulation = (
+  reserve: ReserveData | null,
+  action: LendingAction,
+  amount: string,
+  safetyMargin: string,
+) => {
+  const { market } = useLendingMarket();
+  const pool = externalContracts[market.chainId].Pool;
+  const { address } = useAccountAddress();
+  const { userReservesData } = useReserves();
+  const { categories, userCategoryId, reserveCategories } = useEMode();
+
+  const { data: accountData } = useReadContract({
+    address: pool.address,
+    abi: pool.abi as Abi,
+    functionName: "getUserAccountData",
+    args: [address],
+    chainId: market.chainId,
+    query: { enabled: !!address },
+  });
+
+  const account = useMemo((): LendingAccount | undefined => {
+    const result = accountData as readonly bigint[] | undefined;
+    if (!result) return undefined;
+    const [totalCollateralBase, totalDebtBase, availableBorrowsBase, currentLiquidationThreshold, , healthFactor] =
+      result;
+    return { totalCollateralBase, totalDebtBase, availableBorrowsBase, currentLiquidationThreshold, healthFactor };
+  }, [accountData]);
+
+  const reserveInput = useMemo((): LendingReserveInput | undefined => {
+    if (!reserve) return undefined;
+    // In E-Mode the category threshold replaces the reserve one for the assets of the category
+    const category = categories.find(({ id }) => id === userCategoryId);
+    const isInCategory = !!category && reserveCategories[reserve.underlyingAsset] === userCategoryId;
+    const userReserve = userReservesData?.find(({ underlyingAsset }) => underlyingAsset === reserve.underlyingAsset);
+    return {
+      priceInMarketReferenceCurrency: reserve.priceInMarketReferenceCurrency,
+      decimals: Number(reserve.decimals),
+      liquidationThreshold: isInCategory
+        ? BigInt(category.liquidationThreshold)
+        : BigInt(reserve.reserveLiquidationThreshold),
+      isCollateral: !!userReserve?.usageAsCollateralEnabledOnUser,
+    };
+  }, [reserve, categories, userCategoryId, reserveCategories, userReservesData]);
+
+  const parsedAmount = useMemo(() => {
+    if (!reserveInput || !amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) return undefined;
+    try {
+      return parseUnits(amount, reserveInput.decimals);
+    } catch {
+      return undefined;
+    }
+  }, [amount, reserveInput]);
+
+  if (!account || !reserveInput) {
+    return {
+      currentHealthFactor: undefined,
+      projectedHealthFactor: undefined,
+      maxAmount: undefined,
+      availableBorrowAmount: undefined,
+    };
+  }
+
+  const maxAmount = getMaxAmountForHealthFactor(
+    account,
+    action,
+    reserveInput,
+    parseUnits(safetyMargin, HEALTH_FACTOR_DECIMALS),
+  );
+
+  return {
+    currentHealthFactor: account.totalDebtBase === 0n ? null : account.healthFactor,
+    projectedHealthFactor:
+      parsedAmount !== undefined ? projectHealthFactor(account, action, parsedAmount, reserveInput) : undefined,
+    maxAmount: maxAmount !== undefined ? formatUnits(maxAmount, reserveInput.decimals) : undefined,
+    availableBorrowAmount:
+      action === "borrow"
+        ? formatUnits(getAvailableBorrowAmount(account, reserveInput), reserveInput.decimals)
+        : undefined,
+  };
+};
+
+export default useLendingSimulation;
@@ -0,0 +1,54 @@
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
+import externalContracts from "@/contracts/externalContracts";
+import { Address } from "viem";
+import { useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+
+/**
+ * Custom hook to handle liquidations of unhealthy lending positions.
+ * @returns {Object} - The liquidation handler function and contract interaction states.
+ */
+const useLiquidationCall = () => {
+  const { market } = useLendingMarket();
+  // Hook for writing to a smart contract
+  const { writeContract, error, data: liquidationHash, isPending } = useWriteContract();
+  useRefreshAfterTransaction(liquidationHash);
+  const pool = externalContracts[market.chainId].Pool;
+
+  /**
+   * Handles the liquidation transaction by writing to the smart contract.
+   * @param {Address} collateralAsset - The collateral received by the liquidator.
+   * @param {Address} debtAsset - The borrowed asset repaid by the liquidator.
+   * @param {Address} user - The borrower being liquidated.
+   * @param {BigInt} debtToCover - The debt to repay in wei.
+   * @param {boolean} receiveAToken - Whether to receive the collateral as aTokens instead of the underlying asset.
+   */
+  const handleLiquidationCall = (
+    collateralAsset: Address,
+    debtAsset: Address,
+    user: Address,
+    debtToCover: bigint,
+    receiveAToken: boolean,
+  ) => {
+    if (!pool || !pool.abi || !pool.address) {
+      console.error("Pool contract is not properly defined.");
+      return;
+    }
+
+    try {
+      writeContract({
+        abi: pool.abi,
+        address: pool.address,
+        chainId: market.chainId,
+        functionName: "liquidationCall",
+        args: [collateralAsset, debtAsset, user, debtToCover, receiveAToken],
+      });
+    } catch (err) {
+      console.error("Error executing contract function:", err);
+    }
+  };
+
+  return { handleLiquidationCall, isError: !!error, error, liquidationHash, isPending };
+};
+
+export default useLiquidationCall;
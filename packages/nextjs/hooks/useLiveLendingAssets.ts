@@ -0,0 +1,27 @@
+import { useEffect, useMemo, useState } from "react";
+import { getLendingAssets, useReserves } from "~~/context/ReservesContext";
+
+const TICK_INTERVAL = 1000; // Milliseconds between two accruals
+
+/**
+ * Custom hook to follow the user balances as they accrue interest, without reading the token balances.
+ * The lending store values are accrued every second from the scaled balances and the reserve indexes,
+ * until the next refresh of the store brings new indexes.
+ * @returns {LendingAsset[]} - The lending assets with their balances accrued up to now.
+ */
+const useLiveLendingAssets = () => {
+  const { reservesData, userReservesData, baseCurrencyInfo } = useReserves();
+  const [timestamp, setTimestamp] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setTimestamp(Math.floor(Date.now() / 1000)), TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  return useMemo(
+    () => getLendingAssets(reservesData, userReservesData, baseCurrencyInfo, timestamp),
+    [reservesData, userReservesData, baseCurrencyInfo, timestamp],
+  );
+};
+
+export default useLiveLendingAssets;
@@ -0,0 +1,16 @@
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import useDeploymentBlock from "~~/hooks/useDeploymentBlock";
+
+/**
+ * Custom hook to get the first block of the selected market, where its event history scans stop.
+ * It is the startBlock of the market config when set, otherwise the Pool deployment block looked up on chain.
+ * @returns {Object} - Contains the start block, undefined while it is looked up.
+ */
+const useMarketStartBlock = () => {
+  const { market } = useLendingMarket();
+  const { deploymentBlock } = useDeploymentBlock(market.chainId, market.POOL, market.startBlock);
+
+  return { startBlock: deploymentBlock };
+};
+
+export default useMarketStartBlock;
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { Abi } from "abitype";
+import { Address, Hash, parseEther } from "viem";
+import {
+  useAccount,
+  useBalance,
+  useEstimateFeesPerGas,
+  usePublicClient,
+  useReadContract,
+  useWriteContract,
+} from "wagmi";
+import { ERC20ABI } from "~~/app/components/abis/erc20";
+import { houseOfReserveABI } from "~~/app/components/abis/houseofreserve";
+import { useTranslation } from "~~/app/context/LanguageContext";
+import { useTransactor } from "~~/hooks/scaffold-eth";
+import { getParsedError } from "~~/utils/scaffold-eth";
+
+export type NativeStepKind = "wrap" | "approve" | "deposit" | "withdraw" | "unwrap";
+
+export type NativeStepStatus = "idle" | "pending" | "done" | "error";
+
+/**
+ * A transaction in a native deposit or withdraw flow.
+ */
+export interface NativeStep {
+  kind: NativeStepKind;
+  status: NativeStepStatus;
+  hash?: Hash;
+}
+
+// Gas kept back from the max native deposit, enough for the wrap, approve and deposit transactions
+const NATIVE_DEPOSIT_GAS = 500_000n;
+
+interface PlannedStep {
+  kind: NativeStepKind;
+  run: () => Promise<Hash>;
+}
+
+/**
+ * Custom hook to deposit and withdraw the chain's native coin in a HouseOfReserve backed by its wrapped version.
+ * Deposits wrap, approve if needed and deposit; withdrawals withdraw and optionally unwrap, one transaction per step.
+ * @param {Address} houseOfReserveContract - The address of the house of reserve contract.
+ * @param {Address | null} assetContract - The reserve asset of the house.
+ * @returns {Object} - Contains the native support flag, native balance and the part of it a deposit can spend, step list, flow state, and the deposit and withdraw handlers.
+ */
+const useNativeCdp = (houseOfReserveContract: Address, assetContract: Address | null) => {
+  const { address, chain } = useAccount();
+  const publicClient = usePublicClient();
+  const { writeContractAsync } = useWriteContract();
+  const writeTx = useTransactor();
+  const { t } = useTranslation();
+
+  const [steps, setSteps] = useState<NativeStep[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hash, setHash] = useState<Hash | undefined>(undefined);
+
+  const { data: wrappedNative } = useReadContract({
+    address: houseOfReserveContract,
+    abi: houseOfReserveABI as Abi,
+    functionName: "WRAPPED_NATIVE",
+  });
+  const { data: nativeBalance } = useBalance({ address });
+  const { data: feesPerGas } = useEstimateFeesPerGas();
+
+  // The balance left after the gas of the deposit flow, undefined until the fees are estimated
+  const feePerGas = feesPerGas?.maxFeePerGas ?? feesPerGas?.gasPrice;
+  const gasReserve = feePerGas !== undefined ? feePerGas * NATIVE_DEPOSIT_GAS : undefined;
+  const spendableNativeBalance =
+    nativeBalance && gasReserve !== undefined
+      ? nativeBalance.value > gasReserve
+        ? nativeBalance.value - gasReserve
+        : 0n
+      : undefined;
+
+  // Only houses holding the wrapped native coin can take the native coin
+  const isNativeSupported =
+    !!wrappedNative && !!assetContract && (wrappedNative as Address).toLowerCase() === assetContract.toLowerCase();
+
+  const updateStep = (index: number, update: Partial<NativeStep>) =>
+    setSteps(prevSteps => prevSteps.map((step, stepIndex) => (stepIndex === index ? { ...step, ...update } : step)));
+
+  const runSteps = async (plannedSteps: PlannedStep[]) => {
+    setSteps(plannedSteps.map(({ kind }) => ({ kind, status: "idle" })));
+    setIsRunning(true);
+    setError(null);
+    setHash(undefined);
+
+    for (const [index, step] of plannedSteps.entries()) {
+      updateStep(index, { status: "pending" });
+      try {
+        const stepHash = await writeTx(step.run);
+        // The transactor returns no hash when the wallet is not available
+        if (!stepHash) throw new Error("Cannot access account");
+        updateStep(index, { status: "done", hash: stepHash });
+        if (index === plannedSteps.length - 1) setHash(stepHash);
+      } catch (err) {
+        updateStep(index, { status: "error" });
+        setError(getParsedError(err, t));
+        break;
+      }
+    }
+    setIsRunning(false);
+  };
+
+  const depositNative = async (amount: string) => {
+    if (!isNativeSupported || !assetContract || !address || !publicClient) return;
+    const value = parseEther(amount);
+
+    const allowance = (await publicClient.readContract({
+      address: assetContract,
+      abi: ERC20ABI as Abi,
+      functionName: "allowance",
+      args: [address, houseOfReserveContract],
+    })) as bigint;
+
+    const plannedSteps: PlannedStep[] = [
+      {
+        kind: "wrap",
+        run: () => writeContractAsync({ address: assetContract, abi: ERC20ABI as Abi, functionName: "deposit", value }),
+      },
+      ...(allowance < value
+        ? [
+            {
+              kind: "approve" as const,
+              run: () =>
+                writeContractAsync({
+                  address: assetContract,
+                  abi: ERC20ABI as Abi,
+                  functionName: "approve",
+                  args: [houseOfReserveContract, value],
+                }),
+            },
+          ]
+        : []),
+      {
+        kind: "deposit",
+        run: () =>
+          writeContractAsync({
+            address: houseOfReserveContract,
+            abi: houseOfReserveABI as Abi,
+            functionName: "deposit",
+            args: [value],
+          }),
+      },
+    ];
+    await runSteps(plannedSteps);
+  };
+
+  const withdrawNative = async (amount: string, unwrap: boolean) => {
+    if (!isNativeSupported || !assetContract) return;
+    const value = parseEther(amount);
+
+    const plannedSteps: PlannedStep[] = [
+      {
+        kind: "withdraw",
+        run: () =>
+          writeContractAsync({
+            address: houseOfReserveContract,
+            abi: houseOfReserveABI as Abi,
+            functionName: "withdraw",
+            args: [value],
+          }),
+      },
+      ...(unwrap
+        ? [
+            {
+              kind: "unwrap" as const,
+              run: () =>
+                writeContractAsync({
+                  address: assetContract,
+                  abi: ERC20ABI as Abi,
+                  functionName: "withdraw",
+                  args: [value],
+                }),
+            },
+          ]
+        : []),
+    ];
+    await runSteps(plannedSteps);
+  };
+
+  const resetSteps = () => {
+    setSteps([]);
+    setError(null);
+    setHash(undefined);
+  };
+
+  return {
+    isNativeSupported,
+    nativeSymbol: chain?.nativeCurrency.symbol ?? "ETH",
+    nativeBalance: nativeBalance?.value,
+    spendableNativeBalance,
+    steps,
+    isRunning,
+    error,
+    hash,
+    depositNative,
+    withdrawNative,
+    resetSteps,
+  };
+};
+
+export default useNativeCdp;
@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+import { useReserves } from "~~/context/ReservesContext";
+import { RatePosition, getNetApy, rayToApy } from "~~/utils/rateMath";
+
+/**
+ * Custom hook to compute the net APY of the user across the market.
+ * Supplies earn the liquidity rate and borrows pay their variable or stable rate, all valued in USD by the lending store.
+ * @returns {Object} - Contains the net APY as a percentage and the supplied and borrowed positions it weighs.
+ */
+const useNetAPY = () => {
+  const { assets } = useReserves();
+
+  return useMemo(() => {
+    const supplies: RatePosition[] = [];
+    const borrows: RatePosition[] = [];
+
+    assets.forEach(asset => {
+      const { reserve, userReserve } = asset;
+      if (asset.supplied > 0n) supplies.push({ value: asset.suppliedUsd, apy: rayToApy(reserve.liquidityRate) });
+      if (asset.variableDebt > 0n) {
+        borrows.push({ value: asset.variableDebtUsd, apy: rayToApy(reserve.variableBorrowRate) });
+      }
+      if (asset.stableDebt > 0n && userReserve) {
+        borrows.push({ value: asset.stableDebtUsd, apy: rayToApy(userReserve.stableBorrowRate) });
+      }
+    });
+
+    return { netAPY: getNetApy(supplies, borrows) * 100, supplies, borrows };
+  }, [assets]);
+};
+
+export default useNetAPY;
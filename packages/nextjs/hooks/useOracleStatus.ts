@@ -0,0 +1,178 @@
+import { useCallback, useMemo, useState } from "react";
+import { Abi } from "abitype";
+import { useInterval } from "usehooks-ts";
+import { Address, Hex, hexToString, zeroAddress } from "viem";
+import { useChainId, useReadContracts } from "wagmi";
+import { chainlinkAggregatorABI } from "~~/app/components/abis/chainlink";
+import { houseOfCoinABI } from "~~/app/components/abis/houseofcoin";
+import { CdpHouse, getCdpChain } from "~~/app/constants/contracts";
+import useContractEventHistory, { EventSource } from "~~/hooks/useContractEventHistory";
+import useDeploymentBlock from "~~/hooks/useDeploymentBlock";
+
+/**
+ * Oracle sources in the order of the OracleHouse.OracleIds enum.
+ */
+export const ORACLE_SOURCES = ["Redstone", "UMA", "Chainlink"] as const;
+
+export type OracleSource = (typeof ORACLE_SOURCES)[number];
+
+/**
+ * Latest oracle price of a house, undefined when the oracle has no value for it.
+ */
+export interface HousePrice {
+  house: CdpHouse;
+  price: bigint | undefined; // Collateral price in $XOC with CDP_PRICE_DECIMALS
+}
+
+const ORACLE_READS = [
+  "activeOracle",
+  "getChainlinkData",
+  "getRedstoneData",
+  "getMaxBlockTimestampDelay",
+  "getMaxDataTimestampDelay",
+] as const;
+
+// Longest Chainlink heartbeat among the house feeds, 24 hours for the fiat feeds, plus an hour of grace. A feed
+// updates on deviation or at least once per heartbeat, so an older update means the feed stopped
+const CHAINLINK_MAX_AGE = 25n * 3600n;
+
+/**
+ * Decodes a Redstone data feed ID, stored as a right padded bytes32 string.
+ * @param {Hex} feedId - The bytes32 feed ID.
+ * @returns {string} - The feed ID as text.
+ */
+const decodeFeedId = (feedId: Hex) => hexToString(feedId, { size: 32 }).replace(/\0/g, "");
+
+/**
+ * Custom hook to read the status of the House of Coin oracle on the active chain.
+ * A house price is valid when the oracle gets a price for it and, for Chainlink, no feed is older than its heartbeat.
+ * Chainlink feeds carry their update time. Redstone and UMA prices are read by the House of Coin when a position
+ * changes, so their last update is the latest mint or payback.
+ * @returns {Object} - Contains the active source, its feeds, the house prices, the last update and its age, the delays, and the validity flags and lookup.
+ */
+const useOracleStatus = () => {
+  const chainId = useChainId();
+  const cdpChain = getCdpChain(chainId);
+  const houses = useMemo(() => cdpChain?.houses ?? [], [cdpChain]);
+  // Current time in seconds, refreshed to keep the price age up to date
+  const [now, setNow] = useState(() => BigInt(Math.floor(Date.now() / 1000)));
+  useInterval(() => setNow(BigInt(Math.floor(Date.now() / 1000))), 10_000);
+
+  const { deploymentBlock } = useDeploymentBlock(chainId, cdpChain?.houseOfCoinContract);
+
+  const houseOfCoin = { address: cdpChain?.houseOfCoinContract, abi: houseOfCoinABI as Abi, chainId };
+
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: [
+      ...ORACLE_READS.map(functionName => ({ ...houseOfCoin, functionName })),
+      ...houses.map(house => ({
+        ...houseOfCoin,
+        functionName: "getLatestPrice",
+        args: [house.houseOfReserveContract],
+      })),
+    ],
+    query: { enabled: !!cdpChain },
+  });
+
+  const [activeOracle, chainlinkData, redstoneData, maxBlockDelay, maxDataDelay] = ORACLE_READS.map(
+    (_, index) => data?.[index]?.result,
+  );
+  const activeSource = activeOracle !== undefined ? ORACLE_SOURCES[Number(activeOracle)] : undefined;
+  const chainlinkFeeds = ((chainlinkData as readonly Address[] | undefined) ?? []).filter(feed => feed !== zeroAddress);
+  const redstoneFeeds = redstoneData
+    ? [(redstoneData as readonly Hex[])[0], (redstoneData as readonly Hex[])[1]].map(decodeFeedId)
+    : [];
+
+  const prices = useMemo(
+    (): HousePrice[] =>
+      houses.map((house, index) => {
+        const result = data?.[ORACLE_READS.length + index];
+        return { house, price: result?.status === "success" ? (result.result as bigint) : undefined };
+      }),
+    [houses, data],
+  );
+
+  // Chainlink feeds carry their own update time, checked against the House of Coin delay
+  const { data: feedsData } = useReadContracts({
+    contracts: chainlinkFeeds.map(feed => ({
+      address: feed,
+      abi: chainlinkAggregatorABI as Abi,
+      functionName: "latestRoundData",
+      chainId,
+    })),
+    query: { enabled: activeSource === "Chainlink" && chainlinkFeeds.length > 0 },
+  });
+
+  const lastFeedUpdate = useMemo(() => {
+    const updates = (feedsData ?? [])
+      .map(({ result }) => (result as readonly bigint[] | undefined)?.[3])
+      .filter((updatedAt): updatedAt is bigint => updatedAt !== undefined);
+    if (updates.length === 0) return undefined;
+    // The oldest feed decides the age of the price
+    return updates.reduce((oldest, updatedAt) => (updatedAt < oldest ? updatedAt : oldest));
+  }, [feedsData]);
+
+  // The other sources are read on every mint and payback, the latest one tells when the price was last used
+  const sources = useMemo(
+    (): EventSource[] =>
+      cdpChain
+        ? ["CoinMinted", "CoinPayback"].map(eventName => ({
+            address: cdpChain.houseOfCoinContract,
+            abi: houseOfCoinABI as Abi,
+            eventName,
+          }))
+        : [],
+    [cdpChain],
+  );
+  const { data: priceReads } = useContractEventHistory({
+    sources,
+    chainId,
+    fromBlock: deploymentBlock,
+    enabled:
+      sources.length > 0 && deploymentBlock !== undefined && (activeSource === "Redstone" || activeSource === "UMA"),
+  });
+
+  const lastUpdate = activeSource === "Chainlink" ? lastFeedUpdate : priceReads[0]?.timestamp;
+  const priceAge = lastUpdate !== undefined && now > lastUpdate ? now - lastUpdate : undefined;
+
+  // Checked against the feed heartbeat, isTimestampValid applies the Redstone data delay
+  const isStale = activeSource === "Chainlink" && priceAge !== undefined && priceAge > CHAINLINK_MAX_AGE;
+  const hasAllPrices = prices.length > 0 && prices.every(({ price }) => price !== undefined && price > 0n);
+
+  /**
+   * Tells whether a house can be minted against with the current oracle price.
+   * Unknown while loading and for houses missing from the registry, so the mint buttons are not disabled on a guess.
+   * @param {Address} houseOfReserve - The house of reserve contract.
+   * @returns {boolean} - False when the oracle has no price for the house or the price is stale.
+   */
+  const isHousePriceValid = useCallback(
+    (houseOfReserve: Address) => {
+      if (isLoading || !cdpChain) return true;
+      const housePrice = prices.find(
+        ({ house }) => house.houseOfReserveContract.toLowerCase() === houseOfReserve.toLowerCase(),
+      );
+      if (!housePrice) return true;
+      return housePrice.price !== undefined && housePrice.price > 0n && !isStale;
+    },
+    [isLoading, cdpChain, prices, isStale],
+  );
+
+  return {
+    activeSource,
+    chainlinkFeeds,
+    redstoneFeeds,
+    prices,
+    lastUpdate,
+    priceAge,
+    maxBlockDelay: maxBlockDelay as bigint | undefined,
+    maxDataDelay: maxDataDelay as bigint | undefined,
+    isStale,
+    // Unknown while loading, so the mint buttons are not disabled on every page load
+    isPriceValid: isLoading || !cdpChain ? true : hasAllPrices && !isStale,
+    isHousePriceValid,
+    isLoading,
+    refetch,
+  };
+};
+
+export default useOracleStatus;
@@ -0,0 +1,107 @@
+import { useMemo } from "react";
+import useAccountAddress from "./useAccount";
+import externalContracts from "@/contracts/externalContracts";
+import { Abi } from "abitype";
+import { Address, Hex, TypedDataDomain, domainSeparator, parseSignature } from "viem";
+import { useReadContracts, useSignTypedData } from "wagmi";
+import { ERC20PermitABI } from "~~/app/components/abis/erc20Permit";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+
+const PERMIT_VALIDITY = 20 * 60; // Seconds a signature stays valid
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * EIP-2612 signature arguments expected by the Pool permit functions.
+ */
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: Hex;
+  s: Hex;
+}
+
+/**
+ * Custom hook to sign EIP-2612 permits allowing the Pool to spend a token.
+ * A token supports permit when its DOMAIN_SEPARATOR matches the domain built from its name and version,
+ * so a signature is only requested when the token will accept it.
+ * @param {Address | undefined} token - The token to permit.
+ * @returns {Object} - Contains whether the token supports permit, the sign function and the signing state.
+ */
+const usePermit = (token: Address | undefined) => {
+  const { market } = useLendingMarket();
+  const pool = externalContracts[market.chainId].Pool;
+  const { address } = useAccountAddress();
+  const { signTypedDataAsync, isPending: isSigning } = useSignTypedData();
+
+  const { data } = useReadContracts({
+    contracts: ["name", "version", "DOMAIN_SEPARATOR"].map(functionName => ({
+      address: token,
+      abi: ERC20PermitABI as Abi,
+      functionName,
+      chainId: market.chainId,
+    })),
+    query: { enabled: !!token },
+  });
+
+  const { data: nonceData, refetch: refetchNonce } = useReadContracts({
+    contracts: [
+      {
+        address: token,
+        abi: ERC20PermitABI as Abi,
+        functionName: "nonces",
+        args: [address],
+        chainId: market.chainId,
+      },
+    ],
+    query: { enabled: !!token && !!address },
+  });
+
+  const domain = useMemo((): TypedDataDomain | undefined => {
+    const [name, version, separator] = (data ?? []).map(({ result }) => result);
+    if (!token || typeof name !== "string" || !separator) return undefined;
+    // Tokens without version() sign with version "1"
+    const candidate = {
+      name,
+      version: typeof version === "string" ? version : "1",
+      chainId: market.chainId,
+      verifyingContract: token,
+    };
+    return domainSeparator({ domain: candidate }) === separator ? candidate : undefined;
+  }, [data, token, market.chainId]);
+
+  const nonce = nonceData?.[0]?.result as bigint | undefined;
+
+  /**
+   * Asks the wallet to sign a permit for the Pool to spend an amount of the token.
+   * @param {bigint} amount - The amount to permit in the token units.
+   * @returns {Promise<PermitSignature>} - The deadline and signature to pass to the Pool.
+   */
+  const signPermit = async (amount: bigint): Promise<PermitSignature> => {
+    if (!domain || !address || nonce === undefined) {
+      throw new Error("Permit is not supported by this token.");
+    }
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_VALIDITY);
+    const signature = await signTypedDataAsync({
+      domain,
+      types: PERMIT_TYPES,
+      primaryType: "Permit",
+      message: { owner: address as Address, spender: pool.address, value: amount, nonce, deadline },
+    });
+    refetchNonce();
+    const { v, yParity, r, s } = parseSignature(signature);
+    return { deadline, v: v !== undefined ? Number(v) : yParity + 27, r, s };
+  };
+
+  return { supportsPermit: !!domain && nonce !== undefined, signPermit, isSigning };
+};
+
+export default usePermit;
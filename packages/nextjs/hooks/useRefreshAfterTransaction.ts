@@ -0,0 +1,24 @@
+import { useEffect } from "react";
+import { Hash } from "viem";
+import { useWaitForTransactionReceipt } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
+
+/**
+ * Custom hook to refresh the lending store once a lending transaction is confirmed.
+ * @param {Hash | undefined} hash - The hash of the sent transaction.
+ * @returns {Object} - Contains whether the transaction is confirmed.
+ */
+const useRefreshAfterTransaction = (hash: Hash | undefined) => {
+  const { market } = useLendingMarket();
+  const { refresh } = useReserves();
+  const { isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash, chainId: market.chainId });
+
+  useEffect(() => {
+    if (isConfirmed) refresh();
+  }, [isConfirmed, refresh]);
+
+  return { isConfirmed };
+};
+
+export default useRefreshAfterTransaction;
@@ -0,0 +1,190 @@
+import { useEffect, useMemo } from "react";
+import { Abi } from "abitype";
+import { Address, zeroAddress } from "viem";
+import { useReadContracts } from "wagmi";
+import { ERC20ABI } from "~~/app/components/abis/erc20";
+import { houseOfReserveABI } from "~~/app/components/abis/houseofreserve";
+import { assetsAccountantABI } from "~~/app/components/abis/xocabis";
+import { getCdpChain } from "~~/app/constants/contracts";
+import useContractEventHistory, { EventSource } from "~~/hooks/useContractEventHistory";
+import useDeploymentBlock from "~~/hooks/useDeploymentBlock";
+
+/**
+ * A HouseOfReserve registered in the AssetsAccountant, with its parameters read on-chain.
+ */
+export interface RegisteredHouse {
+  houseOfReserveContract: Address;
+  reserveAsset: Address;
+  symbol: string;
+  decimals: number;
+  reserveTokenID: bigint;
+  backedTokenID: bigint;
+  maxLTVFactor: bigint; // 1e18 = 100%
+  liquidationFactor: bigint; // 1e18 = 100%
+}
+
+const HOUSE_FIELDS = ["reserveAsset", "reserveTokenID", "backedTokenID", "maxLTVFactor", "liquidationFactor"] as const;
+
+/**
+ * Custom hook to discover every HouseOfReserve registered in the chain's AssetsAccountant.
+ * Houses are taken from the HouseRegistered events, scanned back to the AssetsAccountant deployment block, and from the
+ * CDP registry assets resolved through getReserveIds and houseOfReserves.
+ * @param {number} chainId - The chain to read the houses from.
+ * @returns {Object} - Contains the registered houses, the HouseOfCoin address, loading state, and error state.
+ */
+const useRegisteredHouses = (chainId: number) => {
+  const cdpChain = getCdpChain(chainId);
+  const { deploymentBlock } = useDeploymentBlock(chainId, cdpChain?.assetsAccountantContract);
+
+  const sources = useMemo(
+    (): EventSource[] =>
+      cdpChain
+        ? [
+            {
+              address: cdpChain.assetsAccountantContract,
+              abi: assetsAccountantABI as Abi,
+              eventName: "HouseRegistered",
+            },
+          ]
+        : [],
+    [cdpChain],
+  );
+
+  const {
+    data: registrations,
+    isLoading: isLoadingRegistrations,
+    error: registrationsError,
+    hasMore,
+    loadAll,
+  } = useContractEventHistory({
+    sources,
+    chainId,
+    fromBlock: deploymentBlock,
+    enabled: sources.length > 0 && deploymentBlock !== undefined,
+  });
+
+  // Effect to read every page of registrations, a house registered in a skipped range would be missed
+  useEffect(() => {
+    if (hasMore && !isLoadingRegistrations && !registrationsError) loadAll();
+  }, [hasMore, isLoadingRegistrations, registrationsError, loadAll]);
+
+  // The HouseOfCoin registers too, its parameter reads fail and it is dropped in step 3
+  const registeredHouses = useMemo(() => registrations.map(({ args }) => args.house as Address), [registrations]);
+  const registeredAssets = useMemo(() => registrations.map(({ args }) => args.asset as Address), [registrations]);
+
+  const reserveAssets = useMemo(() => {
+    const assets = [...(cdpChain?.houses.map(house => house.assetContract) ?? []), ...registeredAssets];
+    return assets.filter(
+      (asset, index) => assets.findIndex(other => other.toLowerCase() === asset.toLowerCase()) === index,
+    );
+  }, [cdpChain, registeredAssets]);
+
+  // Step 1: reserve token IDs, symbol and decimals of each reserve asset
+  const {
+    data: assetsData,
+    isLoading: isLoadingAssets,
+    isError: isAssetsError,
+  } = useReadContracts({
+    contracts: reserveAssets.flatMap(asset => [
+      {
+        address: cdpChain?.assetsAccountantContract,
+        abi: assetsAccountantABI as Abi,
+        functionName: "getReserveIds",
+        args: [asset, cdpChain?.xocContract],
+        chainId,
+      },
+      { address: asset, abi: ERC20ABI as Abi, functionName: "symbol", chainId },
+      { address: asset, abi: ERC20ABI as Abi, functionName: "decimals", chainId },
+    ]),
+    query: { enabled: !!cdpChain },
+  });
+
+  const reserveIds = useMemo(
+    () => reserveAssets.flatMap((_, index) => (assetsData?.[index * 3]?.result as readonly bigint[] | undefined) ?? []),
+    [reserveAssets, assetsData],
+  );
+
+  // Step 2: HouseOfCoin and HouseOfReserve addresses
+  const { data: housesData, isLoading: isLoadingHouses } = useReadContracts({
+    contracts: [
+      {
+        address: cdpChain?.assetsAccountantContract,
+        abi: assetsAccountantABI as Abi,
+        functionName: "houseOfCoins",
+        args: [cdpChain?.xocContract],
+        chainId,
+      },
+      ...reserveIds.map(reserveId => ({
+        address: cdpChain?.assetsAccountantContract,
+        abi: assetsAccountantABI as Abi,
+        functionName: "houseOfReserves",
+        args: [reserveId],
+        chainId,
+      })),
+    ],
+    query: { enabled: !!cdpChain && !!assetsData },
+  });
+
+  const houseAddresses = useMemo(() => {
+    const addresses = [
+      ...registeredHouses,
+      ...(housesData ?? []).slice(1).map(({ result }) => result as Address | undefined),
+    ].filter((house): house is Address => !!house && house !== zeroAddress);
+    return addresses.filter(
+      (house, index) => addresses.findIndex(other => other.toLowerCase() === house.toLowerCase()) === index,
+    );
+  }, [registeredHouses, housesData]);
+
+  // Step 3: parameters of each HouseOfReserve
+  const { data: paramsData, isLoading: isLoadingParams } = useReadContracts({
+    contracts: houseAddresses.flatMap(house =>
+      HOUSE_FIELDS.map(functionName => ({
+        address: house,
+        abi: houseOfReserveABI as Abi,
+        functionName,
+        chainId,
+      })),
+    ),
+    query: { enabled: houseAddresses.length > 0 },
+  });
+
+  const houses = useMemo(() => {
+    if (!paramsData) return [];
+
+    return houseAddresses.flatMap((houseOfReserveContract, houseIndex) => {
+      const results = paramsData.slice(houseIndex * HOUSE_FIELDS.length, (houseIndex + 1) * HOUSE_FIELDS.length);
+      if (results.some(({ status }) => status !== "success")) return [];
+
+      const [reserveAsset, reserveTokenID, backedTokenID, maxLTVFactor, liquidationFactor] = results.map(
+        ({ result }) => result,
+      ) as [Address, bigint, bigint, bigint, bigint];
+      const assetIndex = reserveAssets.findIndex(asset => asset.toLowerCase() === reserveAsset.toLowerCase());
+
+      const house: RegisteredHouse = {
+        houseOfReserveContract,
+        reserveAsset,
+        symbol: (assetsData?.[assetIndex * 3 + 1]?.result as string | undefined) ?? reserveAsset,
+        decimals: Number(assetsData?.[assetIndex * 3 + 2]?.result ?? 18),
+        reserveTokenID,
+        backedTokenID,
+        maxLTVFactor,
+        liquidationFactor,
+      };
+      return [house];
+    });
+  }, [paramsData, houseAddresses, reserveAssets, assetsData]);
+
+  return {
+    houses,
+    houseOfCoinContract: housesData?.[0]?.result as Address | undefined,
+    isLoading:
+      isLoadingAssets ||
+      isLoadingHouses ||
+      isLoadingParams ||
+      isLoadingRegistrations ||
+      (sources.length > 0 && deploymentBlock === undefined),
+    isError: isAssetsError || !!registrationsError,
+  };
+};
+
+export default useRegisteredHouses;
@@ -1,15 +1,20 @@
+import { PermitSignature } from "./usePermit";
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
 import externalContracts from "@/contracts/externalContracts";
 import { Address } from "viem";
 import { useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Custom hook to handle repay transactions.
- * @returns {Object} - The repay handler function and contract interaction states.
+ * @returns {Object} - The repay handler functions and contract interaction states.
  */
 const useRepay = () => {
+  const { market } = useLendingMarket();
   // Hook for writing to a smart contract
   const { writeContract, error, data: repayHash } = useWriteContract();
-  const pool = externalContracts[8453].Pool;
+  useRefreshAfterTransaction(repayHash);
+  const pool = externalContracts[market.chainId].Pool;
 
   /**
    * Handles the repay transaction by writing to the smart contract.
@@ -28,6 +33,7 @@ const useRepay = () => {
       writeContract({
         abi: pool.abi,
         address: pool.address,
+        chainId: market.chainId,
         functionName: "repay",
         args: [asset, amount, interestRateMode, onBehalfOf],
       });
@@ -36,7 +42,65 @@ const useRepay = () => {
     }
   };
 
-  return { handleRepay, isError: !!error, error, repayHash };
+  /**
+   * Handles a repay authorized by an EIP-2612 permit, approving and repaying in one transaction.
+   * @param {Address} asset - The address of the asset to repay.
+   * @param {BigInt} amount - The amount to repay in wei.
+   * @param {number} interestRateMode - The interest rate mode of the debt (1 for stable, 2 for variable).
+   * @param {Address} onBehalfOf - The address on behalf of whom the repayment is being made.
+   * @param {PermitSignature} permit - The permit deadline and signature.
+   */
+  const handleRepayWithPermit = (
+    asset: Address,
+    amount: bigint,
+    interestRateMode: number,
+    onBehalfOf: Address,
+    permit: PermitSignature,
+  ) => {
+    if (!pool || !pool.abi || !pool.address) {
+      console.error("Pool contract is not properly defined.");
+      return;
+    }
+
+    try {
+      writeContract({
+        abi: pool.abi,
+        address: pool.address,
+        chainId: market.chainId,
+        functionName: "repayWithPermit",
+        args: [asset, amount, interestRateMode, onBehalfOf, permit.deadline, permit.v, permit.r, permit.s],
+      });
+    } catch (err) {
+      console.error("Error executing contract function:", err);
+    }
+  };
+
+  /**
+   * Handles repaying the debt with the aTokens of the same asset, burning supplied balance instead of wallet funds.
+   * @param {Address} asset - The address of the asset to repay.
+   * @param {BigInt} amount - The amount to repay in wei.
+   * @param {number} interestRateMode - The interest rate mode of the debt (1 for stable, 2 for variable).
+   */
+  const handleRepayWithATokens = (asset: Address, amount: bigint, interestRateMode: number) => {
+    if (!pool || !pool.abi || !pool.address) {
+      console.error("Pool contract is not properly defined.");
+      return;
+    }
+
+    try {
+      writeContract({
+        abi: pool.abi,
+        address: pool.address,
+        chainId: market.chainId,
+        functionName: "repayWithATokens",
+        args: [asset, amount, interestRateMode],
+      });
+    } catch (err) {
+      console.error("Error executing contract function:", err);
+    }
+  };
+
+  return { handleRepay, handleRepayWithPermit, handleRepayWithATokens, isError: !!error, error, repayHash };
 };
 
 export default useRepay;
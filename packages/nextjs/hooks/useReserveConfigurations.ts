@@ -0,0 +1,83 @@
+import { useMemo } from "react";
+import externalContracts from "@/contracts/externalContracts";
+import { Abi } from "abitype";
+import { Address } from "viem";
+import { useReadContracts } from "wagmi";
+import { ERC20ABI } from "~~/app/components/abis/erc20";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { useReserves } from "~~/context/ReservesContext";
+import { ReserveConfiguration, decodeReserveConfiguration, getCapHeadroom } from "~~/utils/reserveConfiguration";
+
+const RAY = 10n ** 27n;
+
+/**
+ * Reserve state read from Pool.getReserveData that the UiPoolDataProvider does not expose.
+ */
+export interface ReserveState {
+  configuration: ReserveConfiguration;
+  isolationModeTotalDebt: bigint; // With DEBT_CEILING_DECIMALS
+  accruedToTreasury: bigint; // Scaled aTokens
+  totalSupplied: bigint; // aToken supply plus the treasury share, as counted against the supply cap
+  totalBorrowed: bigint; // Variable and stable debt, as counted against the borrow cap
+  supplyHeadroom: bigint | undefined; // Undefined when the reserve has no supply cap
+  borrowHeadroom: bigint | undefined; // Undefined when the reserve has no borrow cap
+}
+
+/**
+ * Custom hook to read and decode the configuration of every reserve of the market, with its cap usage.
+ * @returns {Object} - Contains the reserve states by underlying asset, loading state and refetch function.
+ */
+const useReserveConfigurations = () => {
+  const { market } = useLendingMarket();
+  const pool = externalContracts[market.chainId].Pool;
+  const { reservesData } = useReserves();
+
+  // Two reads per reserve: its Pool data and its aToken supply
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: (reservesData ?? []).flatMap(reserve => [
+      {
+        address: pool.address,
+        abi: pool.abi as Abi,
+        functionName: "getReserveData",
+        args: [reserve.underlyingAsset],
+        chainId: market.chainId,
+      },
+      {
+        address: reserve.aTokenAddress as Address,
+        abi: ERC20ABI as Abi,
+        functionName: "totalSupply",
+        chainId: market.chainId,
+      },
+    ]),
+    query: { enabled: !!reservesData },
+  });
+
+  const reserveStates = useMemo(() => {
+    const states: Record<Address, ReserveState> = {};
+    (reservesData ?? []).forEach((reserve, index) => {
+      const result = data?.[index * 2]?.result as
+        | { configuration: { data: bigint }; isolationModeTotalDebt: bigint; accruedToTreasury: bigint }
+        | undefined;
+      if (!result) return;
+      const configuration = decodeReserveConfiguration(result.configuration.data);
+      const aTokenSupply = (data?.[index * 2 + 1]?.result as bigint | undefined) ?? 0n;
+      const totalSupplied = aTokenSupply + (result.accruedToTreasury * reserve.liquidityIndex) / RAY;
+      const totalBorrowed =
+        (reserve.totalScaledVariableDebt * reserve.variableBorrowIndex) / RAY + reserve.totalPrincipalStableDebt;
+      states[reserve.underlyingAsset] = {
+        configuration,
+        isolationModeTotalDebt: result.isolationModeTotalDebt,
+        accruedToTreasury: result.accruedToTreasury,
+        totalSupplied,
+        totalBorrowed,
+        supplyHeadroom: getCapHeadroom(configuration.supplyCap, totalSupplied, configuration.decimals),
+        borrowHeadroom: getCapHeadroom(configuration.borrowCap, totalBorrowed, configuration.decimals),
+      };
+    });
+    return states;
+  }, [reservesData, data]);
+
+  return { reserveStates, isLoading, refetch };
+};
+
+export default useReserveConfigurations;
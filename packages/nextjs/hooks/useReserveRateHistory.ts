@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import externalContracts from "@/contracts/externalContracts";
+import { Abi, AbiEvent } from "abitype";
+import { Address } from "viem";
+import { usePublicClient } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import useMarketStartBlock from "~~/hooks/useMarketStartBlock";
+import {
+  RateHistory,
+  RateHistoryPoint,
+  getRateHistoryKey,
+  readRateHistory,
+  writeRateHistory,
+} from "~~/utils/rateHistoryCache";
+import { rayToNumber } from "~~/utils/rateMath";
+
+const RATE_HISTORY_DAYS = 90; // Longest period charted
+const SECONDS_PER_DAY = 86_400;
+// Blocks queried per getLogs call, small enough for public RPCs
+const BLOCK_RANGE = 50_000;
+// Blocks between the two blocks sampled to estimate the block time
+const BLOCK_TIME_SAMPLE = 10_000n;
+
+/**
+ * Custom hook to read the rate history of a reserve over the last 90 days from its ReserveDataUpdated events.
+ * The events are backfilled in block ranges and cached in IndexedDB, so later visits only read the new blocks.
+ * Event timestamps are estimated from the average block time instead of fetching every block.
+ * @param {Address | undefined} reserve - The underlying asset of the reserve.
+ * @returns {Object} - Contains the rate points oldest first, loading state and error.
+ */
+const useReserveRateHistory = (reserve: Address | undefined) => {
+  const { market } = useLendingMarket();
+  const { startBlock } = useMarketStartBlock();
+  const publicClient = usePublicClient({ chainId: market.chainId });
+  const pool = externalContracts[market.chainId].Pool;
+  const [history, setHistory] = useState<RateHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    if (!publicClient || !reserve || startBlock === undefined) return;
+
+    let isCancelled = false;
+    const key = getRateHistoryKey(market.chainId, reserve);
+    const event = (pool.abi as Abi).find(
+      part => part.type === "event" && part.name === "ReserveDataUpdated",
+    ) as AbiEvent;
+
+    const backfill = async () => {
+      setHistory(null);
+      setIsLoading(true);
+      setError(undefined);
+      try {
+        const latestBlock = await publicClient.getBlock();
+        const sampleBlock = await publicClient.getBlock({
+          blockNumber: latestBlock.number > BLOCK_TIME_SAMPLE ? latestBlock.number - BLOCK_TIME_SAMPLE : 0n,
+        });
+        const blockTime =
+          Number(latestBlock.timestamp - sampleBlock.timestamp) / Number(latestBlock.number - sampleBlock.number) || 1;
+        const latest = Number(latestBlock.number);
+        const windowStart = Math.max(
+          Number(startBlock),
+          latest - Math.ceil((RATE_HISTORY_DAYS * SECONDS_PER_DAY) / blockTime),
+        );
+
+        const readRange = async (fromBlock: number, toBlock: number) => {
+          const logs = await publicClient.getLogs({
+            address: pool.address,
+            event,
+            args: { reserve } as any,
+            fromBlock: BigInt(fromBlock),
+            toBlock: BigInt(toBlock),
+          });
+          return logs.map((log): RateHistoryPoint => {
+            const args = (log as unknown as { args: Record<string, bigint> }).args;
+            const blockNumber = Number(log.blockNumber);
+            return {
+              blockNumber,
+              timestamp: Number(latestBlock.timestamp) - (latest - blockNumber) * blockTime,
+              supplyRate: rayToNumber(args.liquidityRate),
+              variableBorrowRate: rayToNumber(args.variableBorrowRate),
+              stableBorrowRate: rayToNumber(args.stableBorrowRate),
+            };
+          });
+        };
+
+        // A cache ending before the window would leave a gap, the window is read again instead
+        const cached = await readRateHistory(key);
+        let current: RateHistory =
+          cached && cached.toBlock >= windowStart ? cached : { fromBlock: latest + 1, toBlock: latest, points: [] };
+        if (isCancelled) return;
+        setHistory(current);
+
+        const save = async (next: RateHistory) => {
+          current = next;
+          setHistory(next);
+          await writeRateHistory(key, next);
+        };
+
+        // Blocks after the cached history, oldest first
+        for (let start = current.toBlock + 1; start <= latest; start += BLOCK_RANGE) {
+          const end = Math.min(start + BLOCK_RANGE - 1, latest);
+          const points = await readRange(start, end);
+          if (isCancelled) return;
+          await save({ ...current, toBlock: end, points: [...current.points, ...points] });
+        }
+
+        // Blocks before it down to the window start, newest first so the short periods fill first
+        for (let end = current.fromBlock - 1; end >= windowStart; end -= BLOCK_RANGE) {
+          const start = Math.max(end - BLOCK_RANGE + 1, windowStart);
+          const points = await readRange(start, end);
+          if (isCancelled) return;
+          await save({ ...current, fromBlock: start, points: [...points, ...current.points] });
+        }
+
+        // Drop what fell out of the window since the last visit
+        if (current.fromBlock < windowStart) {
+          await save({
+            ...current,
+            fromBlock: windowStart,
+            points: current.points.filter(({ blockNumber }) => blockNumber >= windowStart),
+          });
+        }
+      } catch (e: any) {
+        if (isCancelled) return;
+        setError(e?.message ?? String(e));
+        console.error("Failed to fetch the rate history:", e);
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+
+    backfill();
+    return () => {
+      isCancelled = true;
+    };
+  }, [publicClient, reserve, market.chainId, startBlock, pool]);
+
+  return { points: history?.points ?? [], isLoading: isLoading || startBlock === undefined, error };
+};
+
+export default useReserveRateHistory;
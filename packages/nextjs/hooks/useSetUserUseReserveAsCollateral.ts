@@ -1,15 +1,19 @@
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
 import externalContracts from "@/contracts/externalContracts";
 import { Address } from "viem";
 import { useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Custom hook to handle setting user reserve as collateral.
  * @returns {Object} - The handler function and contract interaction states.
  */
 const useSetUserUseReserveAsCollateral = () => {
+  const { market } = useLendingMarket();
   // Hook for writing to a smart contract
   const { writeContract, error, data } = useWriteContract();
-  const pool = externalContracts[8453].Pool;
+  useRefreshAfterTransaction(data);
+  const pool = externalContracts[market.chainId].Pool;
 
   /**
    * Handles the action of setting a user's reserve as collateral.
@@ -26,6 +30,7 @@ const useSetUserUseReserveAsCollateral = () => {
       writeContract({
         abi: pool.abi,
         address: pool.address,
+        chainId: market.chainId,
         functionName: "setUserUseReserveAsCollateral",
         args: [asset, useAsCollateral],
       });
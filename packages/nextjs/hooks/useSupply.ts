@@ -1,15 +1,20 @@
+import { PermitSignature } from "./usePermit";
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
 import externalContracts from "@/contracts/externalContracts";
 import { Address } from "viem";
 import { useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Custom hook to handle supply transactions.
- * @returns {Object} - The supply handler function and contract interaction states.
+ * @returns {Object} - The supply handler functions and contract interaction states.
  */
 const useSupply = () => {
+  const { market } = useLendingMarket();
   // Hook for writing to a smart contract
   const { writeContract, error, data: supplyHash } = useWriteContract();
-  const pool = externalContracts[8453].Pool;
+  useRefreshAfterTransaction(supplyHash);
+  const pool = externalContracts[market.chainId].Pool;
 
   /**
    * Handles the supply transaction by writing to the smart contract.
@@ -28,6 +33,7 @@ const useSupply = () => {
       writeContract({
         abi: pool.abi,
         address: pool.address,
+        chainId: market.chainId,
         functionName: "supply",
         args: [asset, amount, onBehalfOf, referralCode],
       });
@@ -36,7 +42,40 @@ const useSupply = () => {
     }
   };
 
-  return { handleSupply, isError: !!error, error, supplyHash };
+  /**
+   * Handles a supply authorized by an EIP-2612 permit, approving and supplying in one transaction.
+   * @param {Address} asset - The address of the asset to supply.
+   * @param {BigInt} amount - The amount to supply in wei.
+   * @param {Address} onBehalfOf - The address on behalf of which the supply is being made.
+   * @param {PermitSignature} permit - The permit deadline and signature.
+   * @param {number} [referralCode=0] - The referral code for the transaction.
+   */
+  const handleSupplyWithPermit = (
+    asset: Address,
+    amount: bigint,
+    onBehalfOf: Address,
+    permit: PermitSignature,
+    referralCode = 0,
+  ) => {
+    if (!pool || !pool.abi || !pool.address) {
+      console.error("Pool contract is not properly defined.");
+      return;
+    }
+
+    try {
+      writeContract({
+        abi: pool.abi,
+        address: pool.address,
+        chainId: market.chainId,
+        functionName: "supplyWithPermit",
+        args: [asset, amount, onBehalfOf, referralCode, permit.deadline, permit.v, permit.r, permit.s],
+      });
+    } catch (err) {
+      console.error("Error executing contract function:", err);
+    }
+  };
+
+  return { handleSupply, handleSupplyWithPermit, isError: !!error, error, supplyHash };
 };
 
 export default useSupply;
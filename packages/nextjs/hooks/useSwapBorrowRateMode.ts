@@ -0,0 +1,46 @@
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
+import externalContracts from "@/contracts/externalContracts";
+import { Address } from "viem";
+import { useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
+import { InterestRateMode } from "~~/utils/lendingMath";
+
+/**
+ * Custom hook to handle switching a debt between the stable and variable rates.
+ * @returns {Object} - The swap handler function and contract interaction states.
+ */
+const useSwapBorrowRateMode = () => {
+  const { market } = useLendingMarket();
+  // Hook for writing to a smart contract
+  const { writeContract, error, data: swapHash, isPending } = useWriteContract();
+  useRefreshAfterTransaction(swapHash);
+  const pool = externalContracts[market.chainId].Pool;
+
+  /**
+   * Handles the swap transaction by writing to the smart contract.
+   * @param {Address} asset - The address of the borrowed asset.
+   * @param {InterestRateMode} currentRateMode - The rate mode the debt is switched from (1 for stable, 2 for variable).
+   */
+  const handleSwapBorrowRateMode = (asset: Address, currentRateMode: InterestRateMode) => {
+    if (!pool || !pool.abi || !pool.address) {
+      console.error("Pool contract is not properly defined.");
+      return;
+    }
+
+    try {
+      writeContract({
+        abi: pool.abi,
+        address: pool.address,
+        chainId: market.chainId,
+        functionName: "swapBorrowRateMode",
+        args: [asset, currentRateMode],
+      });
+    } catch (err) {
+      console.error("Error executing contract function:", err);
+    }
+  };
+
+  return { handleSwapBorrowRateMode, isError: !!error, error, swapHash, isPending };
+};
+
+export default useSwapBorrowRateMode;
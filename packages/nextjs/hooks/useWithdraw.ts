@@ -1,15 +1,19 @@
+import useRefreshAfterTransaction from "./useRefreshAfterTransaction";
 import externalContracts from "@/contracts/externalContracts";
 import { Address } from "viem";
 import { useWriteContract } from "wagmi";
+import { useLendingMarket } from "~~/app/context/LendingMarketContext";
 
 /**
  * Custom hook to handle withdraw transactions.
  * @returns {Object} - The withdraw handler function and contract interaction states.
  */
 const useWithdraw = () => {
+  const { market } = useLendingMarket();
   // Hook for writing to a smart contract
   const { writeContract, error, data: withdrawHash } = useWriteContract();
-  const pool = externalContracts[8453].Pool;
+  useRefreshAfterTransaction(withdrawHash);
+  const pool = externalContracts[market.chainId].Pool;
 
   /**
    * Handles the withdraw transaction by writing to the smart contract.
@@ -27,6 +31,7 @@ const useWithdraw = () => {
       writeContract({
         abi: pool.abi,
         address: pool.address,
+        chainId: market.chainId,
         functionName: "withdraw",
         args: [asset, amount, to],
       });
@@ -35,11 +35,29 @@ export type ReserveData = {
   variableRateSlope2: bigint;
   stableRateSlope1: bigint;
   stableRateSlope2: bigint;
-  scaledATokenBalance: bigint;
+};
+
+/**
+ * Position of the user in a reserve, as returned by UiPoolDataProviderV3.getUserReservesData.
+ */
+export type UserReserveData = {
+  underlyingAsset: string;
   usageAsCollateralEnabledOnUser: boolean;
+  scaledATokenBalance: bigint;
   scaledVariableDebt: bigint;
   principalStableDebt: bigint;
-  stableBorrowLastUpdateTimestamp: bigint;
+  stableBorrowRate: bigint; // Rate of the user stable debt, in ray
+  stableBorrowLastUpdateTimestamp: bigint; // Last accrual of the user stable debt, in seconds
+};
+
+/**
+ * Prices of the market reference currency and the network base token, as returned by UiPoolDataProviderV3.getReservesData.
+ */
+export type BaseCurrencyInfo = {
+  marketReferenceCurrencyUnit: bigint; // One unit of the reference currency, 1e8 for USD
+  marketReferenceCurrencyPriceInUsd: bigint; // With 8 decimals
+  networkBaseTokenPriceInUsd: bigint;
+  networkBaseTokenPriceDecimals: number;
 };
 
 export type ContractResult = {
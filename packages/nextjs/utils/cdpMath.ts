@@ -0,0 +1,132 @@
+/**
+ * Decimals of the collateral prices returned by the House of Coin oracle.
+ */
+export const CDP_PRICE_DECIMALS = 8;
+
+/**
+ * Decimals of the House of Reserve factors, health ratios and liquidation params (1e18 = 1).
+ */
+export const CDP_FACTOR_DECIMALS = 18;
+
+/**
+ * Liquidation params returned by HouseOfCoin.getLiqParams, all 1e18-based.
+ */
+export interface CdpLiqParams {
+  marginCallThreshold: bigint;
+  liquidationThreshold: bigint;
+  liquidationPricePenaltyDiscount: bigint;
+  collateralPenalty: bigint;
+}
+
+/**
+ * Computes the collateral price at which a position's health ratio reaches a threshold.
+ * The health ratio scales linearly with the collateral price, so the current price is scaled by threshold / health ratio.
+ * @param {bigint} price - The current collateral price.
+ * @param {bigint} healthRatio - The current health ratio of the position.
+ * @param {bigint} threshold - The health ratio threshold, e.g. the liquidation threshold.
+ * @returns {bigint | null} - The threshold price, or null if the health ratio is zero.
+ */
+export function computeThresholdPrice(price: bigint, healthRatio: bigint, threshold: bigint): bigint | null {
+  if (healthRatio === 0n) return null;
+  return (price * threshold) / healthRatio;
+}
+
+/**
+ * Risk band of a position, from its health ratio relative to the House of Coin liquidation params.
+ */
+export type CdpRiskBand = "safe" | "caution" | "marginCall" | "liquidation";
+
+// Health ratio buffer above the margin call threshold flagged as caution (0.2)
+const CAUTION_BUFFER = 2n * 10n ** 17n;
+
+/**
+ * Classifies a position's health ratio into a risk band.
+ * @param {bigint} healthRatio - The health ratio of the position.
+ * @param {CdpLiqParams} liqParams - The House of Coin liquidation params.
+ * @returns {CdpRiskBand} - The risk band of the position.
+ */
+export function getRiskBand(healthRatio: bigint, liqParams: CdpLiqParams): CdpRiskBand {
+  if (healthRatio < liqParams.liquidationThreshold) return "liquidation";
+  if (healthRatio < liqParams.marginCallThreshold) return "marginCall";
+  if (healthRatio < liqParams.marginCallThreshold + CAUTION_BUFFER) return "caution";
+  return "safe";
+}
+
+/**
+ * Computes how much the collateral price has to drop to reach a threshold price.
+ * @param {bigint} price - The current collateral price.
+ * @param {bigint} thresholdPrice - The margin call or liquidation price.
+ * @returns {number} - The drop as a percentage of the current price, negative if the threshold is already crossed.
+ */
+export function computePriceDistance(price: bigint, thresholdPrice: bigint): number {
+  if (price === 0n) return 0;
+  return (Number(price - thresholdPrice) / Number(price)) * 100;
+}
+
+/**
+ * CDP actions that can be simulated before signing.
+ */
+export type CdpAction = "deposit" | "withdraw" | "mint" | "repay";
+
+/**
+ * On-chain state needed to project a position locally.
+ */
+export interface CdpSimulationInput {
+  collateral: bigint; // In the reserve asset decimals
+  minted: bigint; // In $XOC decimals
+  price: bigint; // Collateral price in $XOC with CDP_PRICE_DECIMALS
+  assetDecimals: number;
+  xocDecimals: number;
+  maxLTVFactor: bigint; // 1e18 = 100%
+  liquidationFactor: bigint; // 1e18 = 100%
+  reserveMintFee: bigint; // 1e18 = 100%
+  liqParams: CdpLiqParams;
+}
+
+/**
+ * Projected state of a position.
+ */
+export interface CdpProjection {
+  collateral: bigint; // In the reserve asset decimals
+  minted: bigint; // In $XOC decimals
+  healthRatio: bigint | null; // 1e18 = 1, null when nothing is minted
+  remainingMintingPower: bigint; // In $XOC decimals
+  liquidationPrice: bigint | null; // Same unit as price, null when nothing is minted
+  isBelowMarginCall: boolean;
+}
+
+/**
+ * Projects a position after a deposit, withdraw, mint or repay, mirroring the House of Coin math.
+ * The mint fee is counted as extra debt so the projection errs on the safe side.
+ * @param {CdpSimulationInput} input - The current position and house parameters.
+ * @param {CdpAction} action - The action to simulate.
+ * @param {bigint} amount - The action amount, in the reserve asset decimals for deposit and withdraw, in $XOC decimals for mint and repay.
+ * @returns {CdpProjection} - The projected position.
+ */
+export function simulateCdpAction(input: CdpSimulationInput, action: CdpAction, amount: bigint): CdpProjection {
+  const fee = action === "mint" ? (amount * input.reserveMintFee) / 10n ** BigInt(CDP_FACTOR_DECIMALS) : 0n;
+  const collateralDelta = action === "deposit" ? amount : action === "withdraw" ? -amount : 0n;
+  const mintedDelta = action === "mint" ? amount + fee : action === "repay" ? -amount : 0n;
+
+  const collateral = input.collateral + collateralDelta > 0n ? input.collateral + collateralDelta : 0n;
+  const minted = input.minted + mintedDelta > 0n ? input.minted + mintedDelta : 0n;
+
+  // Collateral value in $XOC decimals
+  const collateralValue =
+    (collateral * input.price * 10n ** BigInt(input.xocDecimals)) /
+    10n ** BigInt(CDP_PRICE_DECIMALS + input.assetDecimals);
+  const mintingCapacity = (collateralValue * input.maxLTVFactor) / 10n ** BigInt(CDP_FACTOR_DECIMALS);
+  const healthRatio = minted > 0n ? (collateralValue * input.liquidationFactor) / minted : null;
+
+  return {
+    collateral,
+    minted,
+    healthRatio,
+    remainingMintingPower: mintingCapacity > minted ? mintingCapacity - minted : 0n,
+    liquidationPrice:
+      healthRatio !== null
+        ? computeThresholdPrice(input.price, healthRatio, input.liqParams.liquidationThreshold)
+        : null,
+    isBelowMarginCall: healthRatio !== null && healthRatio < input.liqParams.marginCallThreshold,
+  };
+}
@@ -0,0 +1,172 @@
+import Pool from "@/abis/Pool";
+import { Abi, AbiError, formatAbiItem } from "abitype";
+import { Hex, toFunctionSelector } from "viem";
+import { supertokenABI } from "~~/app/components/abis/Supertoken";
+import { chainlinkAggregatorABI } from "~~/app/components/abis/chainlink";
+import { ERC20ABI } from "~~/app/components/abis/erc20";
+import { houseOfCoinABI } from "~~/app/components/abis/houseofcoin";
+import { houseOfReserveABI } from "~~/app/components/abis/houseofreserve";
+import { liquidityABI } from "~~/app/components/abis/liquidity";
+import { quoterABI, swapRouterABI } from "~~/app/components/abis/uniabis";
+import {
+  XOCABI,
+  approveABI,
+  assetsAccountantABI,
+  erc20ABI,
+  houseOfCoinABI as xocHouseOfCoinABI,
+  houseOfReserveABI as xocHouseOfReserveABI,
+} from "~~/app/components/abis/xocabis";
+import { xocPinABI } from "~~/app/components/abis/xocpin";
+
+const ERROR_SOURCE_ABIS = [
+  houseOfCoinABI,
+  houseOfReserveABI,
+  XOCABI,
+  erc20ABI,
+  xocHouseOfReserveABI,
+  approveABI,
+  xocHouseOfCoinABI,
+  assetsAccountantABI,
+  ERC20ABI,
+  liquidityABI,
+  supertokenABI,
+  quoterABI,
+  swapRouterABI,
+  xocPinABI,
+  chainlinkAggregatorABI,
+  Pool,
+] as Abi[];
+
+/**
+ * Every custom error declared in the app ABIs, without duplicates. Used to decode reverts bubbled up
+ * from contracts other than the one called, e.g. an ERC20 error raised inside a HouseOfReserve deposit.
+ */
+export const CONTRACT_ERRORS_ABI: AbiError[] = ERROR_SOURCE_ABIS.flat()
+  .filter((item): item is AbiError => item.type === "error")
+  .filter((item, index, errors) => errors.findIndex(other => formatAbiItem(other) === formatAbiItem(item)) === index);
+
+// toFunctionSelector does not accept the "error" keyword, the selector is hashed the same way
+const errorsBySelector = new Map<Hex, AbiError>(
+  CONTRACT_ERRORS_ABI.map(item => [toFunctionSelector(formatAbiItem(item).replace(/^error /, "")), item]),
+);
+
+/**
+ * Aave V3 error codes, returned as the revert reason string by the Pool.
+ */
+export const AAVE_ERROR_CODES: Record<string, string> = {
+  "1": "CALLER_NOT_POOL_ADMIN",
+  "2": "CALLER_NOT_EMERGENCY_ADMIN",
+  "3": "CALLER_NOT_POOL_OR_EMERGENCY_ADMIN",
+  "4": "CALLER_NOT_RISK_OR_POOL_ADMIN",
+  "5": "CALLER_NOT_ASSET_LISTING_OR_POOL_ADMIN",
+  "6": "CALLER_NOT_BRIDGE",
+  "7": "ADDRESSES_PROVIDER_NOT_REGISTERED",
+  "8": "INVALID_ADDRESSES_PROVIDER_ID",
+  "9": "NOT_CONTRACT",
+  "10": "CALLER_NOT_POOL_CONFIGURATOR",
+  "11": "CALLER_NOT_ATOKEN",
+  "12": "INVALID_ADDRESSES_PROVIDER",
+  "13": "INVALID_FLASHLOAN_EXECUTOR_RETURN",
+  "14": "RESERVE_ALREADY_ADDED",
+  "15": "NO_MORE_RESERVES_ALLOWED",
+  "16": "EMODE_CATEGORY_RESERVED",
+  "17": "INVALID_EMODE_CATEGORY_ASSIGNMENT",
+  "18": "RESERVE_LIQUIDITY_NOT_ZERO",
+  "19": "FLASHLOAN_PREMIUM_INVALID",
+  "20": "INVALID_RESERVE_PARAMS",
+  "21": "INVALID_EMODE_CATEGORY_PARAMS",
+  "22": "BRIDGE_PROTOCOL_FEE_INVALID",
+  "23": "CALLER_MUST_BE_POOL",
+  "24": "INVALID_MINT_AMOUNT",
+  "25": "INVALID_BURN_AMOUNT",
+  "26": "INVALID_AMOUNT",
+  "27": "RESERVE_INACTIVE",
+  "28": "RESERVE_FROZEN",
+  "29": "RESERVE_PAUSED",
+  "30": "BORROWING_NOT_ENABLED",
+  "31": "STABLE_BORROWING_NOT_ENABLED",
+  "32": "NOT_ENOUGH_AVAILABLE_USER_BALANCE",
+  "33": "INVALID_INTEREST_RATE_MODE_SELECTED",
+  "34": "COLLATERAL_BALANCE_IS_ZERO",
+  "35": "HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD",
+  "36": "COLLATERAL_CANNOT_COVER_NEW_BORROW",
+  "37": "COLLATERAL_SAME_AS_BORROWING_CURRENCY",
+  "38": "AMOUNT_BIGGER_THAN_MAX_LOAN_SIZE_STABLE",
+  "39": "NO_DEBT_OF_SELECTED_TYPE",
+  "40": "NO_EXPLICIT_AMOUNT_TO_REPAY_ON_BEHALF",
+  "41": "NO_OUTSTANDING_STABLE_DEBT",
+  "42": "NO_OUTSTANDING_VARIABLE_DEBT",
+  "43": "UNDERLYING_BALANCE_ZERO",
+  "44": "INTEREST_RATE_REBALANCE_CONDITIONS_NOT_MET",
+  "45": "HEALTH_FACTOR_NOT_BELOW_THRESHOLD",
+  "46": "COLLATERAL_CANNOT_BE_LIQUIDATED",
+  "47": "SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER",
+  "48": "INCONSISTENT_FLASHLOAN_PARAMS",
+  "49": "BORROW_CAP_EXCEEDED",
+  "50": "SUPPLY_CAP_EXCEEDED",
+  "51": "UNBACKED_MINT_CAP_EXCEEDED",
+  "52": "DEBT_CEILING_EXCEEDED",
+  "53": "UNDERLYING_CLAIMABLE_RIGHTS_NOT_ZERO",
+  "54": "STABLE_DEBT_NOT_ZERO",
+  "55": "VARIABLE_DEBT_SUPPLY_NOT_ZERO",
+  "56": "LTV_VALIDATION_FAILED",
+  "57": "INCONSISTENT_EMODE_CATEGORY",
+  "58": "PRICE_ORACLE_SENTINEL_CHECK_FAILED",
+  "59": "ASSET_NOT_BORROWABLE_IN_ISOLATION",
+  "60": "RESERVE_ALREADY_INITIALIZED",
+  "61": "USER_IN_ISOLATION_MODE_OR_LTV_ZERO",
+  "62": "INVALID_LTV",
+  "63": "INVALID_LIQ_THRESHOLD",
+  "64": "INVALID_LIQ_BONUS",
+  "65": "INVALID_DECIMALS",
+  "66": "INVALID_RESERVE_FACTOR",
+  "67": "INVALID_BORROW_CAP",
+  "68": "INVALID_SUPPLY_CAP",
+  "69": "INVALID_LIQUIDATION_PROTOCOL_FEE",
+  "70": "INVALID_EMODE_CATEGORY",
+  "71": "INVALID_UNBACKED_MINT_CAP",
+  "72": "INVALID_DEBT_CEILING",
+  "73": "INVALID_RESERVE_INDEX",
+  "74": "ACL_ADMIN_CANNOT_BE_ZERO",
+  "75": "INCONSISTENT_PARAMS_LENGTH",
+  "76": "ZERO_ADDRESS_NOT_VALID",
+  "77": "INVALID_EXPIRATION",
+  "78": "INVALID_SIGNATURE",
+  "79": "OPERATION_NOT_SUPPORTED",
+  "80": "DEBT_CEILING_NOT_ZERO",
+  "81": "ASSET_NOT_LISTED",
+  "82": "INVALID_OPTIMAL_USAGE_RATIO",
+  "83": "INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO",
+  "84": "UNDERLYING_CANNOT_BE_RESCUED",
+  "85": "ADDRESSES_PROVIDER_ALREADY_ADDED",
+  "86": "POOL_ADDRESSES_DO_NOT_MATCH",
+  "87": "STABLE_BORROWING_ENABLED",
+  "88": "SILOED_BORROWING_VIOLATION",
+  "89": "RESERVE_DEBT_NOT_ZERO",
+  "90": "FLASHLOAN_DISABLED",
+};
+
+/**
+ * Returns the translation key of a custom error.
+ * @param {string} errorName - The name of the custom error.
+ * @returns {string | undefined} - The translation key, or undefined if the error is not in the registry.
+ */
+export const getCustomErrorKey = (errorName: string) =>
+  CONTRACT_ERRORS_ABI.some(item => item.name === errorName) ? `ContractError_${errorName}` : undefined;
+
+/**
+ * Returns the translation key of a custom error from its 4 byte selector.
+ * @param {Hex} selector - The error selector.
+ * @returns {string | undefined} - The translation key, or undefined if the selector is not in the registry.
+ */
+export const getErrorSelectorKey = (selector: Hex) => {
+  const item = errorsBySelector.get(selector.toLowerCase() as Hex);
+  return item ? `ContractError_${item.name}` : undefined;
+};
+
+/**
+ * Returns the translation key of an Aave error code.
+ * @param {string} reason - The revert reason returned by the Pool.
+ * @returns {string | undefined} - The translation key, or undefined if the reason is not an Aave error code.
+ */
+export const getAaveErrorKey = (reason: string) => (reason in AAVE_ERROR_CODES ? `AaveError_${reason}` : undefined);
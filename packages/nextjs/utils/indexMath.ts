@@ -0,0 +1,108 @@
+import { RAY, SECONDS_PER_YEAR } from "./rateMath";
+import { ReserveData, UserReserveData } from "@/types/types";
+import { formatUnits } from "viem";
+
+/**
+ * Index math of the Aave V3 Pool, ported from MathUtils and ReserveLogic.
+ * Balances are stored scaled by the reserve indexes, which the Pool only updates on user actions,
+ * so the current balances are the scaled balances times the indexes accrued up to now.
+ */
+
+const HALF_RAY = RAY / 2n;
+const YEAR = BigInt(SECONDS_PER_YEAR);
+
+/**
+ * Multiplies two ray values, rounding half up.
+ * @param {bigint} a - The first value.
+ * @param {bigint} b - The second value.
+ * @returns {bigint} - The product in ray.
+ */
+export const rayMul = (a: bigint, b: bigint) => (a * b + HALF_RAY) / RAY;
+
+/**
+ * Computes the interest accrued linearly at a rate, as the supply index does.
+ * @param {bigint} rate - The APR in ray.
+ * @param {bigint} lastUpdateTimestamp - The last update of the index, in seconds.
+ * @param {bigint} timestamp - The time to accrue to, in seconds.
+ * @returns {bigint} - The interest factor in ray.
+ */
+export const calculateLinearInterest = (rate: bigint, lastUpdateTimestamp: bigint, timestamp: bigint) => {
+  const elapsed = timestamp > lastUpdateTimestamp ? timestamp - lastUpdateTimestamp : 0n;
+  return RAY + (rate * elapsed) / YEAR;
+};
+
+/**
+ * Computes the interest compounded every second at a rate, as the debt indexes do.
+ * Like the Pool, it uses the first three terms of the binomial expansion.
+ * @param {bigint} rate - The APR in ray.
+ * @param {bigint} lastUpdateTimestamp - The last update of the index, in seconds.
+ * @param {bigint} timestamp - The time to accrue to, in seconds.
+ * @returns {bigint} - The interest factor in ray.
+ */
+export const calculateCompoundedInterest = (rate: bigint, lastUpdateTimestamp: bigint, timestamp: bigint) => {
+  const exp = timestamp > lastUpdateTimestamp ? timestamp - lastUpdateTimestamp : 0n;
+  if (exp === 0n) return RAY;
+
+  const expMinusOne = exp - 1n;
+  const expMinusTwo = exp > 2n ? exp - 2n : 0n;
+  const basePowerTwo = rayMul(rate, rate) / (YEAR * YEAR);
+  const basePowerThree = rayMul(basePowerTwo, rate) / YEAR;
+  const secondTerm = (exp * expMinusOne * basePowerTwo) / 2n;
+  const thirdTerm = (exp * expMinusOne * expMinusTwo * basePowerThree) / 6n;
+
+  return RAY + (rate * exp) / YEAR + secondTerm + thirdTerm;
+};
+
+/**
+ * Balances of a user in a reserve, in the asset units.
+ */
+export interface AccruedBalances {
+  supplied: bigint; // aToken balance
+  variableDebt: bigint;
+  stableDebt: bigint;
+}
+
+/**
+ * Computes the current balances of a user from their scaled balances and the reserve indexes.
+ * @param {ReserveData} reserve - The reserve.
+ * @param {UserReserveData} userReserve - The user position in the reserve.
+ * @param {number} timestamp - The time to accrue to, in seconds.
+ * @returns {AccruedBalances} - The supplied, variable debt and stable debt balances.
+ */
+export const getAccruedBalances = (
+  reserve: ReserveData,
+  userReserve: UserReserveData,
+  timestamp: number,
+): AccruedBalances => {
+  const now = BigInt(timestamp);
+  const lastUpdateTimestamp = BigInt(reserve.lastUpdateTimestamp);
+
+  const liquidityIndex = rayMul(
+    calculateLinearInterest(reserve.liquidityRate, lastUpdateTimestamp, now),
+    reserve.liquidityIndex,
+  );
+  const variableBorrowIndex = rayMul(
+    calculateCompoundedInterest(reserve.variableBorrowRate, lastUpdateTimestamp, now),
+    reserve.variableBorrowIndex,
+  );
+  const stableInterest = calculateCompoundedInterest(
+    userReserve.stableBorrowRate,
+    userReserve.stableBorrowLastUpdateTimestamp,
+    now,
+  );
+
+  return {
+    supplied: rayMul(userReserve.scaledATokenBalance, liquidityIndex),
+    variableDebt: rayMul(userReserve.scaledVariableDebt, variableBorrowIndex),
+    stableDebt: rayMul(userReserve.principalStableDebt, stableInterest),
+  };
+};
+
+/**
+ * Formats an accrued balance with seven decimals, so the interest shows ticking up.
+ * @param {bigint} amount - The balance in the asset units.
+ * @param {number} decimals - The asset decimals.
+ * @returns {string} - The formatted balance.
+ */
+export const formatAccruedBalance = (amount: bigint, decimals: number) =>
+  Number(formatUnits(amount, decimals)).toFixed(7);
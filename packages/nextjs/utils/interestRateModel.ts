@@ -0,0 +1,119 @@
+import { ReserveData } from "@/types/types";
+import { RAY } from "~~/utils/rateMath";
+
+/**
+ * Interest rate model of the Aave V3 DefaultReserveInterestRateStrategy.
+ * Rates grow with slope 1 up to the optimal usage ratio and with slope 2 above it.
+ */
+
+/**
+ * Parameters of a reserve interest rate strategy, as fractions (0.05 is 5%). Rates are APRs.
+ */
+export interface InterestRateModel {
+  optimalUsageRatio: number;
+  baseVariableBorrowRate: number;
+  variableRateSlope1: number;
+  variableRateSlope2: number;
+  baseStableBorrowRate: number;
+  stableRateSlope1: number;
+  stableRateSlope2: number;
+  reserveFactor: number;
+}
+
+/**
+ * Rates of the model at a utilization, as APR fractions.
+ */
+export interface RateCurvePoint {
+  utilization: number;
+  variableBorrowRate: number;
+  stableBorrowRate: number;
+  supplyRate: number;
+}
+
+/**
+ * Computes the utilization of a reserve, its total debt over its total liquidity.
+ * @param {ReserveData} reserve - The reserve.
+ * @returns {number} - The utilization as a fraction.
+ */
+export const getUtilization = (reserve: ReserveData) => {
+  const totalDebt =
+    (reserve.totalScaledVariableDebt * reserve.variableBorrowIndex) / RAY + reserve.totalPrincipalStableDebt;
+  const totalLiquidity = reserve.availableLiquidity + totalDebt;
+  return totalLiquidity > 0n ? Number((totalDebt * 10n ** 18n) / totalLiquidity) / 1e18 : 0;
+};
+
+/**
+ * Applies the two slopes of the model to a utilization.
+ * @param {number} base - The rate at zero utilization.
+ * @param {number} slope1 - The slope up to the optimal usage ratio.
+ * @param {number} slope2 - The slope above the optimal usage ratio.
+ * @param {number} optimalUsageRatio - The kink of the curve.
+ * @param {number} utilization - The utilization.
+ * @returns {number} - The rate.
+ */
+const applySlopes = (base: number, slope1: number, slope2: number, optimalUsageRatio: number, utilization: number) => {
+  if (utilization <= optimalUsageRatio) {
+    return base + (slope1 * utilization) / optimalUsageRatio;
+  }
+  return base + slope1 + (slope2 * (utilization - optimalUsageRatio)) / (1 - optimalUsageRatio);
+};
+
+/**
+ * Computes the rates of the model at a utilization.
+ * The supply rate assumes the whole debt pays the variable rate, the stable debt share is not modelled.
+ * @param {InterestRateModel} model - The interest rate model.
+ * @param {number} utilization - The utilization as a fraction.
+ * @returns {RateCurvePoint} - The borrow and supply rates.
+ */
+export const getRatesAtUtilization = (model: InterestRateModel, utilization: number): RateCurvePoint => {
+  const variableBorrowRate = applySlopes(
+    model.baseVariableBorrowRate,
+    model.variableRateSlope1,
+    model.variableRateSlope2,
+    model.optimalUsageRatio,
+    utilization,
+  );
+  return {
+    utilization,
+    variableBorrowRate,
+    stableBorrowRate: applySlopes(
+      model.baseStableBorrowRate,
+      model.stableRateSlope1,
+      model.stableRateSlope2,
+      model.optimalUsageRatio,
+      utilization,
+    ),
+    supplyRate: variableBorrowRate * utilization * (1 - model.reserveFactor),
+  };
+};
+
+/**
+ * Samples the model curve from 0% to 100% utilization.
+ * @param {InterestRateModel} model - The interest rate model.
+ * @param {number} [steps=100] - The number of intervals.
+ * @returns {RateCurvePoint[]} - The curve points.
+ */
+export const getRateCurve = (model: InterestRateModel, steps = 100) =>
+  Array.from({ length: steps + 1 }, (_, index) => getRatesAtUtilization(model, index / steps));
+
+/**
+ * Finds the utilization at which the model gives a variable borrow rate, inverting the two slopes.
+ * @param {InterestRateModel} model - The interest rate model.
+ * @param {number} variableBorrowRate - The variable borrow APR as a fraction.
+ * @returns {number} - The utilization as a fraction, clamped between 0 and 1.
+ */
+export const getUtilizationAtVariableRate = (model: InterestRateModel, variableBorrowRate: number) => {
+  const { optimalUsageRatio, baseVariableBorrowRate, variableRateSlope1, variableRateSlope2 } = model;
+  const excessRate = variableBorrowRate - baseVariableBorrowRate;
+
+  let utilization: number;
+  if (excessRate <= variableRateSlope1) {
+    utilization = variableRateSlope1 > 0 ? (excessRate / variableRateSlope1) * optimalUsageRatio : 0;
+  } else {
+    utilization =
+      variableRateSlope2 > 0
+        ? optimalUsageRatio + ((excessRate - variableRateSlope1) / variableRateSlope2) * (1 - optimalUsageRatio)
+        : optimalUsageRatio;
+  }
+  return Math.min(Math.max(utilization, 0), 1);
+};
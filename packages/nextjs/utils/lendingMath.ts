@@ -0,0 +1,248 @@
+import { formatUnits } from "viem";
+
+/**
+ * Health factor math for the Aave V3 market.
+ * Values in base currency use the market reference currency decimals, percentages are in basis points
+ * and health factors use 18 decimals, as returned by Pool.getUserAccountData.
+ */
+
+export const HEALTH_FACTOR_DECIMALS = 18;
+export const HEALTH_FACTOR_ONE = 10n ** 18n;
+const PERCENTAGE_FACTOR = 10_000n;
+
+/**
+ * Health factor safety margins offered to the user, the max buttons keep the health factor above them.
+ */
+export const HEALTH_FACTOR_MARGINS = ["1.1", "1.25", "1.5", "2"] as const;
+
+export type LendingAction = "borrow" | "withdraw";
+
+/**
+ * Interest rate modes of the Pool borrow, repay and swapBorrowRateMode functions.
+ */
+export const INTEREST_RATE_MODE = { stable: 1, variable: 2 } as const;
+
+export type InterestRateMode = (typeof INTEREST_RATE_MODE)[keyof typeof INTEREST_RATE_MODE];
+
+/**
+ * Account totals returned by Pool.getUserAccountData.
+ */
+export interface LendingAccount {
+  totalCollateralBase: bigint;
+  totalDebtBase: bigint;
+  availableBorrowsBase: bigint;
+  currentLiquidationThreshold: bigint; // Weighted average of the collaterals
+  healthFactor: bigint;
+}
+
+/**
+ * Reserve parameters needed to value an amount and its effect on the collateral.
+ */
+export interface LendingReserveInput {
+  priceInMarketReferenceCurrency: bigint;
+  decimals: number;
+  liquidationThreshold: bigint; // Effective threshold, the E-Mode one when the reserve is in the user category
+  isCollateral: boolean; // Whether the user uses the reserve as collateral
+}
+
+/**
+ * Values an amount of a reserve in base currency.
+ * @param {bigint} amount - The amount in the asset units.
+ * @param {LendingReserveInput} reserve - The reserve.
+ * @returns {bigint} - The value in base currency.
+ */
+const toBase = (amount: bigint, reserve: LendingReserveInput) =>
+  (amount * reserve.priceInMarketReferenceCurrency) / 10n ** BigInt(reserve.decimals);
+
+/**
+ * Converts a value in base currency to an amount of a reserve.
+ * @param {bigint} value - The value in base currency.
+ * @param {LendingReserveInput} reserve - The reserve.
+ * @returns {bigint} - The amount in the asset units.
+ */
+const fromBase = (value: bigint, reserve: LendingReserveInput) =>
+  reserve.priceInMarketReferenceCurrency > 0n
+    ? (value * 10n ** BigInt(reserve.decimals)) / reserve.priceInMarketReferenceCurrency
+    : 0n;
+
+/**
+ * Computes a health factor from the collateral weighted by its liquidation threshold and the debt.
+ * @param {bigint} weightedCollateral - Collateral in base currency times the liquidation threshold in basis points.
+ * @param {bigint} debt - Debt in base currency.
+ * @returns {bigint | null} - The health factor, null without debt.
+ */
+const computeHealthFactor = (weightedCollateral: bigint, debt: bigint) => {
+  if (debt === 0n) return null;
+  if (weightedCollateral <= 0n) return 0n;
+  return (weightedCollateral * HEALTH_FACTOR_ONE) / (debt * PERCENTAGE_FACTOR);
+};
+
+/**
+ * Projects the health factor after borrowing or withdrawing an amount of a reserve.
+ * @param {LendingAccount} account - The user account data.
+ * @param {LendingAction} action - The action to simulate.
+ * @param {bigint} amount - The amount in the asset units.
+ * @param {LendingReserveInput} reserve - The reserve of the action.
+ * @returns {bigint | null} - The projected health factor, null without debt.
+ */
+export const projectHealthFactor = (
+  account: LendingAccount,
+  action: LendingAction,
+  amount: bigint,
+  reserve: LendingReserveInput,
+) => {
+  const weightedCollateral = account.totalCollateralBase * account.currentLiquidationThreshold;
+  const value = toBase(amount, reserve);
+
+  if (action === "borrow") {
+    return computeHealthFactor(weightedCollateral, account.totalDebtBase + value);
+  }
+  const removedCollateral = reserve.isCollateral ? value * reserve.liquidationThreshold : 0n;
+  return computeHealthFactor(weightedCollateral - removedCollateral, account.totalDebtBase);
+};
+
+/**
+ * Computes the largest amount that keeps the health factor at or above a target.
+ * Borrows are also capped by the borrowing power left by the loan to value.
+ * @param {LendingAccount} account - The user account data.
+ * @param {LendingAction} action - The action to simulate.
+ * @param {LendingReserveInput} reserve - The reserve of the action.
+ * @param {bigint} targetHealthFactor - The minimum health factor to keep, with 18 decimals.
+ * @returns {bigint | undefined} - The maximum amount in the asset units, undefined when the action cannot lower the health factor.
+ */
+export const getMaxAmountForHealthFactor = (
+  account: LendingAccount,
+  action: LendingAction,
+  reserve: LendingReserveInput,
+  targetHealthFactor: bigint,
+) => {
+  const weightedCollateral = account.totalCollateralBase * account.currentLiquidationThreshold;
+
+  if (action === "borrow") {
+    const maxDebt = (weightedCollateral * HEALTH_FACTOR_ONE) / (targetHealthFactor * PERCENTAGE_FACTOR);
+    const byHealthFactor = maxDebt > account.totalDebtBase ? maxDebt - account.totalDebtBase : 0n;
+    const maxValue = byHealthFactor < account.availableBorrowsBase ? byHealthFactor : account.availableBorrowsBase;
+    return fromBase(maxValue, reserve);
+  }
+
+  if (!reserve.isCollateral || account.totalDebtBase === 0n || reserve.liquidationThreshold === 0n) return undefined;
+  const minWeightedCollateral = (targetHealthFactor * account.totalDebtBase * PERCENTAGE_FACTOR) / HEALTH_FACTOR_ONE;
+  if (weightedCollateral <= minWeightedCollateral) return 0n;
+  return fromBase((weightedCollateral - minWeightedCollateral) / reserve.liquidationThreshold, reserve);
+};
+
+/**
+ * Converts the borrowing power left by the loan to value to an amount of a reserve.
+ * @param {LendingAccount} account - The user account data.
+ * @param {LendingReserveInput} reserve - The reserve to borrow.
+ * @returns {bigint} - The amount in the asset units.
+ */
+export const getAvailableBorrowAmount = (account: LendingAccount, reserve: LendingReserveInput) =>
+  fromBase(account.availableBorrowsBase, reserve);
+
+/**
+ * Formats a health factor, null meaning there is no debt.
+ * @param {bigint | null | undefined} healthFactor - The health factor with 18 decimals.
+ * @returns {string} - The formatted health factor.
+ */
+export const formatHealthFactor = (healthFactor: bigint | null | undefined) => {
+  if (healthFactor === undefined) return "-";
+  if (healthFactor === null) return "∞";
+  return Number(formatUnits(healthFactor, HEALTH_FACTOR_DECIMALS)).toFixed(2);
+};
+
+/**
+ * Below this health factor the whole debt of a reserve can be liquidated at once, above it only half.
+ */
+export const CLOSE_FACTOR_HEALTH_FACTOR_THRESHOLD = 95n * 10n ** 16n;
+const DEFAULT_LIQUIDATION_CLOSE_FACTOR = 5_000n;
+const MAX_LIQUIDATION_CLOSE_FACTOR = 10_000n;
+
+/**
+ * Computes the share of a reserve debt a liquidator can repay.
+ * @param {bigint} healthFactor - The borrower health factor with 18 decimals.
+ * @returns {bigint} - The close factor in basis points.
+ */
+export const getLiquidationCloseFactor = (healthFactor: bigint) =>
+  healthFactor < CLOSE_FACTOR_HEALTH_FACTOR_THRESHOLD ? MAX_LIQUIDATION_CLOSE_FACTOR : DEFAULT_LIQUIDATION_CLOSE_FACTOR;
+
+/**
+ * Reserve of a liquidation, priced in the market reference currency.
+ */
+export interface LiquidationReserveInput {
+  priceInMarketReferenceCurrency: bigint;
+  decimals: number;
+}
+
+/**
+ * Outcome of a liquidation as computed by the Pool.
+ */
+export interface LiquidationQuote {
+  debtToCover: bigint; // Debt repaid by the liquidator, lowered when the collateral does not cover it
+  collateralAmount: bigint; // Collateral taken from the borrower, bonus included
+  bonusAmount: bigint; // Collateral received above the value of the repaid debt
+  liquidatorAmount: bigint; // Collateral received by the liquidator, after the protocol fee on the bonus
+}
+
+/**
+ * Quotes a liquidation: the collateral worth the covered debt plus the liquidation bonus, capped by the borrower collateral.
+ * @param {bigint} debtToCover - The debt the liquidator wants to repay.
+ * @param {LiquidationReserveInput} debtReserve - The borrowed reserve.
+ * @param {LiquidationReserveInput} collateralReserve - The collateral reserve.
+ * @param {bigint} userCollateral - The borrower balance of the collateral.
+ * @param {bigint} liquidationBonus - The collateral liquidation bonus in basis points, 10500 being a 5% bonus.
+ * @param {bigint} liquidationProtocolFee - The share of the bonus kept by the protocol, in basis points.
+ * @returns {LiquidationQuote} - The covered debt and the collateral amounts.
+ */
+export const quoteLiquidation = (
+  debtToCover: bigint,
+  debtReserve: LiquidationReserveInput,
+  collateralReserve: LiquidationReserveInput,
+  userCollateral: bigint,
+  liquidationBonus: bigint,
+  liquidationProtocolFee: bigint,
+): LiquidationQuote => {
+  const collateralUnit = 10n ** BigInt(collateralReserve.decimals);
+  const debtUnit = 10n ** BigInt(debtReserve.decimals);
+  // Without a bonus the collateral cannot be liquidated
+  if (
+    liquidationBonus === 0n ||
+    collateralReserve.priceInMarketReferenceCurrency === 0n ||
+    debtReserve.priceInMarketReferenceCurrency === 0n
+  ) {
+    return { debtToCover: 0n, collateralAmount: 0n, bonusAmount: 0n, liquidatorAmount: 0n };
+  }
+
+  let collateralAmount =
+    (((debtToCover * debtReserve.priceInMarketReferenceCurrency * collateralUnit) /
+      (collateralReserve.priceInMarketReferenceCurrency * debtUnit)) *
+      liquidationBonus) /
+    PERCENTAGE_FACTOR;
+  let coveredDebt = debtToCover;
+  if (collateralAmount > userCollateral) {
+    collateralAmount = userCollateral;
+    coveredDebt =
+      (((collateralAmount * collateralReserve.priceInMarketReferenceCurrency * debtUnit) /
+        (debtReserve.priceInMarketReferenceCurrency * collateralUnit)) *
+        PERCENTAGE_FACTOR) /
+      liquidationBonus;
+  }
+
+  const bonusAmount = collateralAmount - (collateralAmount * PERCENTAGE_FACTOR) / liquidationBonus;
+  const protocolFee = (bonusAmount * liquidationProtocolFee) / PERCENTAGE_FACTOR;
+  return {
+    debtToCover: coveredDebt,
+    collateralAmount,
+    bonusAmount,
+    liquidatorAmount: collateralAmount - protocolFee,
+  };
+};
+
+/**
+ * Computes the premium owed on a flash loan, rounded half up like the Pool percentMul.
+ * @param {bigint} amount - The borrowed amount in the asset units.
+ * @param {bigint} premiumTotal - The Pool FLASHLOAN_PREMIUM_TOTAL in basis points.
+ * @returns {bigint} - The premium in the asset units.
+ */
+export const getFlashLoanPremium = (amount: bigint, premiumTotal: bigint) =>
+  (amount * premiumTotal + PERCENTAGE_FACTOR / 2n) / PERCENTAGE_FACTOR;
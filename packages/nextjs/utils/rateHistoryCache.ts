@@ -0,0 +1,93 @@
+/**
+ * IndexedDB cache of the reserve rate histories, so the charts only read the blocks not seen before.
+ * The cache is optional: without IndexedDB, e.g. during server rendering or in private windows, reads return
+ * nothing and writes are dropped.
+ */
+
+const DB_NAME = "lending-rate-history";
+const DB_VERSION = 1;
+const STORE_NAME = "reserveRates";
+
+/**
+ * Rates of a reserve after a ReserveDataUpdated event, as APR fractions.
+ */
+export interface RateHistoryPoint {
+  blockNumber: number;
+  timestamp: number; // Estimated from the block number, in seconds
+  supplyRate: number;
+  variableBorrowRate: number;
+  stableBorrowRate: number;
+}
+
+/**
+ * Rate history of a reserve covering every block from fromBlock to toBlock, oldest point first.
+ */
+export interface RateHistory {
+  fromBlock: number;
+  toBlock: number;
+  points: RateHistoryPoint[];
+}
+
+/**
+ * Builds the cache key of a reserve.
+ * @param {number} chainId - The chain of the market.
+ * @param {string} reserve - The underlying asset of the reserve.
+ * @returns {string} - The cache key.
+ */
+export const getRateHistoryKey = (chainId: number, reserve: string) => `${chainId}-${reserve.toLowerCase()}`;
+
+/**
+ * Opens the cache database, creating its store on the first use.
+ * @returns {Promise<IDBDatabase | null>} - The database, or null without IndexedDB.
+ */
+const openDatabase = () =>
+  new Promise<IDBDatabase | null>(resolve => {
+    if (typeof indexedDB === "undefined") return resolve(null);
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Error opening the rate history cache:", request.error);
+      resolve(null);
+    };
+  });
+
+/**
+ * Reads the cached rate history of a reserve.
+ * @param {string} key - The cache key of the reserve.
+ * @returns {Promise<RateHistory | null>} - The cached history, or null when there is none.
+ */
+export const readRateHistory = async (key: string) => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise<RateHistory | null>(resolve => {
+    const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve((request.result as RateHistory | undefined) ?? null);
+    request.onerror = () => {
+      console.error("Error reading the rate history cache:", request.error);
+      resolve(null);
+    };
+  }).finally(() => db.close());
+};
+
+/**
+ * Replaces the cached rate history of a reserve.
+ * @param {string} key - The cache key of the reserve.
+ * @param {RateHistory} history - The history to cache.
+ */
+export const writeRateHistory = async (key: string, history: RateHistory) => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  await new Promise<void>(resolve => {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    transaction.objectStore(STORE_NAME).put(history, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error("Error writing the rate history cache:", transaction.error);
+      resolve();
+    };
+  }).finally(() => db.close());
+};
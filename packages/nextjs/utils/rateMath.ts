@@ -0,0 +1,94 @@
+import { BaseCurrencyInfo } from "@/types/types";
+
+/**
+ * Rate math for the Aave V3 market.
+ * The Pool stores rates as annual percentage rates in ray and accrues interest every second,
+ * so the yearly yield is the APR compounded per second.
+ */
+
+export const RAY = 10n ** 27n;
+export const SECONDS_PER_YEAR = 31_536_000;
+const USD_DECIMALS = 8; // Decimals of marketReferenceCurrencyPriceInUsd
+
+/**
+ * Converts a ray value to a fraction.
+ * @param {bigint} value - The value with 27 decimals.
+ * @returns {number} - The value as a fraction.
+ */
+export const rayToNumber = (value: bigint) => Number(value) / Number(RAY);
+
+/**
+ * Compounds an APR every second over a year.
+ * @param {number} apr - The APR as a fraction.
+ * @returns {number} - The APY as a fraction.
+ */
+export const aprToApy = (apr: number) => Math.pow(1 + apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1;
+
+/**
+ * Converts a ray APR, such as liquidityRate or variableBorrowRate, to an APY.
+ * @param {bigint} rate - The APR in ray.
+ * @returns {number} - The APY as a fraction.
+ */
+export const rayToApy = (rate: bigint) => aprToApy(rayToNumber(rate));
+
+/**
+ * Formats a ray APR as a percentage APY.
+ * @param {bigint} rate - The APR in ray.
+ * @returns {string} - The APY with two decimals, e.g. "3.05%".
+ */
+export const formatApy = (rate: bigint) => `${(rayToApy(rate) * 100).toFixed(2)}%`;
+
+/**
+ * Values an amount of a reserve in USD, going through the market reference currency.
+ * @param {bigint} amount - The amount in the asset units.
+ * @param {bigint} priceInMarketReferenceCurrency - The asset price in the market reference currency.
+ * @param {number} decimals - The asset decimals.
+ * @param {BaseCurrencyInfo} baseCurrencyInfo - The market reference currency unit and USD price.
+ * @returns {number} - The value in USD.
+ */
+export const toUsdValue = (
+  amount: bigint,
+  priceInMarketReferenceCurrency: bigint,
+  decimals: number,
+  baseCurrencyInfo: BaseCurrencyInfo,
+) =>
+  baseCurrencyInfo.marketReferenceCurrencyUnit > 0n
+    ? Number(
+        (amount * priceInMarketReferenceCurrency * baseCurrencyInfo.marketReferenceCurrencyPriceInUsd) /
+          (10n ** BigInt(decimals) * baseCurrencyInfo.marketReferenceCurrencyUnit),
+      ) /
+      10 ** USD_DECIMALS
+    : 0;
+
+/**
+ * A supplied or borrowed position valued in USD, with its APY as a fraction.
+ */
+export interface RatePosition {
+  value: number;
+  apy: number;
+}
+
+/**
+ * Computes the APY of a set of positions weighted by their value.
+ * @param {RatePosition[]} positions - The positions.
+ * @returns {number} - The weighted APY as a fraction, 0 without value.
+ */
+export const getWeightedApy = (positions: RatePosition[]) => {
+  const totalValue = positions.reduce((sum, { value }) => sum + value, 0);
+  if (totalValue <= 0) return 0;
+  return positions.reduce((sum, { value, apy }) => sum + value * apy, 0) / totalValue;
+};
+
+/**
+ * Computes the net APY of an account: the yearly supply earnings minus the borrow costs over the net worth.
+ * @param {RatePosition[]} supplies - The supplied positions.
+ * @param {RatePosition[]} borrows - The borrowed positions.
+ * @returns {number} - The net APY as a fraction, 0 without net worth.
+ */
+export const getNetApy = (supplies: RatePosition[], borrows: RatePosition[]) => {
+  const earned = supplies.reduce((sum, { value, apy }) => sum + value * apy, 0);
+  const paid = borrows.reduce((sum, { value, apy }) => sum + value * apy, 0);
+  const netWorth =
+    supplies.reduce((sum, { value }) => sum + value, 0) - borrows.reduce((sum, { value }) => sum + value, 0);
+  return netWorth > 0 ? (earned - paid) / netWorth : 0;
+};
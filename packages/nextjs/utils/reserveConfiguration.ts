@@ -0,0 +1,102 @@
+/**
+ * Decoding helpers for the Aave V3 ReserveConfigurationMap bitmap returned by Pool.getConfiguration.
+ */
+
+/**
+ * Reserve parameters stored in the configuration bitmap.
+ * Percentages are in basis points, caps in whole tokens and the debt ceiling in USD with DEBT_CEILING_DECIMALS.
+ */
+export interface ReserveConfiguration {
+  ltv: number;
+  liquidationThreshold: number;
+  liquidationBonus: number;
+  decimals: number;
+  isActive: boolean;
+  isFrozen: boolean;
+  borrowingEnabled: boolean;
+  stableBorrowingEnabled: boolean;
+  isPaused: boolean;
+  borrowableInIsolation: boolean;
+  siloedBorrowing: boolean;
+  flashLoanEnabled: boolean;
+  reserveFactor: number;
+  borrowCap: bigint;
+  supplyCap: bigint;
+  liquidationProtocolFee: number;
+  eModeCategory: number;
+  unbackedMintCap: bigint;
+  debtCeiling: bigint;
+}
+
+export const DEBT_CEILING_DECIMALS = 2;
+
+/**
+ * Reads a field of the bitmap.
+ * @param {bigint} configuration - The reserve configuration bitmap.
+ * @param {bigint} startBit - The first bit of the field.
+ * @param {bigint} size - The field size in bits.
+ * @returns {bigint} - The field value.
+ */
+const getField = (configuration: bigint, startBit: bigint, size: bigint) =>
+  (configuration >> startBit) & ((1n << size) - 1n);
+
+/**
+ * Reads a flag of the bitmap.
+ * @param {bigint} configuration - The reserve configuration bitmap.
+ * @param {bigint} bit - The flag bit.
+ * @returns {boolean} - Whether the flag is set.
+ */
+const getFlag = (configuration: bigint, bit: bigint) => getField(configuration, bit, 1n) === 1n;
+
+/**
+ * Decodes every field of the reserve configuration bitmap.
+ * @param {bigint} configuration - The reserve configuration bitmap.
+ * @returns {ReserveConfiguration} - The decoded configuration.
+ */
+export const decodeReserveConfiguration = (configuration: bigint): ReserveConfiguration => ({
+  ltv: Number(getField(configuration, 0n, 16n)),
+  liquidationThreshold: Number(getField(configuration, 16n, 16n)),
+  liquidationBonus: Number(getField(configuration, 32n, 16n)),
+  decimals: Number(getField(configuration, 48n, 8n)),
+  isActive: getFlag(configuration, 56n),
+  isFrozen: getFlag(configuration, 57n),
+  borrowingEnabled: getFlag(configuration, 58n),
+  stableBorrowingEnabled: getFlag(configuration, 59n),
+  isPaused: getFlag(configuration, 60n),
+  borrowableInIsolation: getFlag(configuration, 61n),
+  siloedBorrowing: getFlag(configuration, 62n),
+  flashLoanEnabled: getFlag(configuration, 63n),
+  reserveFactor: Number(getField(configuration, 64n, 16n)),
+  borrowCap: getField(configuration, 80n, 36n),
+  supplyCap: getField(configuration, 116n, 36n),
+  liquidationProtocolFee: Number(getField(configuration, 152n, 16n)),
+  eModeCategory: Number(getField(configuration, 168n, 8n)),
+  unbackedMintCap: getField(configuration, 176n, 36n),
+  debtCeiling: getField(configuration, 212n, 40n),
+});
+
+/**
+ * Computes how much of an asset can still be borrowed against an isolated collateral.
+ * The Pool accounts isolated debt in units of the borrowed asset with DEBT_CEILING_DECIMALS, whatever its price.
+ * @param {bigint} debtCeiling - The debt ceiling of the isolated collateral.
+ * @param {bigint} isolationModeTotalDebt - The debt already borrowed against the isolated collateral.
+ * @param {number} decimals - The decimals of the borrowed asset.
+ * @returns {bigint} - The remaining amount in the borrowed asset units.
+ */
+export const getRemainingIsolatedBorrow = (debtCeiling: bigint, isolationModeTotalDebt: bigint, decimals: number) => {
+  if (isolationModeTotalDebt >= debtCeiling) return 0n;
+  return (debtCeiling - isolationModeTotalDebt) * 10n ** BigInt(Math.max(decimals - DEBT_CEILING_DECIMALS, 0));
+};
+
+/**
+ * Computes the room left under a supply or borrow cap.
+ * @param {bigint} cap - The cap in whole tokens, 0 meaning no cap.
+ * @param {bigint} used - The amount already supplied or borrowed, in the asset units.
+ * @param {number} decimals - The decimals of the asset.
+ * @returns {bigint | undefined} - The remaining amount in the asset units, undefined when there is no cap.
+ */
+export const getCapHeadroom = (cap: bigint, used: bigint, decimals: number) => {
+  if (cap === 0n) return undefined;
+  const capAmount = cap * 10n ** BigInt(decimals);
+  return used >= capAmount ? 0n : capAmount - used;
+};
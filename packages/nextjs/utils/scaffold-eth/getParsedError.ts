@@ -1,13 +1,39 @@
 import { BaseError as BaseViemError, ContractFunctionRevertedError } from "viem";
+import { getAaveErrorKey, getCustomErrorKey, getErrorSelectorKey } from "~~/utils/contractErrors";
+
+/**
+ * Finds the translation key of a contract revert, from the custom error registry or the Aave error codes
+ * @param error - reverted error
+ * @returns translation key, undefined when the revert is not known
+ */
+const getRevertErrorKey = (error: ContractFunctionRevertedError) => {
+  if (error.data) {
+    return error.data.errorName === "Error"
+      ? getAaveErrorKey(error.reason ?? "")
+      : getCustomErrorKey(error.data.errorName);
+  }
+  if (error.reason) return getAaveErrorKey(error.reason);
+  // Custom errors missing from the called contract ABI only come with their selector
+  if (error.signature) return getErrorSelectorKey(error.signature);
+  return undefined;
+};
 
 /**
  * Parses an viem/wagmi error to get a displayable string
  * @param e - error object
+ * @param translate - optional translation function, used to show known contract errors as a localized message
  * @returns parsed error string
  */
-export const getParsedError = (error: any): string => {
+export const getParsedError = (error: any, translate?: (key: string) => string): string => {
   const parsedError = error?.walk ? error.walk() : error;
 
+  if (translate && parsedError instanceof ContractFunctionRevertedError) {
+    const errorKey = getRevertErrorKey(parsedError);
+    if (errorKey) {
+      return translate(errorKey);
+    }
+  }
+
   if (parsedError instanceof BaseViemError) {
     if (parsedError.details) {
       return parsedError.details;